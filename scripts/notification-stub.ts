@@ -0,0 +1,40 @@
+// A local stand-in for Telegram, Discord and webhook receivers, for trying
+// notification channels without real accounts. Run the app with
+// TELEGRAM_API_URL=http://localhost:4010 and point Discord and webhook
+// channels at http://localhost:4010/<anything>. Every request is printed;
+// webhook signatures are checked when STUB_WEBHOOK_SECRET is set.
+//
+// STUB_FAIL=3 answers the first 3 requests with a 503, to watch retries.
+import http from 'http';
+import { signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../server/services/notifier';
+
+const PORT = Number(process.env.STUB_PORT) || 4010;
+const secret = process.env.STUB_WEBHOOK_SECRET;
+let failuresLeft = Number(process.env.STUB_FAIL) || 0;
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+    if (signature) {
+      const timestamp = String(req.headers[TIMESTAMP_HEADER.toLowerCase()]);
+      const verdict = !secret
+        ? 'not checked (set STUB_WEBHOOK_SECRET)'
+        : signature === signWebhook(secret, timestamp, body) ? 'valid' : 'INVALID';
+      console.log(`signature ${verdict}`);
+    }
+    console.log(body);
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(503).end('stub failure');
+      return;
+    }
+    // Telegram's shape; Discord and webhooks only look at the status.
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true }));
+  });
+}).listen(PORT, () => {
+  console.log(`Notification stub listening on http://localhost:${PORT}`);
+});
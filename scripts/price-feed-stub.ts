@@ -0,0 +1,41 @@
+// A local stand-in for a live price feed. Run the app with
+// PRICE_FEED=ws://localhost:4020 and this broadcasts a random walk for each
+// symbol in STUB_PRICES (default EURUSD=1.0850,XAUUSD=2350) every second.
+// Typing "EURUSD 1.0900" sets a price right away, to cross a level on purpose.
+import readline from 'readline';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.STUB_PORT) || 4020;
+const INTERVAL_MS = 1_000;
+
+const prices = new Map(
+  (process.env.STUB_PRICES || 'EURUSD=1.0850,XAUUSD=2350').split(',').map(pair => {
+    const [symbol, price] = pair.split('=');
+    return [symbol.trim().toUpperCase(), Number(price)] as const;
+  })
+);
+
+const server = new WebSocketServer({ port: PORT });
+const broadcast = (symbol: string, price: number) => {
+  const message = JSON.stringify({ symbol, price, time: Date.now() });
+  server.clients.forEach(client => client.send(message));
+  console.log(message);
+};
+
+setInterval(() => {
+  for (const [symbol, price] of prices) {
+    // Steps of up to 0.02%, rounded to a plausible number of decimals.
+    const next = Number((price * (1 + (Math.random() - 0.5) * 0.0004)).toPrecision(6));
+    prices.set(symbol, next);
+    broadcast(symbol, next);
+  }
+}, INTERVAL_MS);
+
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const [symbol, price] = line.trim().split(/\s+/);
+  if (!symbol || !Number.isFinite(Number(price))) return;
+  prices.set(symbol.toUpperCase(), Number(price));
+  broadcast(symbol.toUpperCase(), Number(price));
+});
+
+console.log(`Price feed stub listening on ws://localhost:${PORT}`);
@@ -0,0 +1,93 @@
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import express from 'express';
+import path from 'path';
+import { createApp } from './server/app';
+import { checkCodeFormat, DEFAULT_CODE_FORMAT } from './server/services/accessCode';
+import { createAlertEngine } from './server/services/alertEngine';
+import { createSqliteAlertStore, createSupabaseAlertStore } from './server/services/alertStore';
+import { createSqliteChannelStore, createSupabaseChannelStore } from './server/services/channelStore';
+import { createSqliteCodeStore, createSupabaseCodeStore, pepperSupabaseCodeIds } from './server/services/codeStore';
+import { openDatabase } from './server/services/db';
+import { createNotifier } from './server/services/notifier';
+import { createSqliteShareStore, createSupabaseShareStore } from './server/services/shareStore';
+import { createSqliteTemplateStore, createSupabaseTemplateStore } from './server/services/templateStore';
+import { createPriceSourceFromEnv } from './server/feeds';
+import { createProviderFromEnv } from './server/providers';
+import { CLIENT_PATHS } from './src/lib/router';
+import { createServerSupabase } from './server/services/supabase';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+const isProduction = process.env.NODE_ENV === 'production';
+
+const provider = createProviderFromEnv();
+if (!provider) {
+  console.warn('No model provider is configured; /api/analyze will be unavailable.');
+}
+// Access codes are stored under this, so it can't be random like the
+// session secret: changing it makes every code stop working.
+const codePepper = process.env.ACCESS_CODE_PEPPER;
+if (!codePepper) {
+  throw new Error('ACCESS_CODE_PEPPER is not set. Set it to a long random secret; see .env.example.');
+}
+
+const supabase = createServerSupabase();
+if (supabase) await pepperSupabaseCodeIds(supabase, codePepper);
+const db = supabase ? null : openDatabase(process.env.DATABASE_PATH || 'data/vertex.db', codePepper);
+
+let sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret) {
+  console.warn('SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts.');
+  sessionSecret = crypto.randomBytes(32).toString('hex');
+}
+
+const codeFormat = (process.env.ACCESS_CODE_FORMAT || DEFAULT_CODE_FORMAT).toUpperCase();
+checkCodeFormat(codeFormat);
+
+const channels = supabase ? createSupabaseChannelStore(supabase) : createSqliteChannelStore(db!);
+
+const priceSource = createPriceSourceFromEnv();
+if (!priceSource) {
+  console.warn('PRICE_FEED is not set; price alerts can be armed but will not fire.');
+}
+const alerts = supabase ? createSupabaseAlertStore(supabase) : createSqliteAlertStore(db!);
+const alertEngine = createAlertEngine({ store: alerts, source: priceSource });
+await alertEngine.start();
+
+const app = createApp({
+  provider,
+  codes: supabase ? createSupabaseCodeStore(supabase) : createSqliteCodeStore(db!),
+  templates: supabase ? createSupabaseTemplateStore(supabase) : createSqliteTemplateStore(db!),
+  shares: supabase ? createSupabaseShareStore(supabase) : createSqliteShareStore(db!),
+  channels,
+  notifier: createNotifier({ store: channels, telegramApiUrl: process.env.TELEGRAM_API_URL || undefined }),
+  alerts,
+  alertEngine,
+  sessionSecret,
+  codePepper,
+  masterCode: process.env.ADMIN_MASTER_CODE || null,
+  codeFormat,
+});
+
+if (isProduction) {
+  const distPath = path.resolve('dist');
+  app.use(express.static(distPath));
+  // Paths the client routes itself; anything else is a 404.
+  app.get(CLIENT_PATHS, (_req, res) => {
+    res.sendFile(path.join(distPath, 'index.html'));
+  });
+} else {
+  // Serve the client through Vite so the API and the app share one origin in dev.
+  const { createServer } = await import('vite');
+  const vite = await createServer({
+    server: { middlewareMode: true },
+    appType: 'spa',
+  });
+  app.use(vite.middlewares);
+}
+
+app.listen(PORT, '0.0.0.0', () => {
+  console.log(`VertexChart server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,24 @@
+import express from 'express';
+import { adminRouter } from './routes/admin';
+import { alertsRouter } from './routes/alerts';
+import { analyzeRouter } from './routes/analyze';
+import { authRouter } from './routes/auth';
+import { channelsRouter } from './routes/channels';
+import { sharesRouter } from './routes/shares';
+import { templatesRouter } from './routes/templates';
+import { AppDeps } from './types';
+
+export function createApp(deps: AppDeps) {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  app.use('/api/auth', authRouter(deps));
+  app.use('/api/analyze', analyzeRouter(deps));
+  app.use('/api/admin', adminRouter(deps));
+  app.use('/api/templates', templatesRouter(deps));
+  app.use('/api/shares', sharesRouter(deps));
+  app.use('/api/channels', channelsRouter(deps));
+  app.use('/api/alerts', alertsRouter(deps));
+
+  return app;
+}
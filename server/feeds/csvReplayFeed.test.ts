@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseTickCsv, TickParseError } from './csvReplayFeed';
+
+describe('parseTickCsv', () => {
+  it('reads the columns in any order, in time order', () => {
+    const ticks = parseTickCsv('price,symbol,time\n1.1002,EUR/USD,2024-01-02T12:00:01Z\n1.1001,eurusd,2024-01-02T12:00:00Z\n');
+    expect(ticks).toEqual([
+      { symbol: 'EURUSD', price: 1.1001, time: Date.UTC(2024, 0, 2, 12, 0, 0) },
+      { symbol: 'EURUSD', price: 1.1002, time: Date.UTC(2024, 0, 2, 12, 0, 1) },
+    ]);
+  });
+
+  it('uses the mid of bid and ask', () => {
+    expect(parseTickCsv('Timestamp,Instrument,Bid,Ask\n1704196800,XAUUSD,2350.10,2350.50\n')).toEqual([
+      { symbol: 'XAUUSD', price: 2350.3, time: Date.UTC(2024, 0, 2, 12) },
+    ]);
+  });
+
+  it('reads semicolon-delimited files', () => {
+    expect(parseTickCsv('"time";"pair";"last"\r\n"2024-01-02T12:00:00Z";"GBPUSD";"1.2700"\r\n')).toEqual([
+      { symbol: 'GBPUSD', price: 1.27, time: Date.UTC(2024, 0, 2, 12) },
+    ]);
+  });
+
+  it('reports the line of a bad row', () => {
+    expect(() => parseTickCsv('time,symbol,price\n\n2024-01-02T12:00:00Z,EURUSD,1.1\n2024-01-02T12:00:01Z,EURUSD,n/a\n'))
+      .toThrow(new TickParseError('Could not read a time, symbol and price.', 4));
+  });
+
+  it('needs a time, symbol and price header', () => {
+    expect(() => parseTickCsv('time,symbol,bid\n')).toThrow(TickParseError);
+    expect(() => parseTickCsv('\n\n')).toThrow('The file is empty.');
+  });
+});
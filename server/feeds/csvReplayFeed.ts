@@ -0,0 +1,82 @@
+import fs from 'fs';
+import { normalizeSymbol } from '../../src/lib/instruments';
+import { parseTimestamp } from '../../src/lib/ohlc';
+import { PriceSource, PriceTick } from '../types';
+
+// Quiet stretches in the file, such as weekends, are shortened to this.
+const MAX_GAP_MS = 5_000;
+
+export class TickParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'TickParseError';
+  }
+}
+
+// Reads ticks from a CSV with a header naming a time, symbol and price
+// column, in any order. Files with bid and ask instead of a price use the mid.
+export const parseTickCsv = (text: string): PriceTick[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const first = lines.findIndex(line => line.length > 0);
+  if (first === -1) throw new TickParseError('The file is empty.');
+
+  const delimiter = lines[first].includes(';') && !lines[first].includes(',') ? ';' : ',';
+  const names = lines[first].split(delimiter).map(cell => cell.trim().replace(/"/g, '').toLowerCase());
+  const find = (...candidates: string[]) => names.findIndex(name => candidates.includes(name));
+  const column = {
+    time: find('time', 'timestamp', 'datetime', 'date'),
+    symbol: find('symbol', 'pair', 'instrument'),
+    price: find('price', 'last', 'close', 'mid'),
+    bid: find('bid'),
+    ask: find('ask'),
+  };
+  if (column.time === -1 || column.symbol === -1 || (column.price === -1 && (column.bid === -1 || column.ask === -1))) {
+    throw new TickParseError('The header needs time, symbol and price (or bid and ask) columns.', first + 1);
+  }
+
+  const ticks: PriceTick[] = [];
+  for (let i = first + 1; i < lines.length; i++) {
+    if (!lines[i]) continue;
+    const cells = lines[i].split(delimiter).map(cell => cell.trim().replace(/"/g, ''));
+    const price = column.price !== -1
+      ? Number(cells[column.price])
+      : (Number(cells[column.bid]) + Number(cells[column.ask])) / 2;
+    const tick = { symbol: normalizeSymbol(cells[column.symbol] ?? ''), price, time: parseTimestamp(cells[column.time] ?? '') };
+    if (!tick.symbol || !Number.isFinite(tick.price) || !Number.isFinite(tick.time)) {
+      throw new TickParseError('Could not read a time, symbol and price.', i + 1);
+    }
+    ticks.push(tick);
+  }
+  return ticks.sort((a, b) => a.time - b.time);
+};
+
+interface ReplayOptions {
+  // 2 plays the file twice as fast as it was recorded.
+  speed?: number;
+  // Starts over at the end instead of going quiet.
+  loop?: boolean;
+}
+
+// Plays a recorded file back as if it were live: ticks keep their spacing
+// (divided by `speed`) and are stamped with the time they are played.
+export const createCsvReplayFeed = (file: string, { speed = 1, loop = false }: ReplayOptions = {}): PriceSource => ({
+  name: `CSV replay of ${file}`,
+
+  start(onTick) {
+    const ticks = parseTickCsv(fs.readFileSync(file, 'utf8'));
+    let timeout: NodeJS.Timeout | undefined;
+
+    const play = (index: number) => {
+      if (index >= ticks.length) {
+        if (loop && ticks.length > 0) play(0);
+        return;
+      }
+      onTick({ ...ticks[index], time: Date.now() });
+      const next = ticks[index + 1];
+      const gap = next ? Math.min((next.time - ticks[index].time) / speed, MAX_GAP_MS) : 0;
+      timeout = setTimeout(() => play(index + 1), gap);
+    };
+    timeout = setTimeout(() => play(0), 0);
+    return () => clearTimeout(timeout);
+  },
+});
@@ -0,0 +1,18 @@
+import { PriceSource } from '../types';
+import { createCsvReplayFeed } from './csvReplayFeed';
+import { createWebSocketFeed } from './webSocketFeed';
+
+// Picks the alert engine's price feed from PRICE_FEED: a CSV file to replay
+// (csv:path/to/ticks.csv) or a ws:// or wss:// URL. Null when unset.
+export const createPriceSourceFromEnv = (env: NodeJS.ProcessEnv = process.env): PriceSource | null => {
+  const feed = env.PRICE_FEED?.trim();
+  if (!feed) return null;
+
+  if (/^wss?:\/\//i.test(feed)) return createWebSocketFeed(feed);
+  if (feed.startsWith('csv:')) {
+    const speed = Number(env.PRICE_REPLAY_SPEED || 1);
+    if (!(speed > 0)) throw new Error('PRICE_REPLAY_SPEED must be a positive number.');
+    return createCsvReplayFeed(feed.slice('csv:'.length), { speed, loop: env.PRICE_REPLAY_LOOP === 'true' });
+  }
+  throw new Error(`Unknown PRICE_FEED "${feed}". Use csv:<file> or a ws:// URL.`);
+};
@@ -0,0 +1,60 @@
+import WebSocket from 'ws';
+import { normalizeSymbol } from '../../src/lib/instruments';
+import { PriceSource, PriceTick } from '../types';
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// Accepts {"symbol":"EURUSD","price":1.085} or {"pair":"EUR/USD","bid":…,"ask":…},
+// with an optional `time` in epoch milliseconds; anything else is ignored.
+const readTick = (raw: any): PriceTick | null => {
+  const symbol = normalizeSymbol(String(raw?.symbol ?? raw?.pair ?? ''));
+  const price = raw?.price !== undefined ? Number(raw.price) : (Number(raw?.bid) + Number(raw?.ask)) / 2;
+  const time = raw?.time !== undefined ? Number(raw.time) : Date.now();
+  return symbol && Number.isFinite(price) && Number.isFinite(time) ? { symbol, price, time } : null;
+};
+
+// Listens to a WebSocket that sends one tick, or an array of ticks, per
+// JSON message. Reconnects with backoff when the connection drops.
+export const createWebSocketFeed = (url: string): PriceSource => ({
+  name: `WebSocket feed at ${url}`,
+
+  start(onTick) {
+    let socket: WebSocket | null = null;
+    let timeout: NodeJS.Timeout | undefined;
+    let delay = 1_000;
+    let stopped = false;
+
+    const connect = () => {
+      socket = new WebSocket(url);
+      socket.on('open', () => {
+        delay = 1_000;
+      });
+      socket.on('message', data => {
+        let message: unknown;
+        try {
+          message = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+        for (const raw of Array.isArray(message) ? message : [message]) {
+          const tick = readTick(raw);
+          if (tick) onTick(tick);
+        }
+      });
+      // 'close' follows, which schedules the reconnect.
+      socket.on('error', err => console.error(`Price feed: ${err.message}`));
+      socket.on('close', () => {
+        if (stopped) return;
+        timeout = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+      });
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timeout);
+      socket?.close();
+    };
+  },
+});
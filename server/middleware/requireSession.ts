@@ -0,0 +1,46 @@
+import { RequestHandler } from 'express';
+import { SessionRole } from '../../src/types';
+import { codeProblem } from '../services/codeUsage';
+import { verifySession } from '../services/sessionService';
+import { AppDeps } from '../types';
+
+// Verifies the bearer token and exposes it as res.locals.session. User
+// sessions are re-checked against the code store on every request, so a
+// deleted, expired or suspended code stops working immediately rather than at
+// token expiry. The code itself is exposed as res.locals.accessCode.
+export const requireSession = (
+  { codes, sessionSecret }: Pick<AppDeps, 'codes' | 'sessionSecret'>,
+  roles: SessionRole[] = ['user', 'admin']
+): RequestHandler => async (req, res, next) => {
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const session = token ? verifySession(token, sessionSecret) : null;
+
+  if (!session) {
+    res.status(401).json({ error: 'Session expired. Please log in again.' });
+    return;
+  }
+
+  if (session.role === 'user') {
+    try {
+      const code = session.codeId ? await codes.find(session.codeId) : null;
+      const problem = codeProblem(code);
+      if (problem) {
+        res.status(401).json({ error: problem });
+        return;
+      }
+      res.locals.accessCode = code;
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+  }
+
+  if (!roles.includes(session.role)) {
+    res.status(403).json({ error: 'You do not have access to this resource.' });
+    return;
+  }
+
+  res.locals.session = session;
+  next();
+};
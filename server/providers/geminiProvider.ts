@@ -0,0 +1,72 @@
+import { GoogleGenAI, ThinkingLevel } from "@google/genai";
+import { ChartImage, ModelProvider } from "../types";
+
+// Using Flash model for high speed and efficiency
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+const toContents = (prompt: string, images: ChartImage[]) => [
+  {
+    parts: [
+      { text: prompt },
+      ...images.flatMap(({ label, mimeType, data }) => [
+        ...(label ? [{ text: label }] : []),
+        { inlineData: { mimeType, data } },
+      ]),
+    ],
+  },
+];
+
+const toFriendlyError = (error: any) => {
+  console.error("Gemini API Error:", error);
+  if (error.message?.includes("API_KEY_INVALID")) {
+    return new Error("Invalid Gemini API Key. Please check your configuration.");
+  }
+  return error;
+};
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const config = (signal?: AbortSignal) => ({
+    responseMimeType: "application/json",
+    thinkingConfig: { thinkingLevel: ThinkingLevel.LOW },
+    abortSignal: signal,
+    // Only include tools if needed or if they don't cause failures
+    // tools: [{ googleSearch: {} }],
+  });
+
+  return {
+    id: "gemini",
+    model,
+    async generate(prompt, images, { signal } = {}) {
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: toContents(prompt, images),
+          config: config(signal),
+        });
+
+        const text = response.text;
+        if (!text) {
+          throw new Error("No response received from AI model.");
+        }
+        return text;
+      } catch (error: any) {
+        throw toFriendlyError(error);
+      }
+    },
+    async *stream(prompt, images, { signal } = {}) {
+      try {
+        const chunks = await ai.models.generateContentStream({
+          model,
+          contents: toContents(prompt, images),
+          config: config(signal),
+        });
+        for await (const chunk of chunks) {
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error: any) {
+        throw toFriendlyError(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { ModelProvider, ProviderId } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+
+// Picks the provider for this deployment from MODEL_PROVIDER (default
+// "gemini"). Returns null when the chosen provider is missing its settings.
+export const createProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): ModelProvider | null => {
+  const id = (env.MODEL_PROVIDER || "gemini") as ProviderId;
+
+  switch (id) {
+    case "gemini":
+      return env.GEMINI_API_KEY
+        ? createGeminiProvider(env.GEMINI_API_KEY, env.MODEL_NAME || DEFAULT_GEMINI_MODEL)
+        : null;
+    case "openai":
+      if (!env.MODEL_NAME) return null;
+      return createOpenAiProvider({
+        baseUrl: env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        model: env.MODEL_NAME,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case "mock":
+      return createMockProvider(env.MOCK_FIXTURES_DIR || undefined);
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${id}". Use gemini, openai or mock.`);
+  }
+};
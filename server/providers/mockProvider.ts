@@ -0,0 +1,61 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ChartImage, ModelProvider } from "../types";
+
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const STREAM_CHUNK = 24;
+const STREAM_DELAY_MS = 30;
+
+// Replays canned responses from JSON fixtures for tests and demos. The
+// fixture is picked from a hash of the images, so the same chart always
+// produces the same analysis.
+export const createMockProvider = (fixturesDir = DEFAULT_FIXTURES_DIR): ModelProvider => {
+  const fixtures = fs.readdirSync(fixturesDir)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(fixturesDir, file), "utf8")));
+  if (fixtures.length === 0) {
+    throw new Error(`No mock fixtures found in ${fixturesDir}.`);
+  }
+
+  const pick = (prompt: string, images: ChartImage[]) => {
+    const hash = crypto.createHash("sha256");
+    images.forEach(image => hash.update(image.data));
+    const fixture = structuredClone(fixtures[hash.digest().readUInt32BE(0) % fixtures.length]);
+
+    // Multi-chart prompts expect a per-timeframe breakdown.
+    if (images.length > 1 && !fixture.timeframes) {
+      fixture.timeframes = images.map((image, i) => ({
+        timeframe: image.label?.replace(/ chart:$/, "") ?? `TF${i + 1}`,
+        bias: fixture.signal.action === "BUY" ? "BULLISH" : fixture.signal.action === "SELL" ? "BEARISH" : "NEUTRAL",
+        summary: `Mock ${fixture.signal.action.toLowerCase()} context.`,
+      }));
+    }
+    // Templates can ask for other methods than the fixtures cover.
+    const technical = prompt.match(/"technical": \{([^}]*)\}/)?.[1] ?? "";
+    for (const [, key] of technical.matchAll(/"(\w+)": "string"/g)) {
+      fixture.technical[key] ??= `Mock ${key} analysis.`;
+    }
+    return JSON.stringify(fixture, null, 2);
+  };
+
+  return {
+    id: "mock",
+    model: "fixtures",
+    async generate(prompt, images) {
+      return pick(prompt, images);
+    },
+    // Replays the fixture in small chunks so the streaming UI can be tried
+    // without a model.
+    async *stream(prompt, images, { signal } = {}) {
+      const text = pick(prompt, images);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK) {
+        signal?.throwIfAborted();
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        yield text.slice(i, i + STREAM_CHUNK);
+      }
+    },
+  };
+};
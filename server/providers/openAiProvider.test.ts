@@ -0,0 +1,38 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createOpenAiProvider } from "./openAiProvider";
+
+let server: http.Server | undefined;
+
+afterEach(() => new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve())));
+
+// A chat completions server that streams `body` as is.
+const serve = async (body: string) => {
+  server = http.createServer((_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.end(body);
+  }).listen(0);
+  await new Promise(resolve => server!.once("listening", resolve));
+  return createOpenAiProvider({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`, model: "test" });
+};
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+const collect = async (provider: Awaited<ReturnType<typeof serve>>) => {
+  const chunks: string[] = [];
+  for await (const chunk of provider.stream!("prompt", [])) chunks.push(chunk);
+  return chunks;
+};
+
+describe("createOpenAiProvider stream", () => {
+  it("skips keep-alives and chunks that aren't JSON", async () => {
+    const provider = await serve([": keep-alive", delta('{"a"'), "data: {not json", "data:", delta(":1}"), "data: [DONE]", ""].join("\n"));
+    expect(await collect(provider)).toEqual(['{"a"', ":1}"]);
+  });
+
+  it("reads a last event that ends without a newline", async () => {
+    const provider = await serve(`${delta("{")}\n${delta("}")}`);
+    expect(await collect(provider)).toEqual(["{", "}"]);
+  });
+});
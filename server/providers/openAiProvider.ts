@@ -0,0 +1,99 @@
+import { ChartImage, ModelProvider } from "../types";
+
+export interface OpenAiProviderOptions {
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+// The text a server-sent `data:` line adds, if any. Keep-alives and chunks
+// that aren't JSON are skipped rather than ending the analysis.
+const deltaText = (line: string): string | null => {
+  const data = line.replace(/^data:\s*/, "").trim();
+  if (!line.startsWith("data:") || !data || data === "[DONE]") return null;
+  try {
+    const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+    return typeof text === "string" ? text : null;
+  } catch {
+    return null;
+  }
+};
+
+// Talks to any server implementing the OpenAI chat completions API with
+// image inputs, so a local vision model can stand in for Gemini.
+export const createOpenAiProvider = ({
+  baseUrl,
+  model,
+  apiKey,
+  timeoutMs = 120_000,
+}: OpenAiProviderOptions): ModelProvider => {
+  const complete = async (prompt: string, images: ChartImage[], stream: boolean, signal?: AbortSignal) => {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        temperature: 0.2,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              ...images.flatMap(({ label, mimeType, data }) => [
+                ...(label ? [{ type: "text", text: label }] : []),
+                { type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } },
+              ]),
+            ],
+          },
+        ],
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      console.error("OpenAI-compatible API Error:", response.status, detail);
+      throw new Error(`Model server responded with status ${response.status}.`);
+    }
+    return response;
+  };
+
+  return {
+    id: "openai",
+    model,
+    async generate(prompt, images, { signal } = {}) {
+      const body = await (await complete(prompt, images, false, signal)).json();
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== "string" || !text) {
+        throw new Error("No response received from AI model.");
+      }
+      return text;
+    },
+    // Streamed responses arrive as server-sent events, one `data:` line per delta.
+    async *stream(prompt, images, { signal } = {}) {
+      const response = await complete(prompt, images, true, signal);
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const text = deltaText(line);
+          if (text) yield text;
+        }
+      }
+      // The last event may end without a newline.
+      const text = deltaText(buffer + decoder.decode());
+      if (text) yield text;
+    },
+  };
+};
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { AccessCode, AccessCodeUpdate, IssuedCode } from '../../src/types';
+import { requireSession } from '../middleware/requireSession';
+import { checkCodeFormat, CodeFormatError, generateUniqueCodes, hashCode, maskCode } from '../services/accessCode';
+import { CodeChanges } from '../services/codeStore';
+import { AppDeps } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Most codes issued by one request, e.g. a batch for a reseller.
+const MAX_BATCH = 200;
+
+class LimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LimitError';
+  }
+}
+
+// A positive whole number, or null for "no limit". Missing means unchanged.
+const readLimit = (value: unknown, name: string): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) throw new LimitError(`${name} must be a positive whole number.`);
+  return limit;
+};
+
+const readLabel = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value.trim().slice(0, 120) : undefined;
+
+export const adminRouter = (deps: AppDeps) => {
+  const router = Router();
+  router.use(requireSession(deps, ['admin']));
+
+  router.get('/codes', async (_req, res) => {
+    try {
+      const [codes, devices] = await Promise.all([deps.codes.list(), deps.codes.devices()]);
+      res.json(codes.map(code => ({
+        ...code,
+        activeDevices: devices.filter(device => device.codeId === code.id).length,
+      })));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Issues `count` codes (default 1) sharing the same settings. Takes either
+  // `days` of access or an absolute `expiry` timestamp, and an optional
+  // `format` overriding the server's. The codes are only ever returned here.
+  router.post('/codes', async (req, res) => {
+    const now = Date.now();
+    const body = req.body ?? {};
+    const expiry = body.expiry !== undefined ? Number(body.expiry) : now + Number(body.days) * DAY_MS;
+    if (!Number.isFinite(expiry) || expiry <= now) {
+      res.status(400).json({ error: 'Duration must be a positive number of days, or an expiry in the future.' });
+      return;
+    }
+
+    const count = body.count === undefined ? 1 : Number(body.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH) {
+      res.status(400).json({ error: `Issue between 1 and ${MAX_BATCH} codes at a time.` });
+      return;
+    }
+
+    let settings: Omit<AccessCode, 'id' | 'hint'>;
+    let format: string;
+    try {
+      format = typeof body.format === 'string' && body.format.trim() ? body.format.trim().toUpperCase() : deps.codeFormat;
+      checkCodeFormat(format);
+      settings = {
+        duration: (expiry - now) / DAY_MS,
+        createdAt: now,
+        expiry,
+        label: readLabel(body.label) ?? '',
+        maxAnalyses: readLimit(body.maxAnalyses, 'Max analyses') ?? null,
+        maxDevices: readLimit(body.maxDevices, 'Max devices') ?? null,
+        analysesUsed: 0,
+        suspended: false,
+      };
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    try {
+      const issued: IssuedCode[] = [];
+      for (const code of await generateUniqueCodes(deps.codes, deps.codePepper, count, format)) {
+        const stored: AccessCode = { ...settings, id: hashCode(code, deps.codePepper), hint: maskCode(code) };
+        await deps.codes.insert(stored);
+        issued.push({ ...stored, code, activeDevices: 0 });
+      }
+      res.status(201).json(issued);
+    } catch (err: any) {
+      res.status(err instanceof CodeFormatError ? 400 : 500).json({ error: err.message });
+    }
+  });
+
+  // Label, limits, suspend/resume, extend, and releasing device slots.
+  router.patch('/codes/:id', async (req, res) => {
+    const update: AccessCodeUpdate = req.body ?? {};
+    try {
+      const code = await deps.codes.find(req.params.id);
+      if (!code) {
+        res.status(404).json({ error: 'That access code no longer exists.' });
+        return;
+      }
+
+      const changes: CodeChanges = {
+        label: readLabel(update.label),
+        maxAnalyses: readLimit(update.maxAnalyses, 'Max analyses'),
+        maxDevices: readLimit(update.maxDevices, 'Max devices'),
+        suspended: typeof update.suspended === 'boolean' ? update.suspended : undefined,
+      };
+
+      const now = Date.now();
+      if (update.extendDays !== undefined) {
+        const days = Number(update.extendDays);
+        if (!Number.isFinite(days) || days <= 0) throw new LimitError('Extend by a positive number of days.');
+        changes.expiry = Math.max(code.expiry, now) + days * DAY_MS;
+      } else if (update.expiry !== undefined) {
+        const expiry = Number(update.expiry);
+        if (!Number.isFinite(expiry) || expiry <= now) throw new LimitError('The new expiry must be in the future.');
+        changes.expiry = expiry;
+      }
+      if (changes.expiry !== undefined) changes.duration = (changes.expiry - code.createdAt) / DAY_MS;
+
+      await deps.codes.update(code.id, changes);
+      if (update.releaseDevices) await deps.codes.releaseDevices(code.id);
+
+      const [updated, devices] = await Promise.all([deps.codes.find(code.id), deps.codes.devices(code.id)]);
+      res.json({ ...updated, activeDevices: devices.length });
+    } catch (err: any) {
+      res.status(err instanceof LimitError ? 400 : 500).json({ error: err.message });
+    }
+  });
+
+  router.delete('/codes/:id', async (req, res) => {
+    try {
+      await deps.codes.remove(req.params.id);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Usage log of logins and analyses, for one code or all of them.
+  router.get('/events', async (req, res) => {
+    try {
+      res.json(await deps.codes.events(typeof req.query.codeId === 'string' ? req.query.codeId : undefined));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { startTestApp, userSession } from '../testApp';
+
+let app: Awaited<ReturnType<typeof startTestApp>>;
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await app?.close();
+});
+
+describe('GET /api/alerts/stream', () => {
+  it('ends at the next heartbeat once the code is suspended', async () => {
+    // Only the heartbeat is faked; the sockets keep their real timers.
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    app = await startTestApp();
+    const { code, token } = await userSession(app.deps);
+
+    const response = await fetch(`${app.url}/api/alerts/stream`, { headers: { Authorization: `Bearer ${token}` } });
+    expect(response.status).toBe(200);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+
+    await vi.advanceTimersByTimeAsync(25_000);
+    const first = await reader.read();
+    expect(JSON.parse(decoder.decode(first.value))).toEqual({ type: 'ping' });
+
+    await app.deps.codes.update(code.id, { suspended: true });
+    await vi.advanceTimersByTimeAsync(25_000);
+    // The last ping goes out before the check; the test times out if the
+    // stream stays open after it.
+    const rest = [];
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) rest.push(decoder.decode(chunk.value));
+    expect(rest.join('').split('\n').filter(Boolean).map(line => JSON.parse(line))).toEqual([{ type: 'ping' }]);
+  });
+});
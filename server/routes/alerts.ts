@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { ACTIVE_ALERT_STATUSES, alertLevels } from '../../src/lib/priceAlerts';
+import { requireSession } from '../middleware/requireSession';
+import { StoredAlert, toClient } from '../services/alertStore';
+import { codeProblem } from '../services/codeUsage';
+import { sessionOwner } from '../services/sessionService';
+import { TradingSignal } from '../../src/types';
+import { AppDeps, Session } from '../types';
+
+// Keeps proxies from closing an idle event stream.
+const HEARTBEAT_MS = 25_000;
+
+// Levels are re-read from the signal's text rather than trusting `levels`.
+const readSignal = (body: any): TradingSignal | null => {
+  const { pair, action, entry, tp, sl } = body ?? {};
+  if (![pair, entry, tp, sl].every(value => typeof value === 'string') || !['BUY', 'SELL', 'NEUTRAL'].includes(action)) {
+    return null;
+  }
+  return { pair, action, entry, tp, sl, confidence: Number(body.confidence) || 0, reasoning: '' };
+};
+
+// Alerts follow history entries, which only user sessions have.
+export const alertsRouter = (deps: AppDeps) => {
+  const router = Router();
+  router.use(requireSession(deps, ['user']));
+
+  router.get('/', async (_req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      res.json(await deps.alerts.list(sessionOwner(session)));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/feed', (_req, res) => {
+    res.json(deps.alertEngine.status());
+  });
+
+  // Arms alerts on the entry, TP1 and SL of `signal`, read the same way as
+  // the backtest reads them. One alert per analysis at a time.
+  router.post('/', async (req, res) => {
+    const analysisId = req.body?.analysisId;
+    const signal = readSignal(req.body?.signal);
+    if (typeof analysisId !== 'string' || !analysisId || !signal) {
+      res.status(400).json({ error: 'Send the analysis id and its signal.' });
+      return;
+    }
+    const levels = alertLevels(signal);
+    if (typeof levels === 'string') {
+      res.status(400).json({ error: `Cannot arm alerts: ${levels}` });
+      return;
+    }
+
+    const session: Session = res.locals.session;
+    const owner = sessionOwner(session);
+    try {
+      const existing = (await deps.alerts.list(owner))
+        .find(alert => alert.analysisId === analysisId && ACTIVE_ALERT_STATUSES.includes(alert.status));
+      if (existing) {
+        res.status(409).json({ error: 'Alerts are already armed for this analysis.' });
+        return;
+      }
+
+      const now = Date.now();
+      const alert: StoredAlert = {
+        ...levels,
+        id: crypto.randomUUID(),
+        owner,
+        analysisId,
+        pair: signal.pair,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      };
+      await deps.alerts.insert(alert);
+      deps.alertEngine.watch(alert);
+      res.status(201).json(toClient(alert));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      const alert = await deps.alerts.find(req.params.id);
+      if (!alert || alert.owner !== sessionOwner(session)) {
+        res.status(404).json({ error: 'Alert not found.' });
+        return;
+      }
+      deps.alertEngine.unwatch(alert.id);
+      await deps.alerts.remove(alert.id);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // `?unseen=1` returns only what no browser has handled yet, e.g. what
+  // fired while every tab was closed.
+  router.get('/events', async (req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      res.json(await deps.alerts.events(sessionOwner(session), { unseen: req.query.unseen === '1' }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.post('/events/seen', async (req, res) => {
+    const ids = Array.isArray(req.body?.ids) ? req.body.ids.filter((id: unknown) => typeof id === 'string') : [];
+    const session: Session = res.locals.session;
+    try {
+      await deps.alerts.markSeen(sessionOwner(session), ids);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // The session's alert events as they happen, as newline-delimited JSON:
+  //   { type: 'event', event }  an AlertEvent
+  //   { type: 'ping' }          a heartbeat
+  // The stream ends when the session expires, or at the next heartbeat after
+  // its code is deleted, suspended or expires early.
+  router.get('/stream', (req, res) => {
+    const session: Session = res.locals.session;
+    const send = (message: object) => res.write(`${JSON.stringify(message)}\n`);
+    // Subscribed before the headers go out, so a client that fetches unseen
+    // events once they arrive can't miss one in between.
+    const unsubscribe = deps.alertEngine.subscribe(sessionOwner(session), event => send({ type: 'event', event }));
+    res.status(200).set({
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    const stop = () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+    };
+    const end = () => {
+      stop();
+      res.end();
+    };
+    const heartbeat = setInterval(async () => {
+      send({ type: 'ping' });
+      try {
+        if (codeProblem(await deps.codes.find(session.codeId!))) end();
+      } catch (err) {
+        console.error(err);
+      }
+    }, HEARTBEAT_MS);
+    const expiry = setTimeout(end, Math.max(0, session.expiresAt - Date.now()));
+    req.on('close', stop);
+  });
+
+  return router;
+};
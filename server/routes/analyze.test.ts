@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from '../providers/mockProvider';
+import { AppDeps, ModelProvider } from '../types';
+import { startTestApp, userSession } from '../testApp';
+
+const FIXTURE = fs.readFileSync(
+  path.join(path.dirname(fileURLToPath(import.meta.url)), '../providers/fixtures/eurusd-buy.json'),
+  'utf8'
+);
+const CHART = 'data:image/png;base64,AAAA';
+
+const stubProvider = (generate: ModelProvider['generate']): ModelProvider => ({ id: 'mock', model: 'stub', generate: vi.fn(generate) });
+
+let app: Awaited<ReturnType<typeof startTestApp>>;
+
+const start = async (overrides: Partial<AppDeps>) => {
+  app = await startTestApp(overrides);
+  return app;
+};
+
+const analyze = (token: string | null, body: object = { image: CHART }) =>
+  fetch(`${app.url}/api/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  });
+
+// Reads the whole NDJSON stream into its events.
+const analyzeStream = async (token: string, body: object = { image: CHART }) => {
+  const response = await fetch(`${app.url}/api/analyze/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { response, events: text.split('\n').filter(Boolean).map(line => JSON.parse(line)) };
+};
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await app?.close();
+});
+
+describe('POST /api/analyze', () => {
+  it('rejects requests without a session', async () => {
+    const provider = stubProvider(async () => FIXTURE);
+    await start({ provider });
+
+    const response = await analyze(null);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Session expired. Please log in again.' });
+    expect(provider.generate).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    await start({ provider: stubProvider(async () => FIXTURE) });
+    const { token } = await userSession({ ...app.deps, sessionSecret: 'other-secret' });
+
+    expect((await analyze(token)).status).toBe(401);
+  });
+
+  it('rejects suspended codes', async () => {
+    await start({ provider: stubProvider(async () => FIXTURE) });
+    const { token } = await userSession(app.deps, { suspended: true });
+
+    const response = await analyze(token);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'This access code has been suspended.' });
+  });
+
+  it('answers 503 when no provider is configured', async () => {
+    await start({ provider: null });
+    const { token } = await userSession(app.deps);
+
+    expect((await analyze(token)).status).toBe(503);
+  });
+
+  it('maps provider errors to 502', async () => {
+    await start({ provider: stubProvider(async () => { throw new Error('Upstream quota exceeded'); }) });
+    const { token } = await userSession(app.deps);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await analyze(token);
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Upstream quota exceeded' });
+  });
+
+  it('maps output that stays invalid after the repair to 502 with the issues', async () => {
+    await start({ provider: stubProvider(async () => '{ "signal": {} }') });
+    const { token } = await userSession(app.deps);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await analyze(token);
+    const body = await response.json();
+    expect(response.status).toBe(502);
+    expect(body.error).toBe('The model returned an incomplete analysis. Please try again.');
+    expect(body.issues).toContainEqual({ path: 'signal.pair', message: 'is missing' });
+  });
+
+  it('returns the analysis and counts it against the code', async () => {
+    const provider = stubProvider(async () => FIXTURE);
+    await start({ provider });
+    const { code, token } = await userSession(app.deps);
+
+    const response = await analyze(token, { charts: [{ timeframe: 'h1', image: CHART }] });
+    const result = await response.json();
+    expect(response.status).toBe(200);
+    expect(result.signal).toMatchObject({ pair: 'EURUSD', action: 'BUY', confidence: 72 });
+    expect(result.model).toEqual({ provider: 'mock', name: 'stub' });
+    expect(result.annotations.chart).toBe('H1');
+    expect(vi.mocked(provider.generate).mock.calls[0][1]).toEqual([{ mimeType: 'image/png', data: 'AAAA', label: 'H1 chart:' }]);
+    expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(1);
+  });
+
+  it('rejects codes that have used their analyses', async () => {
+    const provider = stubProvider(async () => FIXTURE);
+    await start({ provider });
+    const { token } = await userSession(app.deps, { maxAnalyses: 1, analysesUsed: 1 });
+
+    expect((await analyze(token)).status).toBe(403);
+    expect(provider.generate).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of two simultaneous requests use the last analysis', async () => {
+    const provider = stubProvider(async () => FIXTURE);
+    await start({ provider });
+    const { code, token } = await userSession(app.deps, { maxAnalyses: 1 });
+
+    const responses = await Promise.all([analyze(token), analyze(token)]);
+    expect(responses.map(response => response.status).sort()).toEqual([200, 403]);
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+    expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(1);
+  });
+
+  it('gives the analysis back when it fails', async () => {
+    await start({ provider: stubProvider(async () => { throw new Error('Upstream quota exceeded'); }) });
+    const { code, token } = await userSession(app.deps, { maxAnalyses: 1 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await analyze(token)).status).toBe(502);
+    expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(0);
+  });
+});
+
+describe('with the mock provider', () => {
+  it('returns a fixture through POST /api/analyze', async () => {
+    await start({ provider: createMockProvider() });
+    const { token } = await userSession(app.deps);
+
+    const response = await analyze(token);
+    const result = await response.json();
+    expect(response.status).toBe(200);
+    expect(result.model).toEqual({ provider: 'mock', name: 'fixtures' });
+    expect(['EURUSD', 'GBPJPY', 'XAUUSD']).toContain(result.signal.pair);
+  });
+
+  it('gives the same chart the same fixture', async () => {
+    await start({ provider: createMockProvider() });
+    const { token } = await userSession(app.deps);
+
+    const first = await (await analyze(token)).json();
+    const second = await (await analyze(token)).json();
+    expect(first.signal).toEqual(second.signal);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('streams the model text, then the validated result', async () => {
+    await start({ provider: createMockProvider() });
+    const { code, token } = await userSession(app.deps);
+
+    const { response, events } = await analyzeStream(token);
+    expect(response.headers.get('content-type')).toContain('application/x-ndjson');
+
+    const texts = events.filter(event => event.type === 'text');
+    expect(texts.length).toBeGreaterThan(1);
+    const last = events[events.length - 1];
+    expect(last.type).toBe('result');
+    expect(JSON.parse(texts.map(event => event.text).join('')).signal.pair).toBe(last.result.signal.pair);
+    expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(1);
+  });
+
+  it('adds the per-timeframe breakdown for multi-chart analyses', async () => {
+    await start({ provider: createMockProvider() });
+    const { token } = await userSession(app.deps);
+
+    const { events } = await analyzeStream(token, {
+      charts: [{ timeframe: 'H4', image: CHART }, { timeframe: 'M15', image: 'data:image/png;base64,BBBB' }],
+    });
+    const { result } = events[events.length - 1];
+    expect(result.timeframes.map((item: { timeframe: string }) => item.timeframe)).toEqual(['H4', 'M15']);
+    expect(result.annotations.chart).toBe('M15');
+  });
+
+  it('streams the repair after a reset when the first answer is rejected', async () => {
+    const responses = ['{ "signal": { "pair": "EURUSD" } }', FIXTURE];
+    await start({ provider: stubProvider(async () => responses.shift()!) });
+    const { token } = await userSession(app.deps);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { events } = await analyzeStream(token);
+    expect(events.map(event => event.type)).toEqual(['text', 'repair', 'text', 'result']);
+    expect(events[1].issues).toContainEqual({ path: 'signal.action', message: 'must be BUY, SELL or NEUTRAL' });
+    expect(events[2].text).toBe(FIXTURE);
+  });
+
+  it('ends the stream with an error event when the provider fails', async () => {
+    await start({ provider: stubProvider(async () => { throw new Error('Upstream quota exceeded'); }) });
+    const { token } = await userSession(app.deps);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { response, events } = await analyzeStream(token);
+    expect(response.status).toBe(200);
+    expect(events).toEqual([{ type: 'error', error: 'Upstream quota exceeded' }]);
+  });
+
+  it('gives the analysis back when the stream is cancelled', async () => {
+    // Answers only once the request is aborted, as a real provider would.
+    const provider = stubProvider((_prompt, _images, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    await start({ provider });
+    const { code, token } = await userSession(app.deps, { maxAnalyses: 1 });
+
+    const controller = new AbortController();
+    await fetch(`${app.url}/api/analyze/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ image: CHART }),
+      signal: controller.signal,
+    });
+    expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(1);
+    controller.abort();
+
+    await vi.waitFor(async () => expect((await app.deps.codes.find(code.id))?.analysesUsed).toBe(0));
+  });
+});
@@ -0,0 +1,178 @@
+import { Request, Response, Router } from 'express';
+import { AnalysisValidationError } from '../../src/lib/validateAnalysis';
+import { requireSession } from '../middleware/requireSession';
+import { MAX_CHARTS } from '../../src/lib/timeframes';
+import { AccessCode, AnalysisResult, ChartInput, PromptTemplate } from '../../src/types';
+import { analyzeChart } from '../services/analysisService';
+import { logCodeEvent, QUOTA_USED, quotaProblem } from '../services/codeUsage';
+import { resolveTemplate } from '../services/templateStore';
+import { AppDeps, ModelProvider, Session } from '../types';
+
+const INCOMPLETE_ANALYSIS = 'The model returned an incomplete analysis. Please try again.';
+
+interface AnalyzeRequest {
+  charts: ChartInput[];
+  template: PromptTemplate;
+}
+
+// Shared request checks for both endpoints. Sends the error response and
+// returns null when the request can't be analyzed. A request that passes has
+// taken an analysis from the code's quota; see releaseAnalysis.
+const readRequest = async (deps: AppDeps, req: Request, res: Response): Promise<AnalyzeRequest | null> => {
+  if (!deps.provider) {
+    res.status(503).json({ error: 'No model provider is configured. Please check MODEL_PROVIDER and its API key.' });
+    return null;
+  }
+
+  const code: AccessCode | undefined = res.locals.accessCode;
+  const quota = code ? quotaProblem(code) : null;
+  if (quota) {
+    res.status(403).json({ error: quota });
+    return null;
+  }
+
+  // A bare `image` is still accepted as a single chart.
+  const { image, charts: rawCharts, templateId } = req.body ?? {};
+  const charts: ChartInput[] = Array.isArray(rawCharts)
+    ? rawCharts
+    : [{ timeframe: 'AUTO', image }];
+  if (charts.length === 0 || charts.some(chart => typeof chart?.image !== 'string' || !chart.image)) {
+    res.status(400).json({ error: 'Please upload a chart image first.' });
+    return null;
+  }
+  if (charts.length > MAX_CHARTS) {
+    res.status(400).json({ error: `Upload at most ${MAX_CHARTS} charts per analysis.` });
+    return null;
+  }
+
+  let template: PromptTemplate | null;
+  try {
+    template = await resolveTemplate(deps.templates, typeof templateId === 'string' ? templateId : undefined);
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+    return null;
+  }
+  if (!template) {
+    res.status(400).json({ error: 'That prompt template no longer exists. Please pick another.' });
+    return null;
+  }
+
+  // The check above used the count from the start of the request; this one
+  // can't be raced by the code's other requests. Admin sessions have no code.
+  const session: Session = res.locals.session;
+  if (session.codeId) {
+    try {
+      if (!(await deps.codes.reserveAnalysis(session.codeId))) {
+        res.status(403).json({ error: QUOTA_USED });
+        return null;
+      }
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+      return null;
+    }
+  }
+
+  return {
+    charts: charts.map(chart => ({
+      timeframe: typeof chart.timeframe === 'string' ? chart.timeframe.trim().toUpperCase() : 'AUTO',
+      image: chart.image,
+    })),
+    template,
+  };
+};
+
+// Logs a finished analysis against the session's access code, which
+// readRequest has already counted.
+const recordAnalysis = async (deps: AppDeps, res: Response, result: AnalysisResult) => {
+  const session: Session = res.locals.session;
+  if (!session.codeId) return;
+  await logCodeEvent(deps.codes, { codeId: session.codeId, type: 'analysis', device: session.device, detail: result.signal.pair });
+};
+
+// Gives back the analysis readRequest took when it failed or was cancelled.
+const releaseAnalysis = async (deps: AppDeps, res: Response) => {
+  const session: Session = res.locals.session;
+  if (!session.codeId) return;
+  try {
+    await deps.codes.releaseAnalysis(session.codeId);
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+// Fire and forget: retries can take most of a minute, and deliveries are
+// logged either way.
+const notifyChannels = (deps: AppDeps, result: AnalysisResult) => {
+  deps.notifier.notify(result).catch(err => console.error(err));
+};
+
+export const analyzeRouter = (deps: AppDeps) => {
+  const router = Router();
+
+  router.post('/', requireSession(deps), async (req, res) => {
+    const request = await readRequest(deps, req, res);
+    if (!request) return;
+
+    try {
+      const result = await analyzeChart(deps.provider as ModelProvider, request.charts, { template: request.template });
+      await recordAnalysis(deps, res, result);
+      notifyChannels(deps, result);
+      res.json(result);
+    } catch (err: any) {
+      console.error('Analysis error:', err);
+      await releaseAnalysis(deps, res);
+      if (err instanceof AnalysisValidationError) {
+        res.status(502).json({ error: INCOMPLETE_ANALYSIS, issues: err.issues });
+        return;
+      }
+      res.status(502).json({ error: err.message || 'Analysis failed. Please try again.' });
+    }
+  });
+
+  // Same analysis, streamed as newline-delimited JSON events:
+  //   { type: 'text', text }      raw model output as it arrives
+  //   { type: 'repair', issues }  the output so far was rejected; the text
+  //                               that follows is the model's corrected answer
+  //   { type: 'result', result }  the validated AnalysisResult, last on success
+  //   { type: 'error', error }    last on failure
+  // Closing the connection aborts the model request.
+  router.post('/stream', requireSession(deps), async (req, res) => {
+    const request = await readRequest(deps, req, res);
+    if (!request) return;
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    res.status(200).set({
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    const send = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+
+    try {
+      const result = await analyzeChart(deps.provider as ModelProvider, request.charts, {
+        template: request.template,
+        signal: controller.signal,
+        onText: text => send({ type: 'text', text }),
+        onRepair: error => send({ type: 'repair', issues: error.issues }),
+      });
+      await recordAnalysis(deps, res, result);
+      notifyChannels(deps, result);
+      send({ type: 'result', result });
+    } catch (err: any) {
+      await releaseAnalysis(deps, res);
+      if (controller.signal.aborted) return;
+      console.error('Analysis error:', err);
+      send(err instanceof AnalysisValidationError
+        ? { type: 'error', error: INCOMPLETE_ANALYSIS, issues: err.issues }
+        : { type: 'error', error: err.message || 'Analysis failed. Please try again.' });
+    }
+    res.end();
+  });
+
+  return router;
+};
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AccessCode } from '../../src/types';
+import { hashCode } from '../services/accessCode';
+import { INVALID_CODE } from '../services/codeUsage';
+import { verifySession } from '../services/sessionService';
+import { startTestApp, userSession } from '../testApp';
+
+const CODE = 'TEST-ABCD2345';
+
+let app: Awaited<ReturnType<typeof startTestApp>>;
+
+beforeEach(async () => {
+  app = await startTestApp();
+});
+
+afterEach(() => app.close());
+
+const post = async (path: string, body: object, token?: string) => {
+  const response = await fetch(`${app.url}/api/auth${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+};
+
+const storeCode = (changes: Partial<AccessCode> = {}) =>
+  userSession(app.deps, { id: hashCode(CODE, app.deps.codePepper), ...changes });
+
+const login = (device: string, code = CODE) => post('/login', { code, device });
+
+describe('/api/auth/login', () => {
+  it('opens a session for a valid code, however it is typed', async () => {
+    const { code } = await storeCode();
+    const { status, body } = await login('phone', 'test abcd-2345');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ role: 'user', expiresAt: expect.any(Number) });
+    expect(verifySession(body.token, app.deps.sessionSecret)).toMatchObject({ role: 'user', codeId: code.id, device: 'phone' });
+    expect((await app.deps.codes.events(code.id)).map(event => event.type)).toEqual(['login']);
+  });
+
+  it('rejects unknown codes', async () => {
+    await storeCode();
+    expect(await login('phone', 'TEST-ZZZZ9999')).toEqual({ status: 401, body: { error: INVALID_CODE } });
+    expect(await post('/login', {})).toEqual({ status: 401, body: { error: INVALID_CODE } });
+  });
+
+  it('rejects expired and suspended codes, and logs why', async () => {
+    const { code } = await storeCode({ expiry: Date.now() - 1 });
+    expect(await login('phone')).toEqual({ status: 401, body: { error: INVALID_CODE } });
+
+    await app.deps.codes.update(code.id, { expiry: Date.now() + 60_000, suspended: true });
+    expect(await login('phone')).toEqual({ status: 401, body: { error: 'This access code has been suspended.' } });
+    expect((await app.deps.codes.events(code.id)).map(event => event.detail)).toEqual([
+      'This access code has been suspended.',
+      INVALID_CODE,
+    ]);
+  });
+
+  it('limits the devices a code can be used on at once', async () => {
+    await storeCode({ maxDevices: 1 });
+    expect((await login('phone')).status).toBe(200);
+
+    expect(await login('laptop')).toEqual({
+      status: 401,
+      body: { error: 'This access code is already in use on 1 device. Log out elsewhere first.' },
+    });
+    // The device holding the slot may come back.
+    expect((await login('phone')).status).toBe(200);
+  });
+
+  it('frees the slot on logout', async () => {
+    await storeCode({ maxDevices: 1 });
+    const { body } = await login('phone');
+    expect((await post('/logout', {}, body.token)).status).toBe(204);
+    expect((await login('laptop')).status).toBe(200);
+  });
+});
+
+describe('/api/auth/admin', () => {
+  it('opens an admin session with the master code only', async () => {
+    const { status, body } = await post('/admin', { masterCode: 'MASTER' });
+    expect(status).toBe(200);
+    expect(verifySession(body.token, app.deps.sessionSecret)).toMatchObject({ role: 'admin', codeId: null });
+
+    expect(await post('/admin', { masterCode: 'master' })).toEqual({ status: 401, body: { error: 'Invalid Master Code' } });
+  });
+
+  it('is unavailable without a master code', async () => {
+    await app.close();
+    app = await startTestApp({ masterCode: null });
+    expect((await post('/admin', { masterCode: '' })).status).toBe(503);
+  });
+});
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { requireSession } from '../middleware/requireSession';
+import { hashCode, normalizeCode } from '../services/accessCode';
+import { codeProblem, deviceProblem, INVALID_CODE, logCodeEvent, quotaProblem } from '../services/codeUsage';
+import { safeEqual, SESSION_TTL_MS, sessionOwner, signSession } from '../services/sessionService';
+import { AppDeps, Session } from '../types';
+
+export const authRouter = (deps: AppDeps) => {
+  const router = Router();
+
+  const issue = (session: Session) => ({
+    token: signSession(session, deps.sessionSecret),
+    role: session.role,
+    owner: sessionOwner(session),
+    expiresAt: session.expiresAt,
+  });
+
+  router.post('/login', async (req, res) => {
+    const code = typeof req.body?.code === 'string' ? normalizeCode(req.body.code) : '';
+    // Clients without a device id share one slot.
+    const device = typeof req.body?.device === 'string' && req.body.device ? req.body.device.slice(0, 64) : 'unknown';
+    try {
+      const found = code ? await deps.codes.find(hashCode(code, deps.codePepper)) : null;
+      const now = Date.now();
+      if (!found) {
+        res.status(401).json({ error: INVALID_CODE });
+        return;
+      }
+      const problem = codeProblem(found, now)
+        ?? quotaProblem(found)
+        ?? deviceProblem(found, await deps.codes.devices(found.id), device);
+      if (problem) {
+        await logCodeEvent(deps.codes, { codeId: found.id, type: 'login_denied', device, detail: problem });
+        res.status(401).json({ error: problem });
+        return;
+      }
+
+      // A session never outlives the code that opened it.
+      const session: Session = { role: 'user', codeId: found.id, device, expiresAt: Math.min(found.expiry, now + SESSION_TTL_MS) };
+      await deps.codes.holdDevice({ codeId: found.id, device, expiresAt: session.expiresAt });
+      await logCodeEvent(deps.codes, { codeId: found.id, type: 'login', device, detail: null });
+      res.json(issue(session));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.post('/admin', (req, res) => {
+    if (!deps.masterCode) {
+      res.status(503).json({ error: 'Admin access is not configured.' });
+      return;
+    }
+    const masterCode = typeof req.body?.masterCode === 'string' ? req.body.masterCode : '';
+    if (!safeEqual(masterCode, deps.masterCode)) {
+      res.status(401).json({ error: 'Invalid Master Code' });
+      return;
+    }
+    res.json(issue({ role: 'admin', codeId: null, device: null, expiresAt: Date.now() + SESSION_TTL_MS }));
+  });
+
+  // Frees the device slot the session holds so the code can be used elsewhere.
+  router.post('/logout', requireSession(deps), async (_req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      if (session.codeId && session.device) {
+        await deps.codes.releaseDevices(session.codeId, session.device);
+        await logCodeEvent(deps.codes, { codeId: session.codeId, type: 'logout', device: session.device, detail: null });
+      }
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/session', requireSession(deps), (_req, res) => {
+    const session: Session = res.locals.session;
+    res.json({ role: session.role, owner: sessionOwner(session), expiresAt: session.expiresAt });
+  });
+
+  return router;
+};
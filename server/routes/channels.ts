@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { ACTIONS, CHANNEL_TYPES, checkChannel, isChannelType, maskSecret, NO_FILTERS } from '../../src/lib/channels';
+import { ChannelFilters, NotificationChannel } from '../../src/types';
+import { requireSession } from '../middleware/requireSession';
+import { AppDeps } from '../types';
+
+type ChannelFields = Pick<NotificationChannel, 'name' | 'type' | 'enabled' | 'config' | 'filters'>;
+
+// Secrets are write-only: the client sees a hint, and sends a blank field to
+// keep the stored value.
+const toClient = (channel: NotificationChannel): NotificationChannel => ({
+  ...channel,
+  config: Object.fromEntries(CHANNEL_TYPES[channel.type].fields.map(field => {
+    const value = channel.config[field.key] ?? '';
+    return [field.key, field.secret ? maskSecret(value) : value];
+  })),
+});
+
+const readFilters = (body: any): ChannelFilters => ({
+  actions: Array.isArray(body?.actions) ? ACTIONS.filter(action => body.actions.includes(action)) : [],
+  minConfidence: body?.minConfidence === undefined || body?.minConfidence === null || body?.minConfidence === ''
+    ? null
+    : Number(body.minConfidence),
+  pairs: Array.isArray(body?.pairs)
+    ? [...new Set(body.pairs.map((pair: unknown) => String(pair).trim().toUpperCase()).filter(Boolean))] as string[]
+    : [],
+});
+
+// Normalizes a request body into channel fields, filling blanks from
+// `current` when editing; problems surface through checkChannel.
+const readFields = (body: any, current?: NotificationChannel): ChannelFields => {
+  const type = current?.type ?? body?.type;
+  const rawConfig = typeof body?.config === 'object' && body.config !== null ? body.config : {};
+  return {
+    name: typeof body?.name === 'string' ? body.name.trim().slice(0, 80) : current?.name ?? '',
+    type,
+    enabled: typeof body?.enabled === 'boolean' ? body.enabled : current?.enabled ?? true,
+    config: Object.fromEntries(CHANNEL_TYPES[type as NotificationChannel['type']].fields.map(field => {
+      const value = typeof rawConfig[field.key] === 'string' ? rawConfig[field.key].trim() : '';
+      return [field.key, value || (field.secret ? current?.config[field.key] ?? '' : '')];
+    })),
+    filters: body?.filters !== undefined ? readFilters(body.filters) : current?.filters ?? NO_FILTERS,
+  };
+};
+
+export const channelsRouter = (deps: AppDeps) => {
+  const router = Router();
+  router.use(requireSession(deps, ['admin']));
+
+  router.get('/', async (_req, res) => {
+    try {
+      res.json((await deps.channels.list()).map(toClient));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/deliveries', async (req, res) => {
+    try {
+      const channelId = typeof req.query.channelId === 'string' ? req.query.channelId : undefined;
+      res.json(await deps.channels.deliveries(channelId));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    if (!isChannelType(req.body?.type)) {
+      res.status(400).json({ error: `Type must be one of ${Object.keys(CHANNEL_TYPES).join(', ')}.` });
+      return;
+    }
+    const fields = readFields(req.body);
+    const problems = checkChannel(fields);
+    if (problems.length > 0) {
+      res.status(400).json({ error: problems[0], problems });
+      return;
+    }
+
+    const channel: NotificationChannel = { ...fields, id: crypto.randomUUID(), createdAt: Date.now() };
+    try {
+      await deps.channels.insert(channel);
+      res.status(201).json(toClient(channel));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Partial updates; the type of a channel can't change.
+  router.put('/:id', async (req, res) => {
+    try {
+      const current = await deps.channels.find(req.params.id);
+      if (!current) {
+        res.status(404).json({ error: 'Channel not found.' });
+        return;
+      }
+      const fields = readFields(req.body, current);
+      const problems = checkChannel(fields);
+      if (problems.length > 0) {
+        res.status(400).json({ error: problems[0], problems });
+        return;
+      }
+      const changes = { name: fields.name, enabled: fields.enabled, config: fields.config, filters: fields.filters };
+      await deps.channels.update(current.id, changes);
+      res.json(toClient({ ...current, ...changes }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      await deps.channels.remove(req.params.id);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Sends a sample signal and answers with its delivery, so the panel can
+  // show whether the settings work.
+  router.post('/:id/test', async (req, res) => {
+    try {
+      const channel = await deps.channels.find(req.params.id);
+      if (!channel) {
+        res.status(404).json({ error: 'Channel not found.' });
+        return;
+      }
+      res.json(await deps.notifier.test(channel));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { computeLevels } from '../../src/lib/priceLevels';
+import { AnalysisResult, SharedAnalysis, TradingSignal } from '../../src/types';
+import { startTestApp, userSession } from '../testApp';
+
+const signal: TradingSignal = {
+  pair: 'XAUUSD',
+  timeframe: 'M15',
+  action: 'SELL',
+  entry: '2350',
+  tp: '2330',
+  sl: '2360',
+  confidence: 68,
+  reasoning: 'Rejection at the daily high.',
+};
+
+const analysis: AnalysisResult = {
+  id: 'a1',
+  signal: { ...signal, levels: computeLevels(signal) },
+  technical: { snr: 'Resistance at 2355.', ict: 'Bearish breaker.', std: 'Overbought.', alchemist: 'Distribution.' },
+  fundamental: 'Strong dollar.',
+  annotations: {
+    chart: 'M15',
+    levels: [{ kind: 'entry', price: 2350, y: 0.4 }, { kind: 'sl', price: 2360, y: 0.3, adjusted: true }],
+    zones: [],
+    calibration: { points: [{ y: 0.2, price: 2370 }, { y: 0.8, price: 2310 }], source: 'model' },
+  },
+  annotatedImage: 'data:image/jpeg;base64,AAAA',
+  timestamp: '2026-10-18T09:30:00.000Z',
+};
+
+let app: Awaited<ReturnType<typeof startTestApp>>;
+let token: string;
+
+beforeEach(async () => {
+  app = await startTestApp();
+  ({ token } = await userSession(app.deps));
+});
+
+afterEach(() => app.close());
+
+describe('/api/shares', () => {
+  it('snapshots the analysis with its calibration and chart', async () => {
+    const created = await fetch(`${app.url}/api/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ analysis: { ...analysis, owner: 'someone', annotatedImagePath: 'a1/annotated-1.jpg' } }),
+    });
+    expect(created.status).toBe(201);
+
+    const shared: SharedAnalysis = await (await fetch(`${app.url}/api/shares/${(await created.json()).id}`)).json();
+    expect(shared.analysis).toEqual(analysis);
+  });
+});
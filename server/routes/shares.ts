@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { parseStoredAnalysis } from '../../src/lib/storedAnalysis';
+import { AnalysisValidationError } from '../../src/lib/validateAnalysis';
+import { SharedAnalysis, ShareLink } from '../../src/types';
+import { requireSession } from '../middleware/requireSession';
+import { sessionOwner } from '../services/sessionService';
+import { AppDeps, Session } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SHARE_DAYS = 365;
+
+export const sharesRouter = (deps: AppDeps) => {
+  const router = Router();
+  const signedIn = requireSession(deps);
+
+  // Public: anyone with the token sees the snapshot, and each load counts as a view.
+  router.get('/:id', async (req, res) => {
+    try {
+      const share = await deps.shares.find(req.params.id);
+      if (!share) {
+        res.status(404).json({ error: 'This link does not exist or has been revoked.' });
+        return;
+      }
+      if (share.expiresAt !== null && Date.now() >= share.expiresAt) {
+        res.status(410).json({ error: 'This link has expired.' });
+        return;
+      }
+      await deps.shares.recordView(share.id);
+      const shared: SharedAnalysis = { analysis: share.analysis, createdAt: share.createdAt, expiresAt: share.expiresAt };
+      res.json(shared);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/', signedIn, async (_req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      res.json(await deps.shares.list(sessionOwner(session)));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // The client sends the analysis itself, since history may only exist in
+  // its browser. It is re-validated and stored as a snapshot, so later edits
+  // to the entry don't change what the link shows.
+  router.post('/', signedIn, async (req, res) => {
+    let analysis;
+    try {
+      analysis = parseStoredAnalysis(req.body?.analysis);
+    } catch (err: any) {
+      const problems = err instanceof AnalysisValidationError
+        ? err.issues.map(issue => `${issue.path} ${issue.message}`).join('; ')
+        : err.message;
+      res.status(400).json({ error: `Cannot share this analysis: ${problems}` });
+      return;
+    }
+
+    const days = req.body?.expiresInDays;
+    if (days !== undefined && days !== null && !(typeof days === 'number' && days > 0 && days <= MAX_SHARE_DAYS)) {
+      res.status(400).json({ error: `Links can expire after at most ${MAX_SHARE_DAYS} days.` });
+      return;
+    }
+
+    const session: Session = res.locals.session;
+    const now = Date.now();
+    const link: ShareLink = {
+      // 144 bits, so links can't be guessed or enumerated.
+      id: crypto.randomBytes(18).toString('base64url'),
+      analysisId: analysis.id,
+      pair: analysis.signal.pair,
+      action: analysis.signal.action,
+      createdAt: now,
+      expiresAt: typeof days === 'number' ? now + days * DAY_MS : null,
+      views: 0,
+    };
+    try {
+      await deps.shares.insert({ ...link, owner: sessionOwner(session), analysis });
+      res.status(201).json(link);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Owners revoke their own links; admins can revoke any.
+  router.delete('/:id', signedIn, async (req, res) => {
+    const session: Session = res.locals.session;
+    try {
+      const share = await deps.shares.find(req.params.id);
+      if (!share || (session.role !== 'admin' && share.owner !== sessionOwner(session))) {
+        res.status(404).json({ error: 'Share link not found.' });
+        return;
+      }
+      await deps.shares.remove(share.id);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BUILT_IN_TEMPLATE } from '../../src/lib/promptTemplate';
+import { PromptTemplate } from '../../src/types';
+import { adminSession, startTestApp } from '../testApp';
+
+let app: Awaited<ReturnType<typeof startTestApp>>;
+let token: string;
+
+const call = async (method: string, path: string, body?: object) => {
+  const response = await fetch(`${app.url}/api/templates${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+};
+
+const fields = (name: string) => ({
+  name,
+  body: BUILT_IN_TEMPLATE.body,
+  methods: BUILT_IN_TEMPLATE.methods,
+  variables: BUILT_IN_TEMPLATE.variables,
+});
+
+beforeEach(async () => {
+  app = await startTestApp();
+  token = adminSession(app.deps);
+});
+
+afterEach(() => app.close());
+
+describe('/api/templates', () => {
+  it('numbers concurrent saves one after another', async () => {
+    const created = (await call('POST', '/', fields('Scalping'))).body as PromptTemplate;
+    const saves = await Promise.all([1, 2, 3, 4].map(n => call('PUT', `/${created.id}`, fields(`Scalping ${n}`))));
+
+    expect(saves.map(save => save.status)).toEqual([201, 201, 201, 201]);
+    expect(saves.map(save => save.body.version).sort()).toEqual([2, 3, 4, 5]);
+  });
+
+  it('stores the built-in template as version 1 before its first edit', async () => {
+    const saved = (await call('PUT', `/${BUILT_IN_TEMPLATE.id}`, fields('House Default'))).body;
+    expect(saved.version).toBe(2);
+
+    const versions = (await call('GET', `/${BUILT_IN_TEMPLATE.id}/versions`)).body as PromptTemplate[];
+    expect(versions.map(version => [version.version, version.name])).toEqual([[2, 'House Default'], [1, 'Vertex Default']]);
+  });
+
+  it('leaves exactly one default after concurrent changes', async () => {
+    const a = (await call('POST', '/', fields('A'))).body as PromptTemplate;
+    const b = (await call('POST', '/', fields('B'))).body as PromptTemplate;
+    await Promise.all([
+      call('POST', `/${a.id}/default`),
+      call('POST', `/${b.id}/default`),
+      call('POST', `/${BUILT_IN_TEMPLATE.id}/default`),
+    ]);
+
+    const templates = (await call('GET', '/')).body as PromptTemplate[];
+    expect(templates.filter(template => template.isDefault)).toHaveLength(1);
+  });
+
+  it('keeps the default flag on new versions', async () => {
+    const a = (await call('POST', '/', fields('A'))).body as PromptTemplate;
+    await call('POST', `/${a.id}/default`);
+    const saved = (await call('PUT', `/${a.id}`, fields('A v2'))).body as PromptTemplate;
+
+    expect(saved.isDefault).toBe(true);
+  });
+
+  it('archives instead of deleting', async () => {
+    const a = (await call('POST', '/', fields('A'))).body as PromptTemplate;
+    await call('PUT', `/${a.id}`, fields('A v2'));
+    await call('POST', `/${a.id}/default`);
+
+    expect((await call('DELETE', `/${a.id}`)).status).toBe(204);
+
+    const templates = (await call('GET', '/')).body as PromptTemplate[];
+    expect(templates.map(template => template.id)).toEqual([BUILT_IN_TEMPLATE.id]);
+    expect(templates[0].isDefault).toBe(true);
+    // History can still show the prompt behind older analyses.
+    const versions = (await call('GET', `/${a.id}/versions`)).body as PromptTemplate[];
+    expect(versions.map(version => version.version)).toEqual([2, 1]);
+    expect((await call('PUT', `/${a.id}`, fields('A v3'))).status).toBe(404);
+    expect((await call('POST', `/${a.id}/default`)).status).toBe(404);
+  });
+
+  it('archives the built-in template before its first edit', async () => {
+    const a = (await call('POST', '/', fields('A'))).body as PromptTemplate;
+
+    expect((await call('DELETE', `/${BUILT_IN_TEMPLATE.id}`)).status).toBe(204);
+
+    const templates = (await call('GET', '/')).body as PromptTemplate[];
+    expect(templates.map(template => template.id)).toEqual([a.id]);
+    expect((await call('DELETE', `/${BUILT_IN_TEMPLATE.id}`)).status).toBe(404);
+  });
+
+  it('does not archive unknown templates', async () => {
+    expect((await call('DELETE', '/missing')).status).toBe(404);
+  });
+});
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { checkTemplate } from '../../src/lib/promptTemplate';
+import { PromptMethod, PromptTemplate } from '../../src/types';
+import { requireSession } from '../middleware/requireSession';
+import { listTemplates } from '../services/templateStore';
+import { AppDeps } from '../types';
+
+type TemplateFields = Pick<PromptTemplate, 'name' | 'body' | 'methods' | 'variables'>;
+
+// Normalizes a request body into template fields; shape problems surface
+// through checkTemplate as readable messages.
+const readFields = (body: any): TemplateFields => ({
+  name: typeof body?.name === 'string' ? body.name.trim() : '',
+  body: typeof body?.body === 'string' ? body.body : '',
+  methods: Array.isArray(body?.methods)
+    ? body.methods.map((method: any): PromptMethod => ({
+      key: String(method?.key ?? '').trim(),
+      title: String(method?.title ?? '').trim(),
+      instruction: String(method?.instruction ?? '').trim(),
+    }))
+    : [],
+  variables: typeof body?.variables === 'object' && body.variables !== null
+    ? Object.fromEntries(Object.entries(body.variables).map(([key, value]) => [key.trim(), String(value ?? '')]))
+    : {},
+});
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'template';
+
+export const templatesRouter = (deps: AppDeps) => {
+  const router = Router();
+  const adminOnly = requireSession(deps, ['admin']);
+
+  // Users pick from these on the dashboard.
+  router.get('/', requireSession(deps), async (_req, res) => {
+    try {
+      res.json(await listTemplates(deps.templates));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/:id/versions', adminOnly, async (req, res) => {
+    try {
+      const versions = (await deps.templates.all()).filter(t => t.id === req.params.id);
+      res.json(versions);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.post('/', adminOnly, async (req, res) => {
+    const fields = readFields(req.body);
+    const problems = checkTemplate(fields);
+    if (problems.length > 0) {
+      res.status(400).json({ error: problems[0], problems });
+      return;
+    }
+
+    try {
+      const template = await deps.templates.addVersion({
+        ...fields,
+        id: `${slugify(fields.name)}-${crypto.randomBytes(3).toString('hex')}`,
+        createdAt: Date.now(),
+      });
+      res.status(201).json(template);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Saving an existing template adds a version; older versions are kept so
+  // history entries can still be traced to the exact prompt.
+  router.put('/:id', adminOnly, async (req, res) => {
+    const fields = readFields(req.body);
+    const problems = checkTemplate(fields);
+    if (problems.length > 0) {
+      res.status(400).json({ error: problems[0], problems });
+      return;
+    }
+
+    try {
+      const current = (await listTemplates(deps.templates)).find(t => t.id === req.params.id);
+      if (!current) {
+        res.status(404).json({ error: 'Template not found.' });
+        return;
+      }
+      // The built-in template only exists in code until it is first saved.
+      await deps.templates.seed({ ...current, createdAt: Date.now() });
+      const template = await deps.templates.addVersion({ ...fields, id: current.id, createdAt: Date.now() });
+      if (!template) {
+        res.status(404).json({ error: 'Template not found.' });
+        return;
+      }
+      res.status(201).json(template);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.post('/:id/default', adminOnly, async (req, res) => {
+    try {
+      const current = (await listTemplates(deps.templates)).find(t => t.id === req.params.id);
+      if (!current) {
+        res.status(404).json({ error: 'Template not found.' });
+        return;
+      }
+      await deps.templates.seed({ ...current, createdAt: Date.now() });
+      await deps.templates.setDefault(current.id);
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Archives rather than deletes, so history entries can still be traced to
+  // the exact prompt that produced them.
+  router.delete('/:id', adminOnly, async (req, res) => {
+    try {
+      const current = (await listTemplates(deps.templates)).find(t => t.id === req.params.id);
+      // The built-in template is only stored once saved; store it so there
+      // is something to archive.
+      if (current) await deps.templates.seed({ ...current, createdAt: Date.now() });
+      if (!current || !(await deps.templates.archive(current.id))) {
+        res.status(404).json({ error: 'Template not found.' });
+        return;
+      }
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { CodeStore } from './codeStore';
+
+// No I, O, 0 or 1, which are easily confused when a code is read out or typed.
+export const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// Each X is a random character; anything else is copied as is.
+export const DEFAULT_CODE_FORMAT = 'VX-XXXX-XXXX';
+// 8 random characters from the alphabet is 40 bits.
+const MIN_RANDOM_CHARS = 8;
+
+export class CodeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeFormatError';
+  }
+}
+
+export const checkCodeFormat = (format: string) => {
+  if (!/^[A-Z0-9X-]+$/.test(format) || format.length > 40) {
+    throw new CodeFormatError('Code formats may only use capital letters, digits and dashes, with X for each random character.');
+  }
+  if ((format.match(/X/g) ?? []).length < MIN_RANDOM_CHARS) {
+    throw new CodeFormatError(`Code formats need at least ${MIN_RANDOM_CHARS} random characters (X).`);
+  }
+};
+
+export const generateCode = (format = DEFAULT_CODE_FORMAT) =>
+  format.replace(/X/g, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+
+// Codes match however they are typed: case, spaces and dashes don't matter.
+export const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Codes were keyed by their plain SHA-256 before the pepper. Existing ids are
+// rekeyed by peppering that, which needs no code (see pepperCodeIds in db.ts
+// and the peppered_code_ids migration).
+export const pepperCodeId = (legacyId: string, pepper: string) =>
+  crypto.createHmac('sha256', pepper).update(legacyId).digest('hex');
+
+// Codes are stored and referred to by this hash only. It also identifies the
+// code in session tokens, history ownership and the usage log. The pepper
+// (ACCESS_CODE_PEPPER) never leaves the server, so a copy of the tables alone
+// can't be searched for the codes.
+export const hashCode = (code: string, pepper: string) =>
+  pepperCodeId(crypto.createHash('sha256').update(normalizeCode(code)).digest('hex'), pepper);
+
+// What the admin panel shows once the code itself is gone, e.g. ••-••••-7F2K.
+export const maskCode = (code: string) => {
+  let visible = 4;
+  return [...code].reverse().map(char => {
+    if (!/[A-Z0-9]/.test(char)) return char;
+    return visible-- > 0 ? char : '•';
+  }).reverse().join('');
+};
+
+// `count` new codes that don't collide with each other or any stored code.
+export const generateUniqueCodes = async (store: CodeStore, pepper: string, count: number, format = DEFAULT_CODE_FORMAT) => {
+  const codes = new Map<string, string>();
+  // Collisions are vanishingly rare with a valid format; this only guards
+  // against looping forever on a nearly exhausted one.
+  for (let attempts = 0; codes.size < count; attempts++) {
+    if (attempts >= count * 10) throw new CodeFormatError('Could not generate enough unique codes. Use a longer format.');
+    const code = generateCode(format);
+    const id = hashCode(code, pepper);
+    if (!codes.has(id) && !(await store.find(id))) codes.set(id, code);
+  }
+  return [...codes.values()];
+};
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AlertEvent } from '../../src/types';
+import { createAlertEngine, AlertEngine } from './alertEngine';
+import { AlertStore, createSqliteAlertStore, StoredAlert } from './alertStore';
+import { openDatabase } from './db';
+
+const alert: StoredAlert = {
+  id: 'alert-1',
+  owner: 'code-1',
+  analysisId: 'a1',
+  pair: 'EUR/USD',
+  action: 'BUY',
+  entry: 1.1,
+  tp: 1.11,
+  sl: 1.095,
+  status: 'pending',
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+let store: AlertStore;
+let engine: AlertEngine;
+let events: AlertEvent[];
+
+beforeEach(async () => {
+  store = createSqliteAlertStore(openDatabase(':memory:', 'test-pepper'));
+  await store.insert(alert);
+  engine = createAlertEngine({ store, source: null });
+  await engine.start();
+  events = [];
+  engine.subscribe(alert.owner, event => events.push(event));
+});
+
+const tick = (price: number, time: number) => engine.handleTick({ symbol: 'EURUSD', price, time });
+
+describe('alert engine', () => {
+  it('records, stores and emits each level as price crosses it', async () => {
+    await tick(1.102, 1);
+    expect(events).toEqual([]);
+
+    await tick(1.099, 2);
+    expect((await store.find(alert.id))?.status).toBe('triggered');
+
+    await tick(1.111, 3);
+    expect(await store.find(alert.id)).toMatchObject({ status: 'tp_hit', updatedAt: 3 });
+    expect(events.map(({ level, status, levelPrice, price, at }) => ({ level, status, levelPrice, price, at }))).toEqual([
+      { level: 'entry', status: 'triggered', levelPrice: 1.1, price: 1.099, at: 2 },
+      { level: 'tp', status: 'tp_hit', levelPrice: 1.11, price: 1.111, at: 3 },
+    ]);
+    expect(await store.events(alert.owner)).toEqual(events);
+  });
+
+  it('stops following an alert once it reaches a final status', async () => {
+    await tick(1.105, 1);
+    await tick(1.112, 2);
+    expect((await store.find(alert.id))?.status).toBe('cancelled');
+
+    await tick(1.099, 3);
+    await tick(1.094, 4);
+    expect(events.map(event => event.status)).toEqual(['cancelled']);
+    expect(await store.find(alert.id)).toMatchObject({ status: 'cancelled', updatedAt: 2 });
+  });
+
+  it('ignores other symbols and alerts that were unwatched', async () => {
+    await engine.handleTick({ symbol: 'GBPUSD', price: 1.1, time: 1 });
+    engine.unwatch(alert.id);
+    await tick(1.1, 2);
+    expect(events).toEqual([]);
+    expect(engine.status().lastTickAt).toBe(2);
+  });
+});
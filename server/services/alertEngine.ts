@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { normalizeSymbol } from '../../src/lib/instruments';
+import { ACTIVE_ALERT_STATUSES, advanceAlert } from '../../src/lib/priceAlerts';
+import { AlertEvent, PriceFeedStatus } from '../../src/types';
+import { PriceSource, PriceTick } from '../types';
+import { AlertStore, StoredAlert } from './alertStore';
+
+export interface AlertEngine {
+  status(): PriceFeedStatus;
+  // Loads the active alerts and starts the price source, if there is one.
+  start(): Promise<void>;
+  stop(): void;
+  // Starts or stops following an alert; the routes call these as alerts are
+  // armed and removed.
+  watch(alert: StoredAlert): void;
+  unwatch(id: string): void;
+  // Delivers the owner's events as they are recorded, until the returned
+  // function is called.
+  subscribe(owner: string, listener: (event: AlertEvent) => void): () => void;
+  // What the source calls for every price. Ticks are handled one at a time,
+  // in order; the promise settles once this one has been.
+  handleTick(tick: PriceTick): Promise<void>;
+}
+
+export const createAlertEngine = ({ store, source }: { store: AlertStore; source: PriceSource | null }): AlertEngine => {
+  const watched = new Map<string, StoredAlert>();
+  const lastPrices = new Map<string, number>();
+  const listeners = new Map<string, Set<(event: AlertEvent) => void>>();
+  let lastTickAt: number | null = null;
+  let queue = Promise.resolve();
+  let stopSource: (() => void) | null = null;
+
+  const emit = (owner: string, event: AlertEvent) => {
+    listeners.get(owner)?.forEach(listener => listener(event));
+  };
+
+  const process = async (tick: PriceTick) => {
+    const previous = lastPrices.get(tick.symbol) ?? null;
+    lastPrices.set(tick.symbol, tick.price);
+    lastTickAt = tick.time;
+
+    for (const alert of watched.values()) {
+      if (normalizeSymbol(alert.pair) !== tick.symbol) continue;
+      const steps = advanceAlert(alert, previous, tick.price);
+      if (steps.length === 0) continue;
+
+      for (const step of steps) {
+        const event: AlertEvent = {
+          id: crypto.randomUUID(),
+          alertId: alert.id,
+          analysisId: alert.analysisId,
+          pair: alert.pair,
+          level: step.level,
+          status: step.status,
+          levelPrice: alert[step.level],
+          price: tick.price,
+          at: tick.time,
+          seen: false,
+        };
+        await store.addEvent({ ...event, owner: alert.owner });
+        emit(alert.owner, event);
+      }
+      alert.status = steps[steps.length - 1].status;
+      alert.updatedAt = tick.time;
+      await store.setStatus(alert.id, alert.status, alert.updatedAt);
+      if (!ACTIVE_ALERT_STATUSES.includes(alert.status)) watched.delete(alert.id);
+    }
+  };
+
+  const handleTick = (tick: PriceTick) => {
+    // A failed write is logged and the feed carries on with the next tick.
+    queue = queue.then(() => process(tick)).catch(err => console.error(err));
+    return queue;
+  };
+
+  return {
+    status: () => ({ source: source?.name ?? null, lastTickAt }),
+
+    async start() {
+      for (const alert of await store.active()) watched.set(alert.id, alert);
+      if (source) stopSource = source.start(tick => void handleTick(tick));
+    },
+
+    stop() {
+      stopSource?.();
+      stopSource = null;
+    },
+
+    watch(alert) {
+      watched.set(alert.id, { ...alert });
+    },
+
+    unwatch(id) {
+      watched.delete(id);
+    },
+
+    subscribe(owner, listener) {
+      const set = listeners.get(owner) ?? new Set();
+      set.add(listener);
+      listeners.set(owner, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(owner);
+      };
+    },
+
+    handleTick,
+  };
+};
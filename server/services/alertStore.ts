@@ -0,0 +1,216 @@
+import Database from 'better-sqlite3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ACTIVE_ALERT_STATUSES } from '../../src/lib/priceAlerts';
+import { AlertEvent, AlertStatus, PriceAlert } from '../../src/types';
+
+// Alerts and their events belong to whoever armed them; see sessionOwner.
+export interface StoredAlert extends PriceAlert {
+  owner: string;
+}
+
+export interface StoredAlertEvent extends AlertEvent {
+  owner: string;
+}
+
+export interface AlertStore {
+  // An owner's alerts, newest first.
+  list(owner: string): Promise<PriceAlert[]>;
+  // Every owner's alerts that the feed can still change.
+  active(): Promise<StoredAlert[]>;
+  find(id: string): Promise<StoredAlert | null>;
+  insert(alert: StoredAlert): Promise<void>;
+  setStatus(id: string, status: AlertStatus, updatedAt: number): Promise<void>;
+  remove(id: string): Promise<void>;
+  // An owner's events, oldest first, so they can be applied in order.
+  events(owner: string, { unseen }?: { unseen?: boolean }): Promise<AlertEvent[]>;
+  addEvent(event: StoredAlertEvent): Promise<void>;
+  markSeen(owner: string, ids: string[]): Promise<void>;
+}
+
+const fromRow = (row: any): StoredAlert => ({
+  id: row.id,
+  owner: row.owner,
+  analysisId: row.analysis_id,
+  pair: row.pair,
+  action: row.action,
+  entry: Number(row.entry),
+  tp: Number(row.tp),
+  sl: Number(row.sl),
+  status: row.status,
+  createdAt: Number(row.created_at),
+  updatedAt: Number(row.updated_at),
+});
+
+export const toClient = ({ owner, ...alert }: StoredAlert): PriceAlert => alert;
+
+const eventFromRow = (row: any): AlertEvent => ({
+  id: row.id,
+  alertId: row.alert_id,
+  analysisId: row.analysis_id,
+  pair: row.pair,
+  level: row.level,
+  status: row.status,
+  levelPrice: Number(row.level_price),
+  price: Number(row.price),
+  at: Number(row.at),
+  seen: Boolean(row.seen),
+});
+
+export const createSupabaseAlertStore = (supabase: SupabaseClient): AlertStore => ({
+  async list(owner) {
+    const { data, error } = await supabase
+      .from('price_alerts')
+      .select('*')
+      .eq('owner', owner)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error('Failed to load price alerts from database.');
+    return data.map(row => toClient(fromRow(row)));
+  },
+
+  async active() {
+    const { data, error } = await supabase.from('price_alerts').select('*').in('status', ACTIVE_ALERT_STATUSES);
+    if (error) throw new Error('Failed to load price alerts from database.');
+    return data.map(fromRow);
+  },
+
+  async find(id) {
+    const { data, error } = await supabase.from('price_alerts').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load price alert from database.');
+    return data ? fromRow(data) : null;
+  },
+
+  async insert(alert) {
+    const { error } = await supabase.from('price_alerts').insert([{
+      id: alert.id,
+      owner: alert.owner,
+      analysis_id: alert.analysisId,
+      pair: alert.pair,
+      action: alert.action,
+      entry: alert.entry,
+      tp: alert.tp,
+      sl: alert.sl,
+      status: alert.status,
+      created_at: alert.createdAt,
+      updated_at: alert.updatedAt,
+    }]);
+    if (error) throw new Error('Failed to save price alert to database.');
+  },
+
+  async setStatus(id, status, updatedAt) {
+    const { error } = await supabase.from('price_alerts').update({ status, updated_at: updatedAt }).eq('id', id);
+    if (error) throw new Error('Failed to update price alert in database.');
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from('price_alerts').delete().eq('id', id);
+    if (error) throw new Error('Failed to delete price alert from database.');
+  },
+
+  async events(owner, { unseen = false } = {}) {
+    let query = supabase.from('alert_events').select('*').eq('owner', owner).order('at', { ascending: true });
+    if (unseen) query = query.eq('seen', false);
+    const { data, error } = await query;
+    if (error) throw new Error('Failed to load alert events from database.');
+    return data.map(eventFromRow);
+  },
+
+  async addEvent(event) {
+    const { error } = await supabase.from('alert_events').insert([{
+      id: event.id,
+      owner: event.owner,
+      alert_id: event.alertId,
+      analysis_id: event.analysisId,
+      pair: event.pair,
+      level: event.level,
+      status: event.status,
+      level_price: event.levelPrice,
+      price: event.price,
+      at: event.at,
+      seen: event.seen,
+    }]);
+    if (error) throw new Error('Failed to save alert event to database.');
+  },
+
+  async markSeen(owner, ids) {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('alert_events').update({ seen: true }).eq('owner', owner).in('id', ids);
+    if (error) throw new Error('Failed to update alert events in database.');
+  },
+});
+
+export const createSqliteAlertStore = (db: Database.Database): AlertStore => ({
+  async list(owner) {
+    return db.prepare('SELECT * FROM price_alerts WHERE owner = ? ORDER BY created_at DESC')
+      .all(owner)
+      .map(row => toClient(fromRow(row)));
+  },
+
+  async active() {
+    return db.prepare(`SELECT * FROM price_alerts WHERE status IN (${ACTIVE_ALERT_STATUSES.map(() => '?').join(', ')})`)
+      .all(...ACTIVE_ALERT_STATUSES)
+      .map(fromRow);
+  },
+
+  async find(id) {
+    const row = db.prepare('SELECT * FROM price_alerts WHERE id = ?').get(id);
+    return row ? fromRow(row) : null;
+  },
+
+  async insert(alert) {
+    db.prepare(`INSERT INTO price_alerts
+      (id, owner, analysis_id, pair, action, entry, tp, sl, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        alert.id,
+        alert.owner,
+        alert.analysisId,
+        alert.pair,
+        alert.action,
+        alert.entry,
+        alert.tp,
+        alert.sl,
+        alert.status,
+        alert.createdAt,
+        alert.updatedAt
+      );
+  },
+
+  async setStatus(id, status, updatedAt) {
+    db.prepare('UPDATE price_alerts SET status = ?, updated_at = ? WHERE id = ?').run(status, updatedAt, id);
+  },
+
+  async remove(id) {
+    db.prepare('DELETE FROM price_alerts WHERE id = ?').run(id);
+  },
+
+  async events(owner, { unseen = false } = {}) {
+    const rows = unseen
+      ? db.prepare('SELECT * FROM alert_events WHERE owner = ? AND seen = 0 ORDER BY at ASC').all(owner)
+      : db.prepare('SELECT * FROM alert_events WHERE owner = ? ORDER BY at ASC').all(owner);
+    return rows.map(eventFromRow);
+  },
+
+  async addEvent(event) {
+    db.prepare(`INSERT INTO alert_events
+      (id, owner, alert_id, analysis_id, pair, level, status, level_price, price, at, seen)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        event.id,
+        event.owner,
+        event.alertId,
+        event.analysisId,
+        event.pair,
+        event.level,
+        event.status,
+        event.levelPrice,
+        event.price,
+        event.at,
+        event.seen ? 1 : 0
+      );
+  },
+
+  async markSeen(owner, ids) {
+    const mark = db.prepare('UPDATE alert_events SET seen = 1 WHERE owner = ? AND id = ?');
+    db.transaction(() => ids.forEach(id => mark.run(owner, id)))();
+  },
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisValidationError } from '../../src/lib/validateAnalysis';
+import { ChartImage, ModelProvider } from '../types';
+import { analyzeChart } from './analysisService';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const recorded = (name: string) => fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+
+const CHARTS = [{ timeframe: 'AUTO', image: 'data:image/png;base64,AAAA' }];
+
+// Answers each call with the next response in turn.
+const stubProvider = (...responses: string[]) => {
+  const generate = vi.fn(async (_prompt: string, _images: ChartImage[]) => {
+    const next = responses.shift();
+    if (next === undefined) throw new Error('No more responses');
+    return next;
+  });
+  const provider: ModelProvider = { id: 'mock', model: 'stub', generate };
+  return { provider, generate };
+};
+
+describe('analyzeChart', () => {
+  it('returns a coerced result without retrying', async () => {
+    const { provider, generate } = stubProvider(recorded('fenced-strings.txt'));
+    const result = await analyzeChart(provider, CHARTS);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result.signal).toMatchObject({ action: 'SELL', confidence: 85 });
+    expect(result.signal.levels?.entry).toBe(1.271);
+    expect(result.model).toEqual({ provider: 'mock', name: 'stub' });
+  });
+
+  it('retries once with the problems fed back, then succeeds', async () => {
+    const { provider, generate } = stubProvider(recorded('missing-fields.txt'), recorded('fenced-strings.txt'));
+    const result = await analyzeChart(provider, CHARTS);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    const repair = generate.mock.calls[1][0];
+    expect(repair).toContain('Your previous response was rejected');
+    expect(repair).toContain('- signal.action must be BUY, SELL or NEUTRAL');
+    expect(repair).toContain('- fundamental is missing');
+    expect(result.signal.pair).toBe('GBPUSD');
+  });
+
+  it('repairs output that is not JSON at all', async () => {
+    const { provider } = stubProvider(recorded('not-json.txt'), recorded('fenced-strings.txt'));
+    await expect(analyzeChart(provider, CHARTS)).resolves.toMatchObject({ signal: { pair: 'GBPUSD' } });
+  });
+
+  it('gives up when the repair is also invalid', async () => {
+    const { provider, generate } = stubProvider(recorded('truncated.txt'), recorded('missing-fields.txt'), recorded('fenced-strings.txt'));
+    const error = await analyzeChart(provider, CHARTS).catch(err => err);
+
+    expect(error).toBeInstanceOf(AnalysisValidationError);
+    expect(error.issues.map((issue: { path: string }) => issue.path)).toContain('signal.sl');
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry provider errors', async () => {
+    const generate = vi.fn().mockRejectedValue(new Error('quota exceeded'));
+    const provider: ModelProvider = { id: 'mock', model: 'stub', generate };
+
+    await expect(analyzeChart(provider, CHARTS)).rejects.toThrow('quota exceeded');
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+});
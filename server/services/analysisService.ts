@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import { computeLevels } from "../../src/lib/priceLevels";
+import { AnalysisValidationError, extractJson, validateAnalysis } from "../../src/lib/validateAnalysis";
+import { BUILT_IN_TEMPLATE, renderTemplate, toTemplateRef } from "../../src/lib/promptTemplate";
+import { AnalysisResult, ChartInput, PromptTemplate } from "../../src/types";
+import { ChartImage, GenerateOptions, ModelProvider } from "../types";
+
+export interface AnalyzeOptions extends GenerateOptions {
+  // Defaults to the built-in template.
+  template?: PromptTemplate;
+  // Receives the raw model text as it streams in; setting it switches both
+  // attempts to the provider's streaming API.
+  onText?: (delta: string) => void;
+  // Called when the first attempt is rejected, before the repair starts.
+  // Text streamed after this belongs to the repair, not the first attempt.
+  onRepair?: (error: AnalysisValidationError) => void;
+}
+
+// The output contract is fixed here rather than in templates, since the
+// validator and the UI depend on it.
+const schemaPrompt = (template: PromptTemplate) => `
+    IMPORTANT: Return ONLY a valid JSON object with this exact structure:
+    {
+      "signal": {
+        "pair": "string",
+        "timeframe": "string",
+        "action": "BUY" | "SELL" | "NEUTRAL",
+        "entry": "string",
+        "tp": "string",
+        "sl": "string",
+        "confidence": number,
+        "reasoning": "string"
+      },
+      "technical": { ${template.methods.map(method => `"${method.key}": "string"`).join(", ")} },
+      "fundamental": "string",
+      "annotations": {
+        "levels": [{ "kind": "entry" | "tp" | "sl" | "support" | "resistance", "price": number, "y": number }],
+        "zones": [{ "kind": "order_block" | "fvg", "label": "string", "top": number, "bottom": number, "left": number }],
+        "axis": [{ "y": number, "price": number }]
+      }
+    }
+    "entry" and "sl" each hold one price and "tp" one or more prices separated by " / ", e.g. "1.0900 / 1.0950".
+    Put pip distances, ratios and other notes in "reasoning", not next to the prices.
+    In "annotations", y, top, bottom and left are positions on the chart image as fractions from 0 to 1,
+    measured from the top-left corner of the whole image. Include a level for the entry, each TP and the SL,
+    plus the key order blocks and fair value gaps. In "axis", give two price labels you can read clearly on the
+    price axis, one near the top and one near the bottom, with the height of each label's centre.
+    Each "technical" field holds the analysis for the method of the same name: ${template.methods.map(method => `${method.key} = ${method.title}`).join("; ")}.
+  `;
+
+const multiTimeframePrompt = (timeframes: string[]) => `
+    You are given ${timeframes.length} charts of the same pair, labelled ${timeframes.join(", ")}.
+    Work top-down: use the higher timeframes for bias and structure and the lowest one for the entry.
+    Report each chart's bias separately and base the single Signal on all of them combined.
+    Place the annotations on the ${timeframes[timeframes.length - 1]} chart.
+    Add this field to the JSON object:
+      "timeframes": [{ "timeframe": "string", "bias": "BULLISH" | "BEARISH" | "NEUTRAL", "summary": "string" }]
+  `;
+
+// Accepts either a data URL or a bare base64 payload.
+export const toChartImage = (base64Image: string): ChartImage => {
+  const match = base64Image.match(/^data:(image\/[\w.+-]+);base64,(.*)$/);
+  return match
+    ? { mimeType: match[1], data: match[2] }
+    : { mimeType: "image/jpeg", data: base64Image };
+};
+
+const toLabelledImage = ({ timeframe, image }: ChartInput): ChartImage => ({
+  ...toChartImage(image),
+  label: timeframe && timeframe !== "AUTO" ? `${timeframe} chart:` : undefined,
+});
+
+const repairPrompt = (prompt: string, error: AnalysisValidationError) => `${prompt}
+    Your previous response was rejected because of these problems:
+${error.issues.map(issue => `    - ${issue.path} ${issue.message}`).join("\n")}
+    Fix them and return the complete JSON object again.
+  `;
+
+// Malformed output gets one retry with the validation errors fed back to the
+// model; if that also fails the AnalysisValidationError is thrown.
+export const analyzeChart = async (
+  provider: ModelProvider,
+  charts: ChartInput[],
+  { onText, onRepair, signal, template = BUILT_IN_TEMPLATE }: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const images = charts.map(toLabelledImage);
+  const isMultiTimeframe = charts.length > 1;
+  const basePrompt = renderTemplate(template) + "\n" + schemaPrompt(template);
+  const prompt = isMultiTimeframe
+    ? basePrompt + multiTimeframePrompt(charts.map(chart => chart.timeframe))
+    : basePrompt;
+  const parseAnalysis = (text: string) =>
+    validateAnalysis(extractJson(text), {
+      requireTimeframes: isMultiTimeframe,
+      methods: template.methods.map(method => method.key),
+    });
+
+  const attempt = async (text: string) => {
+    if (!onText) return provider.generate(text, images, { signal });
+    if (!provider.stream) {
+      const response = await provider.generate(text, images, { signal });
+      onText(response);
+      return response;
+    }
+    let response = "";
+    for await (const delta of provider.stream(text, images, { signal })) {
+      response += delta;
+      onText(delta);
+    }
+    return response;
+  };
+
+  let result;
+  try {
+    result = parseAnalysis(await attempt(prompt));
+  } catch (error) {
+    if (!(error instanceof AnalysisValidationError)) throw error;
+    console.warn("Retrying analysis after invalid model output:", error.issues);
+    onRepair?.(error);
+    result = parseAnalysis(await attempt(repairPrompt(prompt, error)));
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    ...result,
+    signal: { ...result.signal, levels: computeLevels(result.signal) },
+    model: { provider: provider.id, name: provider.model },
+    template: toTemplateRef(template),
+    // The client sends charts highest timeframe first; the last is the entry chart.
+    ...(result.annotations ? { annotations: { ...result.annotations, chart: charts[charts.length - 1].timeframe } } : {}),
+    timestamp: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,170 @@
+import Database from 'better-sqlite3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NO_FILTERS } from '../../src/lib/channels';
+import { Delivery, NotificationChannel } from '../../src/types';
+
+export type ChannelChanges = Partial<Pick<NotificationChannel, 'name' | 'enabled' | 'config' | 'filters'>>;
+
+// Channels are returned with their secrets; routes mask them for the client.
+export interface ChannelStore {
+  list(): Promise<NotificationChannel[]>;
+  find(id: string): Promise<NotificationChannel | null>;
+  insert(channel: NotificationChannel): Promise<void>;
+  update(id: string, changes: ChannelChanges): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Delivery log, newest first; every channel's when `channelId` is omitted.
+  deliveries(channelId?: string): Promise<Delivery[]>;
+  addDelivery(delivery: Delivery): Promise<void>;
+}
+
+// Keeps the log readable in the admin panel; older deliveries stay stored.
+const DELIVERY_LIMIT = 500;
+
+const parseJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const fromRow = (row: any): NotificationChannel => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  enabled: Boolean(row.enabled),
+  config: parseJson(row.config) ?? {},
+  filters: { ...NO_FILTERS, ...parseJson(row.filters) },
+  createdAt: Number(row.created_at),
+});
+
+const deliveryFromRow = (row: any): Delivery => ({
+  id: row.id,
+  channelId: row.channel_id,
+  analysisId: row.analysis_id ?? null,
+  pair: row.pair,
+  status: row.status,
+  attempts: Number(row.attempts),
+  error: row.error ?? null,
+  at: Number(row.at),
+});
+
+export const createSupabaseChannelStore = (supabase: SupabaseClient): ChannelStore => ({
+  async list() {
+    const { data, error } = await supabase
+      .from('notification_channels')
+      .select('*')
+      .order('created_at', { ascending: true });
+    if (error) throw new Error('Failed to load notification channels from database.');
+    return data.map(fromRow);
+  },
+
+  async find(id) {
+    const { data, error } = await supabase.from('notification_channels').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load notification channel from database.');
+    return data ? fromRow(data) : null;
+  },
+
+  async insert(channel) {
+    const { error } = await supabase.from('notification_channels').insert([{
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      enabled: channel.enabled,
+      config: channel.config,
+      filters: channel.filters,
+      created_at: channel.createdAt,
+    }]);
+    if (error) throw new Error('Failed to save notification channel to database.');
+  },
+
+  async update(id, changes) {
+    const { error } = await supabase.from('notification_channels').update(changes).eq('id', id);
+    if (error) throw new Error('Failed to update notification channel in database.');
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from('notification_channels').delete().eq('id', id);
+    if (error) throw new Error('Failed to delete notification channel from database.');
+  },
+
+  async deliveries(channelId) {
+    let query = supabase.from('notification_deliveries').select('*').order('at', { ascending: false }).limit(DELIVERY_LIMIT);
+    if (channelId) query = query.eq('channel_id', channelId);
+    const { data, error } = await query;
+    if (error) throw new Error('Failed to load delivery log from database.');
+    return data.map(deliveryFromRow);
+  },
+
+  async addDelivery(delivery) {
+    const { error } = await supabase.from('notification_deliveries').insert([{
+      id: delivery.id,
+      channel_id: delivery.channelId,
+      analysis_id: delivery.analysisId,
+      pair: delivery.pair,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      error: delivery.error,
+      at: delivery.at,
+    }]);
+    if (error) throw new Error('Failed to save delivery log entry to database.');
+  },
+});
+
+export const createSqliteChannelStore = (db: Database.Database): ChannelStore => ({
+  async list() {
+    return db.prepare('SELECT * FROM notification_channels ORDER BY created_at ASC').all().map(fromRow);
+  },
+
+  async find(id) {
+    const row = db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(id);
+    return row ? fromRow(row) : null;
+  },
+
+  async insert(channel) {
+    db.prepare(`INSERT INTO notification_channels
+      (id, name, type, enabled, config, filters, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        channel.id,
+        channel.name,
+        channel.type,
+        channel.enabled ? 1 : 0,
+        JSON.stringify(channel.config),
+        JSON.stringify(channel.filters),
+        channel.createdAt
+      );
+  },
+
+  async update(id, changes) {
+    const columns: Record<string, unknown> = {};
+    if (changes.name !== undefined) columns.name = changes.name;
+    if (changes.enabled !== undefined) columns.enabled = changes.enabled ? 1 : 0;
+    if (changes.config !== undefined) columns.config = JSON.stringify(changes.config);
+    if (changes.filters !== undefined) columns.filters = JSON.stringify(changes.filters);
+    if (Object.keys(columns).length === 0) return;
+    db.prepare(`UPDATE notification_channels SET ${Object.keys(columns).map(column => `${column} = ?`).join(', ')} WHERE id = ?`)
+      .run(...Object.values(columns), id);
+  },
+
+  async remove(id) {
+    db.prepare('DELETE FROM notification_channels WHERE id = ?').run(id);
+  },
+
+  async deliveries(channelId) {
+    const rows = channelId
+      ? db.prepare('SELECT * FROM notification_deliveries WHERE channel_id = ? ORDER BY at DESC LIMIT ?').all(channelId, DELIVERY_LIMIT)
+      : db.prepare('SELECT * FROM notification_deliveries ORDER BY at DESC LIMIT ?').all(DELIVERY_LIMIT);
+    return rows.map(deliveryFromRow);
+  },
+
+  async addDelivery(delivery) {
+    db.prepare(`INSERT INTO notification_deliveries
+      (id, channel_id, analysis_id, pair, status, attempts, error, at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        delivery.id,
+        delivery.channelId,
+        delivery.analysisId,
+        delivery.pair,
+        delivery.status,
+        delivery.attempts,
+        delivery.error,
+        delivery.at
+      );
+  },
+});
@@ -0,0 +1,275 @@
+import Database from 'better-sqlite3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AccessCode, CodeEvent } from '../../src/types';
+
+export type CodeChanges = Partial<Pick<AccessCode,
+  'label' | 'maxAnalyses' | 'maxDevices' | 'analysesUsed' | 'suspended' | 'expiry' | 'duration'>>;
+
+// A device holding a session opened with a code, until the session expires.
+export interface DeviceSession {
+  codeId: string;
+  device: string;
+  expiresAt: number;
+}
+
+// Codes are looked up by id, the hash of the code (see ./accessCode).
+export interface CodeStore {
+  list(): Promise<AccessCode[]>;
+  find(id: string): Promise<AccessCode | null>;
+  insert(code: AccessCode): Promise<void>;
+  update(id: string, changes: CodeChanges): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Takes one analysis from the code's quota in a single statement, so two
+  // requests can't both take the last one. False when none is left.
+  reserveAnalysis(id: string): Promise<boolean>;
+  // Gives a reserved analysis back after it failed or was cancelled.
+  releaseAnalysis(id: string): Promise<void>;
+  // Usage log, newest first; every code's when `codeId` is omitted.
+  events(codeId?: string): Promise<CodeEvent[]>;
+  addEvent(event: CodeEvent): Promise<void>;
+  // Sessions that haven't expired yet; every code's when `codeId` is omitted.
+  devices(codeId?: string): Promise<DeviceSession[]>;
+  holdDevice(session: DeviceSession): Promise<void>;
+  // One device's slot, or all of the code's when `device` is omitted.
+  releaseDevices(codeId: string, device?: string): Promise<void>;
+}
+
+// Keeps the log readable in the admin panel; older events stay stored.
+const EVENT_LIMIT = 1000;
+
+const fromRow = (row: any): AccessCode => ({
+  id: row.id,
+  hint: row.hint,
+  expiry: Number(row.expiry),
+  duration: Number(row.duration),
+  createdAt: Number(row.created_at),
+  label: row.label ?? '',
+  maxAnalyses: row.max_analyses === null || row.max_analyses === undefined ? null : Number(row.max_analyses),
+  maxDevices: row.max_devices === null || row.max_devices === undefined ? null : Number(row.max_devices),
+  analysesUsed: Number(row.analyses_used ?? 0),
+  suspended: Boolean(row.suspended),
+});
+
+const eventFromRow = (row: any): CodeEvent => ({
+  codeId: row.code_id,
+  type: row.type,
+  at: Number(row.at),
+  device: row.device ?? null,
+  detail: row.detail ?? null,
+});
+
+const deviceFromRow = (row: any): DeviceSession => ({
+  codeId: row.code_id,
+  device: row.device,
+  expiresAt: Number(row.expires_at),
+});
+
+const COLUMNS: Record<keyof CodeChanges, string> = {
+  label: 'label',
+  maxAnalyses: 'max_analyses',
+  maxDevices: 'max_devices',
+  analysesUsed: 'analyses_used',
+  suspended: 'suspended',
+  expiry: 'expiry',
+  duration: 'duration',
+};
+
+const toColumns = (changes: CodeChanges) =>
+  Object.fromEntries(Object.entries(changes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [COLUMNS[key as keyof CodeChanges], value]));
+
+// Rekeys codes stored before ids were peppered; see the peppered_code_ids
+// migration. Runs before anything else reads the codes or their owners.
+export const pepperSupabaseCodeIds = async (supabase: SupabaseClient, pepper: string) => {
+  const { error } = await supabase.rpc('pepper_access_code_ids', { pepper });
+  if (error) throw new Error('Failed to pepper access codes. Run supabase/migrations/20261019001400_peppered_code_ids.sql.');
+};
+
+export const createSupabaseCodeStore = (supabase: SupabaseClient): CodeStore => ({
+  async list() {
+    const { data, error } = await supabase
+      .from('access_codes')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw new Error('Failed to load codes from database.');
+    return data.map(fromRow);
+  },
+
+  async find(id) {
+    const { data, error } = await supabase
+      .from('access_codes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error('Failed to load code from database.');
+    return data ? fromRow(data) : null;
+  },
+
+  async insert(code) {
+    const { error } = await supabase.from('access_codes').insert([{
+      id: code.id,
+      hint: code.hint,
+      duration: code.duration,
+      created_at: code.createdAt,
+      expiry: code.expiry,
+      label: code.label,
+      max_analyses: code.maxAnalyses,
+      max_devices: code.maxDevices,
+      analyses_used: code.analysesUsed,
+      suspended: code.suspended,
+    }]);
+    if (error) throw new Error('Failed to save code to database.');
+  },
+
+  async update(id, changes) {
+    const { error } = await supabase.from('access_codes').update(toColumns(changes)).eq('id', id);
+    if (error) throw new Error('Failed to update code in database.');
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from('access_codes').delete().eq('id', id);
+    if (error) throw new Error('Failed to delete code from database.');
+    await this.releaseDevices(id);
+  },
+
+  // See the analysis_quota migration.
+  async reserveAnalysis(id) {
+    const { data, error } = await supabase.rpc('reserve_analysis', { code_id: id });
+    if (error) throw new Error('Failed to update code in database.');
+    return data === true;
+  },
+
+  async releaseAnalysis(id) {
+    const { error } = await supabase.rpc('release_analysis', { code_id: id });
+    if (error) throw new Error('Failed to update code in database.');
+  },
+
+  async events(codeId) {
+    let query = supabase.from('code_events').select('*').order('at', { ascending: false }).limit(EVENT_LIMIT);
+    if (codeId) query = query.eq('code_id', codeId);
+    const { data, error } = await query;
+    if (error) throw new Error('Failed to load usage log from database.');
+    return data.map(eventFromRow);
+  },
+
+  async addEvent(event) {
+    const { error } = await supabase.from('code_events').insert([{
+      code_id: event.codeId,
+      type: event.type,
+      at: event.at,
+      device: event.device,
+      detail: event.detail,
+    }]);
+    if (error) throw new Error('Failed to save usage log entry to database.');
+  },
+
+  async devices(codeId) {
+    let query = supabase.from('code_devices').select('*').gt('expires_at', Date.now());
+    if (codeId) query = query.eq('code_id', codeId);
+    const { data, error } = await query;
+    if (error) throw new Error('Failed to load code devices from database.');
+    return data.map(deviceFromRow);
+  },
+
+  async holdDevice(session) {
+    const { error } = await supabase.from('code_devices').upsert([{
+      code_id: session.codeId,
+      device: session.device,
+      expires_at: session.expiresAt,
+    }]);
+    if (error) throw new Error('Failed to save code device to database.');
+  },
+
+  async releaseDevices(codeId, device) {
+    let query = supabase.from('code_devices').delete().eq('code_id', codeId);
+    if (device) query = query.eq('device', device);
+    const { error } = await query;
+    if (error) throw new Error('Failed to release code devices in database.');
+  },
+});
+
+export const createSqliteCodeStore = (db: Database.Database): CodeStore => ({
+  async list() {
+    return db.prepare('SELECT * FROM access_codes ORDER BY created_at DESC').all().map(fromRow);
+  },
+
+  async find(id) {
+    const row = db.prepare('SELECT * FROM access_codes WHERE id = ?').get(id);
+    return row ? fromRow(row) : null;
+  },
+
+  async insert(code) {
+    db.prepare(`INSERT INTO access_codes
+      (id, hint, duration, created_at, expiry, label, max_analyses, max_devices, analyses_used, suspended)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        code.id,
+        code.hint,
+        code.duration,
+        code.createdAt,
+        code.expiry,
+        code.label,
+        code.maxAnalyses,
+        code.maxDevices,
+        code.analysesUsed,
+        code.suspended ? 1 : 0
+      );
+  },
+
+  async update(id, changes) {
+    const columns = toColumns(changes);
+    if (Object.keys(columns).length === 0) return;
+    const values = Object.values(columns).map(value => (typeof value === 'boolean' ? (value ? 1 : 0) : value));
+    db.prepare(`UPDATE access_codes SET ${Object.keys(columns).map(column => `${column} = ?`).join(', ')} WHERE id = ?`)
+      .run(...values, id);
+  },
+
+  async remove(id) {
+    db.prepare('DELETE FROM access_codes WHERE id = ?').run(id);
+    db.prepare('DELETE FROM code_devices WHERE code_id = ?').run(id);
+  },
+
+  async reserveAnalysis(id) {
+    const { changes } = db.prepare(`UPDATE access_codes SET analyses_used = analyses_used + 1
+      WHERE id = ? AND (max_analyses IS NULL OR analyses_used < max_analyses)`).run(id);
+    return changes > 0;
+  },
+
+  async releaseAnalysis(id) {
+    db.prepare('UPDATE access_codes SET analyses_used = MAX(analyses_used - 1, 0) WHERE id = ?').run(id);
+  },
+
+  async events(codeId) {
+    const rows = codeId
+      ? db.prepare('SELECT * FROM code_events WHERE code_id = ? ORDER BY at DESC, id DESC LIMIT ?').all(codeId, EVENT_LIMIT)
+      : db.prepare('SELECT * FROM code_events ORDER BY at DESC, id DESC LIMIT ?').all(EVENT_LIMIT);
+    return rows.map(eventFromRow);
+  },
+
+  async addEvent(event) {
+    db.prepare('INSERT INTO code_events (code_id, type, at, device, detail) VALUES (?, ?, ?, ?, ?)')
+      .run(event.codeId, event.type, event.at, event.device, event.detail);
+  },
+
+  async devices(codeId) {
+    const rows = codeId
+      ? db.prepare('SELECT * FROM code_devices WHERE code_id = ? AND expires_at > ?').all(codeId, Date.now())
+      : db.prepare('SELECT * FROM code_devices WHERE expires_at > ?').all(Date.now());
+    return rows.map(deviceFromRow);
+  },
+
+  async holdDevice(session) {
+    db.prepare(`INSERT INTO code_devices (code_id, device, expires_at) VALUES (?, ?, ?)
+      ON CONFLICT (code_id, device) DO UPDATE SET expires_at = excluded.expires_at`)
+      .run(session.codeId, session.device, session.expiresAt);
+  },
+
+  async releaseDevices(codeId, device) {
+    if (device) {
+      db.prepare('DELETE FROM code_devices WHERE code_id = ? AND device = ?').run(codeId, device);
+    } else {
+      db.prepare('DELETE FROM code_devices WHERE code_id = ?').run(codeId);
+    }
+  },
+});
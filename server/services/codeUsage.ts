@@ -0,0 +1,36 @@
+import { AccessCode, CodeEvent } from '../../src/types';
+import { CodeStore, DeviceSession } from './codeStore';
+
+export const INVALID_CODE = 'Invalid or Expired Access Code';
+export const QUOTA_USED = 'This access code has used all of its analyses.';
+
+// Why a code can't open or keep a session, or null if it can.
+export const codeProblem = (code: AccessCode | null, now = Date.now()): string | null => {
+  if (!code || now >= code.expiry) return INVALID_CODE;
+  if (code.suspended) return 'This access code has been suspended.';
+  return null;
+};
+
+export const quotaProblem = (code: AccessCode): string | null =>
+  code.maxAnalyses !== null && code.analysesUsed >= code.maxAnalyses
+    ? QUOTA_USED
+    : null;
+
+// A device that already holds a session may always log in again.
+export const deviceProblem = (code: AccessCode, devices: DeviceSession[], device: string): string | null => {
+  if (code.maxDevices === null) return null;
+  const others = devices.filter(session => session.device !== device).length;
+  return others >= code.maxDevices
+    ? `This access code is already in use on ${others} device${others === 1 ? '' : 's'}. Log out elsewhere first.`
+    : null;
+};
+
+// The usage log is an audit trail; failing to write it shouldn't fail the
+// login or analysis it describes.
+export const logCodeEvent = async (codes: CodeStore, event: Omit<CodeEvent, 'at'>) => {
+  try {
+    await codes.addEvent({ ...event, at: Date.now() });
+  } catch (err) {
+    console.error(err);
+  }
+};
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { hashCode } from './accessCode';
+import { openDatabase } from './db';
+
+const CODE = 'VX-ABCD-2345';
+const PEPPER = 'test-pepper';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vertex-db-'));
+  file = path.join(dir, 'vertex.db');
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// A database as it was before ids were peppered: codes keyed by plain SHA-256.
+const createLegacyDatabase = () => {
+  const legacyId = crypto.createHash('sha256').update('VXABCD2345').digest('hex');
+  const db = openDatabase(file, PEPPER);
+  db.pragma('user_version = 0');
+  db.prepare(`INSERT INTO access_codes (id, hint, duration, created_at, expiry) VALUES (?, '••-••••-2345', 1, 0, 0)`).run(legacyId);
+  db.prepare('INSERT INTO code_events (code_id, type, at) VALUES (?, ?, 0)').run(legacyId, 'login');
+  db.prepare('INSERT INTO code_devices (code_id, device, expires_at) VALUES (?, ?, 0)').run(legacyId, 'phone');
+  db.prepare(`INSERT INTO shared_analyses (id, owner, analysis_id, pair, action, analysis, created_at)
+    VALUES ('share', ?, 'a1', 'EURUSD', 'BUY', '{}', 0)`).run(legacyId);
+  db.close();
+};
+
+describe('openDatabase', () => {
+  it('rekeys codes stored before ids were peppered, and what refers to them', () => {
+    createLegacyDatabase();
+    const db = openDatabase(file, PEPPER);
+    const id = hashCode(CODE, PEPPER);
+
+    expect(db.prepare('SELECT id FROM access_codes').all()).toEqual([{ id }]);
+    expect(db.prepare('SELECT code_id FROM code_events').all()).toEqual([{ code_id: id }]);
+    expect(db.prepare('SELECT owner FROM shared_analyses').all()).toEqual([{ owner: id }]);
+    expect(db.prepare('SELECT * FROM code_devices').all()).toEqual([]);
+    db.close();
+  });
+
+  it('rekeys only once', () => {
+    createLegacyDatabase();
+    openDatabase(file, PEPPER).close();
+    const db = openDatabase(file, PEPPER);
+
+    expect(db.prepare('SELECT id FROM access_codes').all()).toEqual([{ id: hashCode(CODE, PEPPER) }]);
+    db.close();
+  });
+
+  it('keys plaintext codes with the pepper directly', () => {
+    const legacy = openDatabase(file, PEPPER);
+    legacy.exec(`DROP TABLE access_codes;
+      CREATE TABLE access_codes (code TEXT PRIMARY KEY, duration REAL NOT NULL, created_at INTEGER NOT NULL, expiry INTEGER NOT NULL)`);
+    legacy.pragma('user_version = 0');
+    legacy.prepare('INSERT INTO access_codes (code, duration, created_at, expiry) VALUES (?, 1, 0, 0)').run('VXABCD2345');
+    legacy.close();
+
+    const db = openDatabase(file, PEPPER);
+    expect(db.prepare('SELECT id, hint FROM access_codes').all()).toEqual([{ id: hashCode(CODE, PEPPER), hint: '••••••2345' }]);
+    db.close();
+  });
+});
@@ -0,0 +1,191 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { hashCode, maskCode, pepperCodeId } from './accessCode';
+
+const columnsOf = (db: Database.Database, table: string) =>
+  new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name));
+
+const ACCESS_CODES_TABLE = `
+  CREATE TABLE IF NOT EXISTS access_codes (
+    id TEXT PRIMARY KEY,
+    hint TEXT NOT NULL,
+    duration REAL NOT NULL,
+    created_at INTEGER NOT NULL,
+    expiry INTEGER NOT NULL,
+    label TEXT NOT NULL DEFAULT '',
+    max_analyses INTEGER,
+    max_devices INTEGER,
+    analyses_used INTEGER NOT NULL DEFAULT 0,
+    suspended INTEGER NOT NULL DEFAULT 0
+  );`;
+
+// `user_version` from which access code ids are peppered. The ids look the
+// same before and after, so only this tells them apart.
+const PEPPERED_VERSION = 1;
+
+// Databases from before codes were hashed keep them in plaintext, keyed by
+// `code`. Rekeys them, and the usage log, by hash; device slots are dropped.
+// The hashes are peppered already, so pepperCodeIds has nothing left to do.
+const hashPlaintextCodes = (db: Database.Database, pepper: string) => {
+  if (!columnsOf(db, 'access_codes').has('code')) return;
+  db.transaction(() => {
+    const rows = db.prepare('SELECT * FROM access_codes').all() as any[];
+    db.exec(`DROP TABLE access_codes; ${ACCESS_CODES_TABLE}`);
+    const insert = db.prepare(`INSERT INTO access_codes
+      (id, hint, duration, created_at, expiry, label, max_analyses, max_devices, analyses_used, suspended)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    for (const row of rows) {
+      insert.run(
+        hashCode(row.code, pepper),
+        maskCode(row.code),
+        row.duration,
+        row.created_at,
+        row.expiry,
+        row.label ?? '',
+        row.max_analyses ?? null,
+        row.max_devices ?? null,
+        row.analyses_used ?? 0,
+        row.suspended ?? 0
+      );
+    }
+
+    if (columnsOf(db, 'code_events').has('code')) {
+      db.exec('ALTER TABLE code_events RENAME COLUMN code TO code_id');
+      const rekey = db.prepare('UPDATE code_events SET code_id = ? WHERE code_id = ?');
+      for (const { code_id } of db.prepare('SELECT DISTINCT code_id FROM code_events').all() as { code_id: string }[]) {
+        rekey.run(hashCode(code_id, pepper), code_id);
+      }
+    }
+    db.exec('DROP TABLE IF EXISTS code_devices');
+    db.pragma(`user_version = ${PEPPERED_VERSION}`);
+  })();
+};
+
+// Databases from before the pepper key codes by their plain SHA-256. Rekeys
+// everything that refers to a code; device slots are dropped, and open
+// sessions end as their tokens carry the old id.
+const pepperCodeIds = (db: Database.Database, pepper: string) => {
+  if ((db.pragma('user_version', { simple: true }) as number) >= PEPPERED_VERSION) return;
+  db.transaction(() => {
+    const rekeys = [
+      db.prepare('UPDATE access_codes SET id = ? WHERE id = ?'),
+      db.prepare('UPDATE code_events SET code_id = ? WHERE code_id = ?'),
+      db.prepare('UPDATE shared_analyses SET owner = ? WHERE owner = ?'),
+      db.prepare('UPDATE price_alerts SET owner = ? WHERE owner = ?'),
+      db.prepare('UPDATE alert_events SET owner = ? WHERE owner = ?'),
+    ];
+    for (const { id } of db.prepare('SELECT id FROM access_codes').all() as { id: string }[]) {
+      for (const rekey of rekeys) rekey.run(pepperCodeId(id, pepper), id);
+    }
+    db.exec('DELETE FROM code_devices');
+    db.pragma(`user_version = ${PEPPERED_VERSION}`);
+  })();
+};
+
+// Local fallback store used when Supabase is not configured. `pepper` keys
+// the access code hashes, as in hashCode.
+export const openDatabase = (file: string, pepper: string): Database.Database => {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  hashPlaintextCodes(db, pepper);
+  db.exec(`
+    ${ACCESS_CODES_TABLE}
+    CREATE TABLE IF NOT EXISTS code_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      code_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      device TEXT,
+      detail TEXT
+    );
+    CREATE INDEX IF NOT EXISTS code_events_code_at ON code_events (code_id, at);
+    CREATE TABLE IF NOT EXISTS code_devices (
+      code_id TEXT NOT NULL,
+      device TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      PRIMARY KEY (code_id, device)
+    );
+    CREATE TABLE IF NOT EXISTS shared_analyses (
+      id TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      analysis_id TEXT NOT NULL,
+      pair TEXT NOT NULL,
+      action TEXT NOT NULL,
+      analysis TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER,
+      views INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS shared_analyses_owner ON shared_analyses (owner, created_at);
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      config TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS notification_deliveries (
+      id TEXT PRIMARY KEY,
+      channel_id TEXT NOT NULL,
+      analysis_id TEXT,
+      pair TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      error TEXT,
+      at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS notification_deliveries_channel_at ON notification_deliveries (channel_id, at);
+    CREATE TABLE IF NOT EXISTS price_alerts (
+      id TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      analysis_id TEXT NOT NULL,
+      pair TEXT NOT NULL,
+      action TEXT NOT NULL,
+      entry REAL NOT NULL,
+      tp REAL NOT NULL,
+      sl REAL NOT NULL,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS price_alerts_owner ON price_alerts (owner, created_at);
+    CREATE TABLE IF NOT EXISTS alert_events (
+      id TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      alert_id TEXT NOT NULL,
+      analysis_id TEXT NOT NULL,
+      pair TEXT NOT NULL,
+      level TEXT NOT NULL,
+      status TEXT NOT NULL,
+      level_price REAL NOT NULL,
+      price REAL NOT NULL,
+      at INTEGER NOT NULL,
+      seen INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS alert_events_owner_at ON alert_events (owner, at);
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      body TEXT NOT NULL,
+      methods TEXT NOT NULL,
+      variables TEXT NOT NULL,
+      is_default INTEGER NOT NULL DEFAULT 0,
+      archived INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (id, version)
+    );
+  `);
+  // Templates were deleted outright before they could be archived.
+  if (!columnsOf(db, 'prompt_templates').has('archived')) {
+    db.exec('ALTER TABLE prompt_templates ADD COLUMN archived INTEGER NOT NULL DEFAULT 0');
+  }
+  pepperCodeIds(db, pepper);
+  return db;
+};
@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NO_FILTERS } from '../../src/lib/channels';
+import { AnalysisResult, ChannelFilters, NotificationChannel, TradingSignal } from '../../src/types';
+import { ChannelStore, createSqliteChannelStore } from './channelStore';
+import { openDatabase } from './db';
+import { createNotifier, signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './notifier';
+
+interface StubRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local receiver that records every request and answers with the queued
+// statuses, then 200.
+let stub: http.Server;
+let stubUrl: string;
+let requests: StubRequest[];
+let statuses: number[];
+let store: ChannelStore;
+
+beforeEach(async () => {
+  requests = [];
+  statuses = [];
+  stub = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', headers: req.headers, body });
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status).end(status === 200 ? '{"ok":true}' : 'stub failure');
+    });
+  }).listen(0);
+  await new Promise(resolve => stub.once('listening', resolve));
+  stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  store = createSqliteChannelStore(openDatabase(':memory:', 'test-pepper'));
+});
+
+afterEach(() => new Promise<void>(resolve => stub.close(() => resolve())));
+
+const signal: TradingSignal = {
+  pair: 'EURUSD',
+  timeframe: 'H1',
+  action: 'BUY',
+  entry: '1.0850',
+  tp: '1.0900',
+  sl: '1.0820',
+  confidence: 80,
+  reasoning: 'Ping @everyone <b>now</b>.',
+};
+
+const result = (changes: Partial<TradingSignal> = {}): AnalysisResult => ({
+  id: 'a1',
+  signal: { ...signal, ...changes },
+  technical: {},
+  fundamental: '',
+  timestamp: '2026-10-19T00:00:00.000Z',
+});
+
+const addChannel = async (
+  type: NotificationChannel['type'],
+  config: Record<string, string>,
+  { filters = NO_FILTERS, enabled = true }: { filters?: ChannelFilters, enabled?: boolean } = {}
+) => {
+  const channel: NotificationChannel = { id: `${type}-${requests.length}-${Math.random()}`, name: type, type, enabled, config, filters, createdAt: 0 };
+  await store.insert(channel);
+  return channel;
+};
+
+const notifier = () => createNotifier({ store, retryDelays: [1, 1, 1], telegramApiUrl: stubUrl });
+
+describe('notifier', () => {
+  it('keeps Discord from pinging anyone', async () => {
+    await addChannel('discord', { webhookUrl: `${stubUrl}/discord` });
+    await notifier().notify(result());
+
+    expect(JSON.parse(requests[0].body)).toEqual({
+      content: '**🟢 BUY EURUSD · H1**\nEntry: 1.0850\nTP: 1.0900\nSL: 1.0820\nConfidence: 80%',
+      allowed_mentions: { parse: [] },
+    });
+  });
+
+  it('sends Telegram messages to the bot API with the text escaped', async () => {
+    await addChannel('telegram', { botToken: '123:abc', chatId: '42' });
+    await notifier().notify(result({ pair: 'EUR<USD>' }));
+
+    expect(requests[0].url).toBe('/bot123:abc/sendMessage');
+    expect(JSON.parse(requests[0].body)).toMatchObject({ chat_id: '42', parse_mode: 'HTML' });
+    expect(JSON.parse(requests[0].body).text).toContain('EUR&lt;USD&gt;');
+  });
+
+  it('signs webhooks so receivers can verify them', async () => {
+    await addChannel('webhook', { url: `${stubUrl}/hook`, secret: 'shh' });
+    await notifier().notify(result());
+
+    const { headers, body } = requests[0];
+    const timestamp = String(headers[TIMESTAMP_HEADER.toLowerCase()]);
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(60);
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signWebhook('shh', timestamp, body));
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).not.toBe(signWebhook('other', timestamp, body));
+    expect(JSON.parse(body)).toMatchObject({ event: 'signal', analysisId: 'a1', signal: { pair: 'EURUSD', action: 'BUY' } });
+  });
+
+  it('retries server errors and rate limits until one goes through', async () => {
+    const channel = await addChannel('discord', { webhookUrl: `${stubUrl}/discord` });
+    statuses = [503, 429];
+
+    const [delivery] = await notifier().notify(result());
+    expect(delivery).toMatchObject({ status: 'sent', attempts: 3, error: null });
+    expect(requests).toHaveLength(3);
+    expect(await store.deliveries(channel.id)).toEqual([delivery]);
+  });
+
+  it('gives up after the last retry', async () => {
+    await addChannel('discord', { webhookUrl: `${stubUrl}/discord` });
+    statuses = [503, 503, 503, 503];
+
+    const [delivery] = await notifier().notify(result());
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 4, error: 'HTTP 503: stub failure' });
+  });
+
+  it('does not retry errors that would fail the same way again', async () => {
+    await addChannel('telegram', { botToken: 'revoked', chatId: '42' });
+    statuses = [401];
+
+    const [delivery] = await notifier().notify(result());
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, error: 'HTTP 401: stub failure' });
+  });
+
+  it('retries network errors', async () => {
+    await addChannel('webhook', { url: 'http://127.0.0.1:1/hook', secret: 'shh' });
+
+    const [delivery] = await notifier().notify(result());
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 4 });
+  });
+
+  it('only sends to enabled channels whose filters match', async () => {
+    await addChannel('discord', { webhookUrl: `${stubUrl}/all` });
+    await addChannel('discord', { webhookUrl: `${stubUrl}/sells` }, { filters: { ...NO_FILTERS, actions: ['SELL'] } });
+    await addChannel('discord', { webhookUrl: `${stubUrl}/confident` }, { filters: { ...NO_FILTERS, minConfidence: 90 } });
+    await addChannel('discord', { webhookUrl: `${stubUrl}/fx` }, { filters: { ...NO_FILTERS, pairs: ['eur/usd', 'GBPUSD'] } });
+    await addChannel('discord', { webhookUrl: `${stubUrl}/gold` }, { filters: { ...NO_FILTERS, pairs: ['XAUUSD'] } });
+    await addChannel('discord', { webhookUrl: `${stubUrl}/off` }, { enabled: false });
+
+    await notifier().notify(result());
+    expect(requests.map(request => request.url).sort()).toEqual(['/all', '/fx']);
+  });
+
+  it('sends test messages once, even to disabled channels', async () => {
+    const channel = await addChannel('discord', { webhookUrl: `${stubUrl}/discord` }, { enabled: false });
+    statuses = [503];
+
+    const delivery = await notifier().test(channel);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, analysisId: null, pair: 'TEST' });
+  });
+});
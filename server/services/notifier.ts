@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { matchesFilters } from '../../src/lib/channels';
+import { AnalysisResult, Delivery, NotificationChannel, TradingSignal } from '../../src/types';
+import { ChannelStore } from './channelStore';
+
+// Waits before the 2nd, 3rd and 4th attempts.
+const DEFAULT_RETRY_DELAYS = [2_000, 10_000, 30_000];
+const ATTEMPT_TIMEOUT_MS = 10_000;
+const DEFAULT_TELEGRAM_API_URL = 'https://api.telegram.org';
+
+export const SIGNATURE_HEADER = 'X-VertexChart-Signature';
+export const TIMESTAMP_HEADER = 'X-VertexChart-Timestamp';
+
+const ACTION_MARKS: Record<TradingSignal['action'], string> = { BUY: '🟢', SELL: '🔴', NEUTRAL: '⚪' };
+
+// What test messages carry, so they can be told apart from real signals.
+const TEST_SIGNAL: TradingSignal = {
+  pair: 'TEST',
+  timeframe: 'H1',
+  action: 'BUY',
+  entry: '1.0000',
+  tp: '1.0100',
+  sl: '0.9950',
+  confidence: 100,
+  reasoning: 'Test message from VertexChart. No action needed.',
+};
+
+class DeliveryError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+export interface NotifierOptions {
+  store: ChannelStore;
+  // Defaults to the global fetch; tests pass one aimed at a local stub.
+  fetch?: typeof fetch;
+  // One entry per retry; defaults to 2s, 10s and 30s.
+  retryDelays?: number[];
+  // Defaults to https://api.telegram.org; see TELEGRAM_API_URL.
+  telegramApiUrl?: string;
+}
+
+export interface Notifier {
+  // Sends the result's signal to every enabled channel whose filters match,
+  // and logs each delivery. Never throws.
+  notify(result: AnalysisResult): Promise<Delivery[]>;
+  // Sends a sample signal to one channel, whether or not it is enabled. Tries
+  // once, so the admin panel gets an answer straight away.
+  test(channel: NotificationChannel): Promise<Delivery>;
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const signalLines = (signal: TradingSignal) => [
+  `Entry: ${signal.entry}`,
+  `TP: ${signal.tp}`,
+  `SL: ${signal.sl}`,
+  `Confidence: ${signal.confidence}%`,
+];
+
+const signalTitle = (signal: TradingSignal) =>
+  `${ACTION_MARKS[signal.action]} ${signal.action} ${signal.pair}${signal.timeframe ? ` · ${signal.timeframe}` : ''}`;
+
+// Telegram's HTML parse mode; model text is escaped so it can't break the markup.
+export const formatTelegram = (signal: TradingSignal) =>
+  [`<b>${escapeHtml(signalTitle(signal))}</b>`, ...signalLines(signal).map(escapeHtml)].join('\n');
+
+export const formatDiscord = (signal: TradingSignal) =>
+  [`**${signalTitle(signal)}**`, ...signalLines(signal)].join('\n');
+
+// The body of a generic webhook request.
+export const webhookPayload = (signal: TradingSignal, analysis: AnalysisResult | null) => ({
+  event: analysis ? 'signal' : 'test',
+  analysisId: analysis?.id ?? null,
+  timestamp: analysis?.timestamp ?? new Date().toISOString(),
+  signal: {
+    pair: signal.pair,
+    timeframe: signal.timeframe ?? null,
+    action: signal.action,
+    entry: signal.entry,
+    tp: signal.tp,
+    sl: signal.sl,
+    confidence: signal.confidence,
+    reasoning: signal.reasoning,
+  },
+});
+
+// Receivers recompute this over `${timestamp}.${body}` with the shared secret
+// and compare; the timestamp, in seconds, lets them reject replays.
+export const signWebhook = (secret: string, timestamp: string, body: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+export const createNotifier = ({
+  store,
+  fetch: send = fetch,
+  retryDelays = DEFAULT_RETRY_DELAYS,
+  telegramApiUrl = DEFAULT_TELEGRAM_API_URL,
+}: NotifierOptions): Notifier => {
+  const post = async (url: string, body: string, headers: Record<string, string> = {}) => {
+    let response: Response;
+    try {
+      response = await send(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+      });
+    } catch (err: any) {
+      throw new DeliveryError(err.name === 'TimeoutError' ? 'Request timed out.' : err.message || 'Request failed.', true);
+    }
+    if (response.ok) return;
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    // Rate limits and server errors may pass; anything else, such as a
+    // revoked token, will fail the same way every time.
+    throw new DeliveryError(
+      `HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+      response.status === 429 || response.status >= 500
+    );
+  };
+
+  const sendOnce = (channel: NotificationChannel, signal: TradingSignal, analysis: AnalysisResult | null) => {
+    const { config } = channel;
+    switch (channel.type) {
+      case 'telegram':
+        return post(
+          `${telegramApiUrl}/bot${config.botToken}/sendMessage`,
+          JSON.stringify({ chat_id: config.chatId, text: formatTelegram(signal), parse_mode: 'HTML', disable_web_page_preview: true })
+        );
+      case 'discord':
+        // Model text could contain @everyone or role mentions; none may ping.
+        return post(config.webhookUrl, JSON.stringify({ content: formatDiscord(signal), allowed_mentions: { parse: [] } }));
+      case 'webhook': {
+        const body = JSON.stringify(webhookPayload(signal, analysis));
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        return post(config.url, body, {
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhook(config.secret, timestamp, body),
+        });
+      }
+    }
+  };
+
+  const deliver = async (
+    channel: NotificationChannel,
+    signal: TradingSignal,
+    analysis: AnalysisResult | null,
+    delays = retryDelays
+  ) => {
+    let attempts = 0;
+    let error: string | null = null;
+    while (true) {
+      attempts++;
+      try {
+        await sendOnce(channel, signal, analysis);
+        error = null;
+        break;
+      } catch (err: any) {
+        error = err.message;
+        const delay = delays[attempts - 1];
+        if (!(err instanceof DeliveryError && err.retryable) || delay === undefined) break;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    const delivery: Delivery = {
+      id: crypto.randomUUID(),
+      channelId: channel.id,
+      analysisId: analysis?.id ?? null,
+      pair: signal.pair,
+      status: error === null ? 'sent' : 'failed',
+      attempts,
+      error,
+      at: Date.now(),
+    };
+    // Like the usage log, a failed write shouldn't hide the delivery result.
+    try {
+      await store.addDelivery(delivery);
+    } catch (err) {
+      console.error(err);
+    }
+    return delivery;
+  };
+
+  return {
+    async notify(result) {
+      let channels: NotificationChannel[];
+      try {
+        channels = await store.list();
+      } catch (err) {
+        console.error(err);
+        return [];
+      }
+      const targets = channels.filter(channel => channel.enabled && matchesFilters(result.signal, channel.filters));
+      return Promise.all(targets.map(channel => deliver(channel, result.signal, result)));
+    },
+
+    test(channel) {
+      return deliver(channel, TEST_SIGNAL, null, []);
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { Session } from '../types';
+
+// Sessions never outlive this, even when the access code is valid for longer.
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+const sign = (data: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+// Who a session acts as, and so who owns the history it saves: the access
+// code's id for users, 'admin' for admins. Sent as the token's `sub`.
+export const sessionOwner = (session: Session) => session.codeId ?? 'admin';
+
+// Tokens are HS256 JWTs. The `role`/`aud` claims follow Supabase's conventions
+// so that, when SESSION_SECRET is the project's JWT secret, PostgREST accepts
+// the token and row-level security policies can read `app_role` and `sub`.
+export const signSession = (session: Session, secret: string): string => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    sub: sessionOwner(session),
+    role: 'authenticated',
+    aud: 'authenticated',
+    app_role: session.role,
+    dev: session.device,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(session.expiresAt / 1000),
+  }));
+  return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+};
+
+// Returns null for anything malformed, tampered with or expired.
+export const verifySession = (token: string, secret: string): Session | null => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const expiresAt = claims.exp * 1000;
+    if (!Number.isFinite(expiresAt) || Date.now() >= expiresAt) return null;
+    const device = typeof claims.dev === 'string' ? claims.dev : null;
+    if (claims.app_role === 'admin') return { role: 'admin', codeId: null, device, expiresAt };
+    if (claims.app_role === 'user' && typeof claims.sub === 'string') {
+      return { role: 'user', codeId: claims.sub, device, expiresAt };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+export const safeEqual = (a: string, b: string) => {
+  const left = crypto.createHash('sha256').update(a).digest();
+  const right = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(left, right);
+};
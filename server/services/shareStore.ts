@@ -0,0 +1,122 @@
+import Database from 'better-sqlite3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisResult, ShareLink } from '../../src/types';
+
+// A share link plus what only the server sees: who made it and the snapshot
+// of the analysis it serves.
+export interface StoredShare extends ShareLink {
+  owner: string;
+  analysis: AnalysisResult;
+}
+
+export interface ShareStore {
+  // An owner's links, newest first, without their snapshots.
+  list(owner: string): Promise<ShareLink[]>;
+  find(id: string): Promise<StoredShare | null>;
+  insert(share: StoredShare): Promise<void>;
+  remove(id: string): Promise<void>;
+  recordView(id: string): Promise<void>;
+}
+
+const parseJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const linkFromRow = (row: any): ShareLink => ({
+  id: row.id,
+  analysisId: row.analysis_id,
+  pair: row.pair,
+  action: row.action,
+  createdAt: Number(row.created_at),
+  expiresAt: row.expires_at === null || row.expires_at === undefined ? null : Number(row.expires_at),
+  views: Number(row.views ?? 0),
+});
+
+const fromRow = (row: any): StoredShare => ({
+  ...linkFromRow(row),
+  owner: row.owner,
+  analysis: parseJson(row.analysis),
+});
+
+const LINK_COLUMNS = 'id, analysis_id, pair, action, created_at, expires_at, views';
+
+export const createSupabaseShareStore = (supabase: SupabaseClient): ShareStore => ({
+  async list(owner) {
+    const { data, error } = await supabase
+      .from('shared_analyses')
+      .select(LINK_COLUMNS)
+      .eq('owner', owner)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error('Failed to load share links from database.');
+    return data.map(linkFromRow);
+  },
+
+  async find(id) {
+    const { data, error } = await supabase.from('shared_analyses').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load share link from database.');
+    return data ? fromRow(data) : null;
+  },
+
+  async insert(share) {
+    const { error } = await supabase.from('shared_analyses').insert([{
+      id: share.id,
+      owner: share.owner,
+      analysis_id: share.analysisId,
+      pair: share.pair,
+      action: share.action,
+      analysis: share.analysis,
+      created_at: share.createdAt,
+      expires_at: share.expiresAt,
+      views: share.views,
+    }]);
+    if (error) throw new Error('Failed to save share link to database.');
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from('shared_analyses').delete().eq('id', id);
+    if (error) throw new Error('Failed to delete share link from database.');
+  },
+
+  // Incremented in the database so simultaneous views aren't lost; see the
+  // shared_analyses migration.
+  async recordView(id) {
+    const { error } = await supabase.rpc('record_share_view', { share_id: id });
+    if (error) throw new Error('Failed to record share link view.');
+  },
+});
+
+export const createSqliteShareStore = (db: Database.Database): ShareStore => ({
+  async list(owner) {
+    return db.prepare(`SELECT ${LINK_COLUMNS} FROM shared_analyses WHERE owner = ? ORDER BY created_at DESC`)
+      .all(owner)
+      .map(linkFromRow);
+  },
+
+  async find(id) {
+    const row = db.prepare('SELECT * FROM shared_analyses WHERE id = ?').get(id);
+    return row ? fromRow(row) : null;
+  },
+
+  async insert(share) {
+    db.prepare(`INSERT INTO shared_analyses
+      (id, owner, analysis_id, pair, action, analysis, created_at, expires_at, views)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        share.id,
+        share.owner,
+        share.analysisId,
+        share.pair,
+        share.action,
+        JSON.stringify(share.analysis),
+        share.createdAt,
+        share.expiresAt,
+        share.views
+      );
+  },
+
+  async remove(id) {
+    db.prepare('DELETE FROM shared_analyses WHERE id = ?').run(id);
+  },
+
+  async recordView(id) {
+    db.prepare('UPDATE shared_analyses SET views = views + 1 WHERE id = ?').run(id);
+  },
+});
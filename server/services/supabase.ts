@@ -0,0 +1,13 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// The server talks to Supabase with the service role key, which bypasses
+// row-level security. It must never be exposed to the client bundle.
+export const createServerSupabase = (): SupabaseClient | null => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) return null;
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
@@ -0,0 +1,163 @@
+import Database from 'better-sqlite3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BUILT_IN_TEMPLATE } from '../../src/lib/promptTemplate';
+import { PromptTemplate } from '../../src/types';
+
+export type NewVersion = Pick<PromptTemplate, 'id' | 'name' | 'body' | 'methods' | 'variables' | 'createdAt'>;
+
+// Every save is a new row keyed by (id, version); nothing is updated in
+// place except the default and archived flags, which are shared by all
+// versions of an id. Versions are never deleted.
+export interface TemplateStore {
+  // All versions, archived ones included, newest first.
+  all(): Promise<PromptTemplate[]>;
+  // Stores the template as is, unless that version is already stored. Used
+  // for the built-in template, which only exists in code until first saved.
+  seed(template: PromptTemplate): Promise<void>;
+  // Stores the id's next version, numbered and flagged in the same
+  // transaction so that concurrent saves can't collide. Returns null if the
+  // template is archived.
+  addVersion(template: NewVersion): Promise<PromptTemplate | null>;
+  // Makes the id the only default, in one transaction.
+  setDefault(id: string): Promise<void>;
+  // Returns false if no version of the id is stored.
+  archive(id: string): Promise<boolean>;
+}
+
+const parseJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const fromRow = (row: any): PromptTemplate => ({
+  id: row.id,
+  version: Number(row.version),
+  name: row.name,
+  body: row.body,
+  methods: parseJson(row.methods) ?? [],
+  variables: parseJson(row.variables) ?? {},
+  isDefault: Boolean(row.is_default),
+  archived: Boolean(row.archived),
+  createdAt: Number(row.created_at),
+});
+
+// Writes other than seed go through the functions in the template versions
+// migration, which serialize them with an advisory lock.
+export const createSupabaseTemplateStore = (supabase: SupabaseClient): TemplateStore => ({
+  async all() {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .order('version', { ascending: false });
+    if (error) throw new Error('Failed to load prompt templates from database.');
+    return data.map(fromRow);
+  },
+
+  async seed(template) {
+    const { error } = await supabase.from('prompt_templates').upsert([{
+      id: template.id,
+      version: template.version,
+      name: template.name,
+      body: template.body,
+      methods: template.methods,
+      variables: template.variables,
+      created_at: template.createdAt,
+    }], { onConflict: 'id,version', ignoreDuplicates: true });
+    if (error) throw new Error('Failed to save prompt template to database.');
+  },
+
+  async addVersion(template) {
+    const { data, error } = await supabase.rpc('add_prompt_template_version', {
+      template_id: template.id,
+      template_name: template.name,
+      template_body: template.body,
+      template_methods: template.methods,
+      template_variables: template.variables,
+      template_created_at: template.createdAt,
+    });
+    if (error) throw new Error('Failed to save prompt template to database.');
+    return data?.[0] ? fromRow(data[0]) : null;
+  },
+
+  async setDefault(id) {
+    const { error } = await supabase.rpc('set_default_prompt_template', { template_id: id });
+    if (error) throw new Error('Failed to update the default template.');
+  },
+
+  async archive(id) {
+    const { data, error } = await supabase.rpc('archive_prompt_template', { template_id: id });
+    if (error) throw new Error('Failed to delete prompt template from database.');
+    return Boolean(data);
+  },
+});
+
+export const createSqliteTemplateStore = (db: Database.Database): TemplateStore => {
+  const insert = (template: PromptTemplate) =>
+    db.prepare(`INSERT OR IGNORE INTO prompt_templates (id, version, name, body, methods, variables, is_default, archived, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        template.id,
+        template.version,
+        template.name,
+        template.body,
+        JSON.stringify(template.methods),
+        JSON.stringify(template.variables),
+        template.isDefault ? 1 : 0,
+        template.archived ? 1 : 0,
+        template.createdAt
+      );
+
+  const addVersion = db.transaction((template: NewVersion): PromptTemplate | null => {
+    const latest = db.prepare('SELECT * FROM prompt_templates WHERE id = ? ORDER BY version DESC LIMIT 1').get(template.id);
+    const current = latest ? fromRow(latest) : null;
+    if (current?.archived) return null;
+    const next: PromptTemplate = {
+      ...template,
+      version: (current?.version ?? 0) + 1,
+      isDefault: current?.isDefault ?? false,
+      archived: false,
+    };
+    insert(next);
+    return next;
+  });
+
+  return {
+    async all() {
+      return db.prepare('SELECT * FROM prompt_templates ORDER BY version DESC').all().map(fromRow);
+    },
+
+    async seed(template) {
+      insert({ ...template, isDefault: false, archived: false });
+    },
+
+    async addVersion(template) {
+      return addVersion(template);
+    },
+
+    async setDefault(id) {
+      db.prepare('UPDATE prompt_templates SET is_default = (id = ? AND NOT archived)').run(id);
+    },
+
+    async archive(id) {
+      return db.prepare('UPDATE prompt_templates SET archived = 1, is_default = 0 WHERE id = ?').run(id).changes > 0;
+    },
+  };
+};
+
+// Latest version of each template. The built-in template is listed until it
+// has been saved, and is the default until another template is chosen.
+export const listTemplates = async (store: TemplateStore): Promise<PromptTemplate[]> => {
+  const latest = new Map<string, PromptTemplate>();
+  for (const template of await store.all()) {
+    if (!latest.has(template.id)) latest.set(template.id, template);
+  }
+  const templates = [...latest.values()].filter(template => !template.archived);
+  if (!latest.has(BUILT_IN_TEMPLATE.id)) {
+    templates.unshift({ ...BUILT_IN_TEMPLATE, isDefault: !templates.some(t => t.isDefault) });
+  }
+  return templates;
+};
+
+// The template an analysis should use: the requested one, else the default.
+export const resolveTemplate = async (store: TemplateStore, id?: string): Promise<PromptTemplate | null> => {
+  const templates = await listTemplates(store);
+  if (id) return templates.find(t => t.id === id) ?? null;
+  return templates.find(t => t.isDefault) ?? templates.find(t => t.id === BUILT_IN_TEMPLATE.id) ?? BUILT_IN_TEMPLATE;
+};
@@ -0,0 +1,75 @@
+import { AddressInfo } from 'net';
+import { AccessCode } from '../src/types';
+import { createApp } from './app';
+import { createAlertEngine } from './services/alertEngine';
+import { createSqliteAlertStore } from './services/alertStore';
+import { createSqliteChannelStore } from './services/channelStore';
+import { createSqliteCodeStore } from './services/codeStore';
+import { openDatabase } from './services/db';
+import { createNotifier } from './services/notifier';
+import { signSession } from './services/sessionService';
+import { createSqliteShareStore } from './services/shareStore';
+import { createSqliteTemplateStore } from './services/templateStore';
+import { AppDeps } from './types';
+
+// Test helpers: the real app on an in-memory database, listening on a free
+// port. Anything in `overrides` replaces the default dependency.
+export const startTestApp = async (overrides: Partial<AppDeps> = {}) => {
+  const codePepper = 'test-pepper';
+  const db = openDatabase(':memory:', codePepper);
+  const channels = createSqliteChannelStore(db);
+  const alerts = createSqliteAlertStore(db);
+  const deps: AppDeps = {
+    provider: null,
+    codes: createSqliteCodeStore(db),
+    templates: createSqliteTemplateStore(db),
+    shares: createSqliteShareStore(db),
+    channels,
+    notifier: createNotifier({ store: channels, retryDelays: [] }),
+    alerts,
+    alertEngine: createAlertEngine({ store: alerts, source: null }),
+    sessionSecret: 'test-secret',
+    codePepper,
+    masterCode: 'MASTER',
+    codeFormat: 'TEST-XXXXXXXX',
+    ...overrides,
+  };
+
+  const server = createApp(deps).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    deps,
+    db,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+// Stores a live code and returns a bearer token for a user session on it.
+export const userSession = async (deps: AppDeps, changes: Partial<AccessCode> = {}) => {
+  const now = Date.now();
+  const code: AccessCode = {
+    id: `code-${now}-${Math.random().toString(36).slice(2)}`,
+    hint: '••••-TEST',
+    expiry: now + 24 * 60 * 60 * 1000,
+    duration: 1,
+    createdAt: now,
+    label: '',
+    maxAnalyses: null,
+    maxDevices: null,
+    analysesUsed: 0,
+    suspended: false,
+    ...changes,
+  };
+  await deps.codes.insert(code);
+  const token = signSession({ role: 'user', codeId: code.id, device: 'test-device', expiresAt: now + 60 * 60 * 1000 }, deps.sessionSecret);
+  return { code, token };
+};
+
+export const adminSession = (deps: AppDeps) =>
+  signSession({ role: 'admin', codeId: null, device: null, expiresAt: Date.now() + 60 * 60 * 1000 }, deps.sessionSecret);
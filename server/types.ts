@@ -0,0 +1,82 @@
+import { SessionRole } from '../src/types';
+import { AlertEngine } from './services/alertEngine';
+import { AlertStore } from './services/alertStore';
+import { ChannelStore } from './services/channelStore';
+import { CodeStore } from './services/codeStore';
+import { Notifier } from './services/notifier';
+import { ShareStore } from './services/shareStore';
+import { TemplateStore } from './services/templateStore';
+
+export interface ChartImage {
+  mimeType: string;
+  data: string;
+  // Shown to the model right before the image, e.g. "H4 chart".
+  label?: string;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GenerateOptions {
+  // Aborts the upstream request, e.g. when the client disconnects.
+  signal?: AbortSignal;
+}
+
+// Anything that can turn a prompt plus chart images into raw model text.
+// The Express app only depends on this, so tests can pass in a stub.
+export interface ModelProvider {
+  id: ProviderId;
+  // Model name as sent to the provider, recorded on every AnalysisResult.
+  model: string;
+  generate(prompt: string, images: ChartImage[], options?: GenerateOptions): Promise<string>;
+  // Yields the response text as it is produced. Providers without it are
+  // streamed as a single chunk.
+  stream?(prompt: string, images: ChartImage[], options?: GenerateOptions): AsyncIterable<string>;
+}
+
+export interface PriceTick {
+  // Normalized, e.g. EURUSD; see normalizeSymbol.
+  symbol: string;
+  price: number;
+  // Epoch milliseconds.
+  time: number;
+}
+
+// Anything that produces live prices for the alert engine. Like providers,
+// the app only depends on this, so tests can push ticks by hand.
+export interface PriceSource {
+  // Describes the feed in the UI, e.g. "CSV replay of data/ticks.csv".
+  name: string;
+  // Calls `onTick` for every price until the returned function is called.
+  start(onTick: (tick: PriceTick) => void): () => void;
+}
+
+// Verified contents of a session token, stored on res.locals.session.
+export interface Session {
+  role: SessionRole;
+  // Id of the access code that opened a user session; null for admins.
+  codeId: string | null;
+  // Browser the session was opened from; holds one of the code's device slots.
+  device: string | null;
+  expiresAt: number;
+}
+
+export interface AppDeps {
+  // Null when no provider is configured; /api/analyze then answers 503.
+  provider: ModelProvider | null;
+  codes: CodeStore;
+  templates: TemplateStore;
+  shares: ShareStore;
+  channels: ChannelStore;
+  // Pushes new signals to the channels above.
+  notifier: Notifier;
+  alerts: AlertStore;
+  // Watches the price feed for the alerts above.
+  alertEngine: AlertEngine;
+  sessionSecret: string;
+  // Keys the access code hashes; see hashCode in services/accessCode.
+  codePepper: string;
+  // Null disables admin login entirely.
+  masterCode: string | null;
+  // Default shape of new access codes; see services/accessCode.
+  codeFormat: string;
+}
@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight, Download, KeyRound, Pause, Play, ScrollText, Trash2, X, Zap } from 'lucide-react';
+import * as api from '../services/api';
+import { downloadCsv, toCsv } from '../lib/csv';
+import { cn } from '../lib/utils';
+import { AccessCode, AccessCodeUpdate, CodeEvent, CodeEventType, IssuedCode } from '../types';
+
+const DURATIONS = [
+  { label: '1 HOUR', days: 1 / 24 },
+  { label: '5 HOURS', days: 5 / 24 },
+  { label: '3 DAYS', days: 3 },
+  { label: '7 DAYS', days: 7 },
+  { label: '30 DAYS', days: 30 },
+];
+
+const EXTENSIONS = [1, 7, 30];
+
+// Matches the server's cap on one request.
+const MAX_BATCH = 200;
+
+const EVENT_LABELS: Record<CodeEventType, string> = {
+  login: 'Login',
+  login_denied: 'Login denied',
+  logout: 'Logout',
+  analysis: 'Analysis',
+};
+
+const inputClass = "w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none";
+const labelClass = "text-[9px] font-serif italic text-gray-500 uppercase tracking-widest";
+const actionClass = "text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold disabled:opacity-40";
+
+const formatDuration = (days: number) =>
+  days < 1 ? `${Math.round(days * 24)} Hours` : `${Number(days.toFixed(1))} Days`;
+
+const formatLimit = (used: number, max: number | null) => (max === null ? `${used} / ∞` : `${used} / ${max}`);
+
+const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// The list handed to a reseller: the codes themselves plus what they grant.
+const exportIssued = (issued: IssuedCode[]) => {
+  const csv = toCsv(
+    ['code', 'label', 'expires', 'max_analyses', 'max_devices'],
+    issued.map(code => [
+      code.code,
+      code.label,
+      new Date(code.expiry).toISOString(),
+      code.maxAnalyses ?? '',
+      code.maxDevices ?? '',
+    ])
+  );
+  downloadCsv(`access-codes-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+};
+
+interface AccessCodeManagerProps {
+  codes: AccessCode[];
+  onChange: (codes: AccessCode[]) => void;
+}
+
+export default function AccessCodeManager({ codes, onChange }: AccessCodeManagerProps) {
+  const [label, setLabel] = useState('');
+  const [customExpiry, setCustomExpiry] = useState('');
+  const [maxAnalyses, setMaxAnalyses] = useState('');
+  const [maxDevices, setMaxDevices] = useState('');
+  const [count, setCount] = useState('1');
+  const [format, setFormat] = useState('');
+  // Plaintext of the codes just generated. Only hashes are stored, so this is
+  // the one chance to copy or export them.
+  const [issued, setIssued] = useState<IssuedCode[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [events, setEvents] = useState<CodeEvent[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCode = codes.find(code => code.id === selected) ?? null;
+  const hints = new Map(codes.map(code => [code.id, code.label || code.hint]));
+
+  // The log follows the selected code, or shows every code's when none is.
+  useEffect(() => {
+    api.listCodeEvents(selected ?? undefined)
+      .then(setEvents)
+      .catch(err => setError(err.message));
+  }, [selected, codes]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const generate = (days?: number) => run(async () => {
+    const created = await api.createCode({
+      count: Number(count),
+      format: format.trim() || undefined,
+      ...(days !== undefined ? { days } : { expiry: new Date(customExpiry).getTime() }),
+      label,
+      maxAnalyses: toLimit(maxAnalyses),
+      maxDevices: toLimit(maxDevices),
+    });
+    onChange([...created, ...codes]);
+    setIssued(created);
+    setLabel('');
+  });
+
+  const update = (id: string, changes: AccessCodeUpdate) => run(async () => {
+    const updated = await api.updateCode(id, changes);
+    onChange(codes.map(c => (c.id === id ? updated : c)));
+  });
+
+  const remove = (id: string) => run(async () => {
+    await api.deleteCode(id);
+    onChange(codes.filter(c => c.id !== id));
+    if (selected === id) setSelected(null);
+  });
+
+  const exportLog = () => {
+    const byId = new Map(codes.map(code => [code.id, code]));
+    const csv = toCsv(
+      ['time', 'code', 'label', 'event', 'device', 'detail'],
+      events.map(event => [
+        new Date(event.at).toISOString(),
+        byId.get(event.codeId)?.hint ?? '',
+        byId.get(event.codeId)?.label ?? '',
+        event.type,
+        event.device,
+        event.detail,
+      ])
+    );
+    downloadCsv(`usage-${selected ? selected.slice(0, 8) : 'all-codes'}.csv`, csv);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <section className="lg:col-span-1 bg-alchemist-card border border-alchemist-border rounded-3xl p-8 space-y-6 h-fit">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-gold flex items-center gap-2">
+            <Zap className="w-4 h-4" /> Generate Code
+          </h2>
+          <div className="space-y-4">
+            <label className="space-y-1 block">
+              <span className={labelClass}>Customer Label</span>
+              <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Optional" className={inputClass} />
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="space-y-1 block">
+                <span className={labelClass}>Max Analyses</span>
+                <input type="number" min={1} value={maxAnalyses} onChange={(e) => setMaxAnalyses(e.target.value)} placeholder="Unlimited" className={inputClass} />
+              </label>
+              <label className="space-y-1 block">
+                <span className={labelClass}>Max Devices</span>
+                <input type="number" min={1} value={maxDevices} onChange={(e) => setMaxDevices(e.target.value)} placeholder="Unlimited" className={inputClass} />
+              </label>
+              <label className="space-y-1 block">
+                <span className={labelClass}>Quantity</span>
+                <input type="number" min={1} max={MAX_BATCH} value={count} onChange={(e) => setCount(e.target.value)} className={inputClass} />
+              </label>
+              <label className="space-y-1 block">
+                <span className={labelClass}>Format</span>
+                <input value={format} onChange={(e) => setFormat(e.target.value.toUpperCase())} placeholder="Default" className={inputClass} />
+              </label>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 gap-3">
+            {DURATIONS.map(option => (
+              <button
+                key={option.label}
+                onClick={() => generate(option.days)}
+                disabled={isBusy}
+                className="w-full bg-white/5 hover:bg-gold/10 hover:border-gold/30 border border-white/5 py-4 rounded-xl text-sm font-bold transition-all flex items-center justify-between px-6 group"
+              >
+                <span className="text-gray-400 group-hover:text-gold">{option.label} ACCESS</span>
+                <ChevronRight className="w-4 h-4 text-gray-600 group-hover:text-gold" />
+              </button>
+            ))}
+          </div>
+          <div className="flex items-end gap-3">
+            <label className="space-y-1 block flex-1">
+              <span className={labelClass}>Or Until</span>
+              <input type="datetime-local" value={customExpiry} onChange={(e) => setCustomExpiry(e.target.value)} className={inputClass} />
+            </label>
+            <button onClick={() => generate()} disabled={isBusy || !customExpiry} className={actionClass}>
+              Generate
+            </button>
+          </div>
+          {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+        </section>
+
+        {issued.length > 0 && (
+          <section className="lg:col-span-3 bg-gold/5 border border-gold/30 rounded-3xl p-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h2 className="text-sm font-bold uppercase tracking-widest text-gold flex items-center gap-2">
+                <KeyRound className="w-4 h-4" /> {issued.length} New {issued.length === 1 ? 'Code' : 'Codes'}
+              </h2>
+              <div className="flex items-center gap-4">
+                <button onClick={() => exportIssued(issued)} className={cn(actionClass, "flex items-center gap-1")}>
+                  <Download className="w-3 h-3" /> Download CSV
+                </button>
+                <button onClick={() => setIssued([])} title="Dismiss" className="p-1 text-gray-500 hover:text-white">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <p className="text-[11px] font-serif italic text-gray-400">
+              Copy or download these now. Only a hash is stored, so they can't be shown again.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 max-h-64 overflow-y-auto">
+              {issued.map(code => (
+                <code key={code.id} className="font-mono text-sm text-gold tracking-widest select-all">{code.code}</code>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="lg:col-span-2 bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+          <div className="p-8 border-b border-alchemist-border flex items-center justify-between">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">Access Codes</h2>
+            <span className="text-[11px] font-serif italic text-gray-500">{codes.length} CODES TOTAL</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-white/5">
+                  {['Code', 'Analyses', 'Devices', 'Expires', ''].map(heading => (
+                    <th key={heading} className="px-6 py-4 text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-alchemist-border">
+                {codes.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-8 py-12 text-center text-gray-600 font-serif italic">No codes generated yet.</td>
+                  </tr>
+                ) : codes.map(item => {
+                  const isExpired = Date.now() >= item.expiry;
+                  return (
+                    <tr
+                      key={item.id}
+                      onClick={() => setSelected(selected === item.id ? null : item.id)}
+                      className={cn("transition-colors cursor-pointer", selected === item.id ? "bg-gold/5" : "hover:bg-white/5")}
+                    >
+                      <td className="px-6 py-4">
+                        <p className={cn("font-serif italic font-bold tracking-widest", item.suspended || isExpired ? "text-gray-600 line-through" : "text-gold")}>
+                          {item.hint}
+                        </p>
+                        <p className="text-[10px] font-serif italic text-gray-500">
+                          {item.label || formatDuration(item.duration)}
+                          {item.suspended && <span className="ml-2 text-red-400">SUSPENDED</span>}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-400">{formatLimit(item.analysesUsed, item.maxAnalyses)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-400">{formatLimit(item.activeDevices ?? 0, item.maxDevices)}</td>
+                      <td className={cn("px-6 py-4 text-xs", isExpired ? "text-red-400/70" : "text-gray-500")}>
+                        {new Date(item.expiry).toLocaleDateString()}
+                        <div className="text-[10px] opacity-50">{new Date(item.expiry).toLocaleTimeString()}</div>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            remove(item.id);
+                          }}
+                          title="Delete code"
+                          className="p-2 text-gray-600 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedCode && (
+            <CodeEditor key={selectedCode.id} code={selectedCode} isBusy={isBusy} onUpdate={(changes) => update(selectedCode.id, changes)} />
+          )}
+        </section>
+      </div>
+
+      <section className="bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+        <div className="p-8 border-b border-alchemist-border flex items-center justify-between">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-white flex items-center gap-2">
+            <ScrollText className="w-4 h-4 text-gold" /> Usage Log {selectedCode && <span className="text-gold">// {selectedCode.label || selectedCode.hint}</span>}
+          </h2>
+          <button onClick={exportLog} disabled={events.length === 0} className={cn(actionClass, "flex items-center gap-1")}>
+            <Download className="w-3 h-3" /> Export CSV
+          </button>
+        </div>
+        <div className="max-h-96 overflow-y-auto divide-y divide-alchemist-border">
+          {events.length === 0 ? (
+            <p className="px-8 py-12 text-center text-gray-600 font-serif italic">No usage recorded yet.</p>
+          ) : events.map((event, i) => (
+            <div key={i} className="px-8 py-3 grid grid-cols-12 gap-4 text-xs font-serif italic">
+              <span className="col-span-3 text-gray-500">{new Date(event.at).toLocaleString()}</span>
+              <span className="col-span-2 text-gold tracking-widest truncate">{hints.get(event.codeId) ?? 'Deleted code'}</span>
+              <span className={cn("col-span-2", event.type === 'login_denied' ? "text-red-400" : "text-gray-300")}>{EVENT_LABELS[event.type]}</span>
+              <span className="col-span-5 text-gray-500 truncate">
+                {event.detail}
+                {event.device && <span className="ml-2 text-gray-700">device {event.device.slice(0, 8)}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+interface CodeEditorProps {
+  code: AccessCode;
+  isBusy: boolean;
+  onUpdate: (changes: AccessCodeUpdate) => void;
+}
+
+// Actions for the selected code, shown under the table.
+function CodeEditor({ code, isBusy, onUpdate }: CodeEditorProps) {
+  const [label, setLabel] = useState(code.label);
+  const [maxAnalyses, setMaxAnalyses] = useState(code.maxAnalyses?.toString() ?? '');
+  const [maxDevices, setMaxDevices] = useState(code.maxDevices?.toString() ?? '');
+
+  const isDirty = label !== code.label
+    || toLimit(maxAnalyses) !== code.maxAnalyses
+    || toLimit(maxDevices) !== code.maxDevices;
+
+  return (
+    <div className="p-8 border-t border-alchemist-border space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="space-y-1 block">
+          <span className={labelClass}>Customer Label</span>
+          <input value={label} onChange={(e) => setLabel(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Max Analyses</span>
+          <input type="number" min={1} value={maxAnalyses} onChange={(e) => setMaxAnalyses(e.target.value)} placeholder="Unlimited" className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Max Devices</span>
+          <input type="number" min={1} value={maxDevices} onChange={(e) => setMaxDevices(e.target.value)} placeholder="Unlimited" className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-4">
+          <button
+            onClick={() => onUpdate({ suspended: !code.suspended })}
+            disabled={isBusy}
+            className={cn(actionClass, "flex items-center gap-1", !code.suspended && "hover:text-red-400")}
+          >
+            {code.suspended ? <><Play className="w-3 h-3" /> Resume</> : <><Pause className="w-3 h-3" /> Suspend</>}
+          </button>
+          {EXTENSIONS.map(days => (
+            <button key={days} onClick={() => onUpdate({ extendDays: days })} disabled={isBusy} className={actionClass}>
+              +{days}D
+            </button>
+          ))}
+          {(code.activeDevices ?? 0) > 0 && (
+            <button onClick={() => onUpdate({ releaseDevices: true })} disabled={isBusy} className={actionClass}>
+              Release Devices
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => onUpdate({ label, maxAnalyses: toLimit(maxAnalyses), maxDevices: toLimit(maxDevices) })}
+          disabled={isBusy || !isDirty}
+          className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40"
+        >
+          Save Changes
+        </button>
+      </div>
+    </div>
+  );
+}
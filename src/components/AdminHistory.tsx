@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { History, RefreshCw, Trash2 } from 'lucide-react';
+import * as historyService from '../services/historyService';
+import { HistoryQuery, isEmptyQuery } from '../lib/historyQuery';
+import { getOutcome, OUTCOME_LABELS } from '../lib/outcomes';
+import { OUTCOME_STYLES } from './OutcomeEditor';
+import HistoryFilters from './HistoryFilters';
+import { cn } from '../lib/utils';
+import { AccessCode, AnalysisResult } from '../types';
+
+interface AdminHistoryProps {
+  // Access codes to offer in the owner filter and to name owners by.
+  codes: AccessCode[];
+}
+
+// Every user's history, for admins. Same filters as the History tab plus
+// the access code that saved each entry.
+export default function AdminHistory({ codes }: AdminHistoryProps) {
+  const [query, setQuery] = useState<HistoryQuery>({});
+  const [entries, setEntries] = useState<AnalysisResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Owners are code ids (hashes) or 'admin'; show something recognisable.
+  const ownerName = (owner?: string) => {
+    const code = codes.find(item => item.id === owner);
+    return code ? code.label || code.hint : owner ?? '—';
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const page = await historyService.loadHistory(query);
+        if (cancelled) return;
+        setEntries(page.entries);
+        setHasMore(page.hasMore);
+        setError(null);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      }
+      if (!cancelled) setIsLoading(false);
+    }, isEmptyQuery(query) ? 0 : 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    try {
+      const page = await historyService.loadHistory(query, entries.length);
+      setEntries(prev => [...prev, ...page.entries]);
+      setHasMore(page.hasMore);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setIsLoading(false);
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await historyService.deleteEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+      <div className="p-8 border-b border-alchemist-border flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-white flex items-center gap-2">
+          <History className="w-4 h-4 text-gold" /> User History
+        </h2>
+        <label className="flex items-center gap-3">
+          <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Owner</span>
+          <select
+            value={query.owner ?? ''}
+            onChange={(e) => setQuery({ ...query, owner: e.target.value || undefined })}
+            className="bg-alchemist-card border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none"
+          >
+            <option value="">All users</option>
+            {codes.map(code => <option key={code.id} value={code.id}>{ownerName(code.id)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="p-6 border-b border-alchemist-border">
+        <HistoryFilters query={{ ...query, owner: undefined }} onChange={(next) => setQuery({ ...next, owner: query.owner })} />
+      </div>
+
+      {error && <p className="px-8 pt-4 text-[11px] font-serif italic text-red-400/80">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-white/5">
+              {['Saved', 'Owner', 'Pair', 'Signal', 'Outcome', ''].map(heading => (
+                <th key={heading} className="px-8 py-4 text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">{heading}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-alchemist-border">
+            {entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-8 py-12 text-center text-gray-600 font-serif italic">
+                  {isLoading ? 'Loading...' : 'No analyses match these filters.'}
+                </td>
+              </tr>
+            ) : entries.map(entry => (
+              <tr key={entry.id} className="hover:bg-white/5 transition-colors">
+                <td className="px-8 py-4 text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</td>
+                <td className="px-8 py-4 font-serif italic text-gold tracking-widest text-sm">{ownerName(entry.owner)}</td>
+                <td className="px-8 py-4 font-serif italic text-white">{entry.signal.pair}</td>
+                <td className={cn(
+                  "px-8 py-4 text-xs font-bold",
+                  entry.signal.action === 'BUY' ? "text-emerald-500" : entry.signal.action === 'SELL' ? "text-red-500" : "text-gray-500"
+                )}>
+                  {entry.signal.action} <span className="text-gray-600 font-normal">{entry.signal.confidence}%</span>
+                </td>
+                <td className="px-8 py-4">
+                  <span className={cn(
+                    "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border",
+                    OUTCOME_STYLES[getOutcome(entry).status]
+                  )}>
+                    {OUTCOME_LABELS[getOutcome(entry).status]}
+                  </span>
+                </td>
+                <td className="px-8 py-4 text-right">
+                  <button onClick={() => remove(entry.id)} title="Delete entry" className="p-2 text-gray-600 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {hasMore && (
+        <div className="p-6 flex justify-center border-t border-alchemist-border">
+          <button
+            onClick={loadMore}
+            disabled={isLoading}
+            className="text-[11px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40 flex items-center gap-2"
+          >
+            {isLoading && <RefreshCw className="w-3 h-3 animate-spin" />} Load More
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import { BellRing, X } from 'lucide-react';
+import { describeAlertEvent } from '../lib/priceAlerts';
+import { AlertEvent } from '../types';
+
+interface AlertToastsProps {
+  events: AlertEvent[];
+  onOpen: (event: AlertEvent) => void;
+  onDismiss: (id: string) => void;
+}
+
+// In-app notices for price alerts, newest at the bottom, until dismissed.
+export default function AlertToasts({ events, onOpen, onDismiss }: AlertToastsProps) {
+  if (events.length === 0) return null;
+  return (
+    <div className="fixed right-4 bottom-24 md:bottom-6 z-[60] w-80 max-w-[calc(100vw-2rem)] space-y-2">
+      {events.map(event => (
+        <div key={event.id} className="flex items-start gap-3 bg-alchemist-card/95 backdrop-blur border border-gold/20 rounded-2xl px-4 py-3 shadow-2xl">
+          <BellRing className="w-4 h-4 text-gold shrink-0 mt-0.5" />
+          <button onClick={() => onOpen(event)} className="flex-1 text-left text-xs font-serif italic text-gray-300 hover:text-white">
+            {describeAlertEvent(event)}
+          </button>
+          <button onClick={() => onDismiss(event.id)} title="Dismiss" className="text-gray-600 hover:text-white">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import { AlertCircle, BarChart3, ShieldCheck, Target, Zap } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { AnalysisResult, SignalLevels, TimeframeAnalysis } from '../types';
+
+// Read-only pieces of a result, shared by the dashboard and shared links.
+
+// Icons for the built-in methods; custom template methods get a generic one.
+export const TECH_ICONS: Record<string, React.ReactElement> = {
+  snr: <Target />,
+  ict: <Zap />,
+  std: <BarChart3 />,
+  alchemist: <ShieldCheck />,
+};
+
+export function SignalLevelsGrid({ signal, levels }: { signal: AnalysisResult['signal'], levels: SignalLevels }) {
+  const formatPips = (pips: number) => `${pips.toFixed(1)} pips`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <SignalMetric
+          label="Entry Price"
+          value={signal.entry}
+          color="white"
+          details={levels.riskReward.length > 0 ? levels.riskReward.map((rr, i) => `R:R ${levels.tp.length > 1 ? `TP${i + 1} ` : ''}1:${rr.toFixed(2)}`) : undefined}
+        />
+        <SignalMetric
+          label="Take Profit"
+          value={signal.tp}
+          color="emerald"
+          details={levels.rewardPips.map((pips, i) => `${levels.tp.length > 1 ? `TP${i + 1} ` : ''}+${formatPips(pips)}`)}
+        />
+        <SignalMetric
+          label="Stop Loss"
+          value={signal.sl}
+          color="red"
+          details={levels.riskPips !== null ? [`-${formatPips(levels.riskPips)}`] : undefined}
+        />
+      </div>
+      {levels.warnings.length > 0 && (
+        <div className="p-4 bg-amber-500/5 border border-amber-500/20 rounded-2xl space-y-1">
+          {levels.warnings.map(warning => (
+            <p key={warning} className="flex items-center gap-2 text-[11px] font-serif italic text-amber-400/80">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SignalMetric({ label, value, color, details }: { label: string, value: string, color: 'white' | 'emerald' | 'red', details?: string[] }) {
+  const colorClasses = {
+    white: "text-white",
+    emerald: "text-emerald-400",
+    red: "text-red-400"
+  };
+
+  return (
+    <div className="space-y-1 md:space-y-2 p-4 md:p-6 bg-white/[0.02] rounded-[2rem] border border-white/5">
+      <p className="text-[9px] md:text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">{label}</p>
+      <p className={cn("text-xl md:text-3xl font-serif font-bold tracking-tight", colorClasses[color])}>{value}</p>
+      {details?.map(detail => (
+        <p key={detail} className="text-[10px] md:text-[11px] font-serif italic text-gray-500 tracking-widest">{detail}</p>
+      ))}
+    </div>
+  );
+}
+
+export function TimeframeCard({ analysis, thumbnail }: { analysis: TimeframeAnalysis, thumbnail?: string }) {
+  return (
+    <div className="bg-alchemist-card border border-white/5 rounded-[2rem] overflow-hidden">
+      {thumbnail && <img src={thumbnail} alt={`${analysis.timeframe} chart`} className="w-full aspect-video object-cover opacity-70" />}
+      <div className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-serif italic font-bold uppercase tracking-[0.2em] text-gold">{analysis.timeframe}</span>
+          <span className={cn(
+            "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border",
+            analysis.bias === 'BULLISH' ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" :
+            analysis.bias === 'BEARISH' ? "bg-red-500/10 text-red-400 border-red-500/20" :
+            "bg-gray-500/10 text-gray-400 border-gray-500/20"
+          )}>
+            {analysis.bias}
+          </span>
+        </div>
+        <p className="text-sm text-gray-400 leading-relaxed font-serif italic">{analysis.summary}</p>
+      </div>
+    </div>
+  );
+}
+
+export function TechCard({ title, icon, content }: { title: string, icon: React.ReactElement, content: string }) {
+  return (
+    <div className="bg-alchemist-card border border-white/5 rounded-[2rem] p-8 space-y-6 hover:border-gold/20 transition-all group relative overflow-hidden">
+      <div className="absolute top-0 right-0 w-32 h-32 bg-gold/5 blur-3xl rounded-full -mr-16 -mt-16 group-hover:bg-gold/10 transition-all" />
+      <div className="flex items-center gap-4 text-gold">
+        <div className="w-10 h-10 bg-gold/5 rounded-xl flex items-center justify-center border border-gold/10 group-hover:scale-110 transition-transform">
+          {React.cloneElement(icon, { className: "w-5 h-5" } as any)}
+        </div>
+        <h4 className="text-xs font-serif italic font-bold uppercase tracking-[0.2em]">{title}</h4>
+      </div>
+      <p className="text-sm text-gray-400 leading-relaxed relative z-10 font-serif italic">{content}</p>
+    </div>
+  );
+}
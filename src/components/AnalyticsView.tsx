@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { LineChart } from 'lucide-react';
+import { analyzeJournal, JournalStats, StatsGroup } from '../lib/journalStats';
+import { cn } from '../lib/utils';
+import { AnalysisResult } from '../types';
+
+const formatR = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}R`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatFactor = (value: number | null) => (value === null ? '∞' : value.toFixed(2));
+
+export default function AnalyticsView({ history }: { history: AnalysisResult[] }) {
+  const breakdown = useMemo(() => analyzeJournal(history), [history]);
+  const { overall } = breakdown;
+
+  if (overall.trades === 0) {
+    return (
+      <div className="h-96 flex flex-col items-center justify-center text-center space-y-4 bg-alchemist-card border border-alchemist-border rounded-3xl">
+        <LineChart className="w-12 h-12 text-gray-700" />
+        <p className="text-gray-500 font-serif italic">No closed trades yet. Record outcomes in the History tab to see performance.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Win Rate" value={formatPercent(overall.winRate)} detail={`${overall.wins}W / ${overall.losses}L of ${overall.trades}`} />
+        <StatCard label="Average R" value={formatR(overall.averageR)} tone={overall.averageR} />
+        <StatCard label="Expectancy" value={formatR(overall.expectancy)} tone={overall.expectancy} detail={`+${overall.averageWinR.toFixed(2)}R win / -${overall.averageLossR.toFixed(2)}R loss`} />
+        <StatCard label="Profit Factor" value={formatFactor(overall.profitFactor)} />
+        <StatCard label="Max Drawdown" value={`-${overall.maxDrawdown.toFixed(2)}R`} tone={-overall.maxDrawdown} />
+        <StatCard label="Best Win Streak" value={String(overall.longestWinStreak)} />
+        <StatCard label="Worst Loss Streak" value={String(overall.longestLossStreak)} />
+        <StatCard
+          label="Current Streak"
+          value={overall.currentStreak === 0 ? '—' : `${Math.abs(overall.currentStreak)} ${overall.currentStreak > 0 ? 'W' : 'L'}`}
+          tone={overall.currentStreak}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <BreakdownTable title="By Confidence" groups={breakdown.byConfidence} />
+        <BreakdownTable title="By Pair" groups={breakdown.byPair} />
+        <BreakdownTable title="By Action" groups={breakdown.byAction} />
+        <BreakdownTable title="By Timeframe" groups={breakdown.byTimeframe} />
+      </div>
+    </div>
+  );
+}
+
+function StatCard({ label, value, detail, tone = 0 }: { label: string, value: string, detail?: string, tone?: number }) {
+  return (
+    <div className="bg-alchemist-card border border-white/5 rounded-[2rem] p-6 space-y-2">
+      <p className="text-[9px] md:text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">{label}</p>
+      <p className={cn(
+        "text-2xl md:text-3xl font-serif font-bold tracking-tight",
+        tone > 0 ? "text-emerald-400" : tone < 0 ? "text-red-400" : "text-white"
+      )}>
+        {value}
+      </p>
+      {detail && <p className="text-[10px] font-serif italic text-gray-600">{detail}</p>}
+    </div>
+  );
+}
+
+function BreakdownTable({ title, groups }: { title: string, groups: StatsGroup[] }) {
+  const columns: [string, (stats: JournalStats) => string][] = [
+    ['Trades', s => String(s.trades)],
+    ['Win %', s => formatPercent(s.winRate)],
+    ['Avg R', s => formatR(s.averageR)],
+    ['PF', s => formatFactor(s.profitFactor)],
+  ];
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+      <div className="px-6 py-5 border-b border-alchemist-border">
+        <h3 className="text-sm font-bold uppercase tracking-widest text-gold">{title}</h3>
+      </div>
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="bg-white/5">
+            <th className="px-6 py-3 text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">Group</th>
+            {columns.map(([label]) => (
+              <th key={label} className="px-6 py-3 text-[11px] font-serif italic text-gray-500 uppercase tracking-widest text-right">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-alchemist-border">
+          {groups.map(({ key, stats }) => (
+            <tr key={key} className="hover:bg-white/5 transition-colors">
+              <td className="px-6 py-3 font-serif italic text-white font-bold tracking-wide">{key}</td>
+              {columns.map(([label, value]) => (
+                <td key={label} className="px-6 py-3 text-sm text-gray-400 text-right">{value(stats)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useRef, useState } from 'react';
+import { FlaskConical, Upload } from 'lucide-react';
+import { AmbiguityRule, BacktestResult, runBacktest, toOutcome } from '../lib/backtest';
+import { normalizeSymbol } from '../lib/instruments';
+import { OUTCOME_LABELS } from '../lib/outcomes';
+import { Candle, OhlcParseError, parseOhlcCsv } from '../lib/ohlc';
+import { OUTCOME_STYLES } from './OutcomeEditor';
+import { cn } from '../lib/utils';
+import { AnalysisResult } from '../types';
+
+const OFFSET_KEY = 'vertex_ohlc_utc_offset';
+// UTC-12 to UTC+14.
+const UTC_OFFSETS = Array.from({ length: 27 }, (_, i) => i - 12);
+
+const formatOffset = (hours: number) => (hours === 0 ? 'UTC' : `UTC${hours > 0 ? '+' : ''}${hours}`);
+
+const RULES: { value: AmbiguityRule, label: string }[] = [
+  { value: 'sl-first', label: 'SL first (conservative)' },
+  { value: 'tp-first', label: 'TP first' },
+  { value: 'nearest-open', label: 'Nearest to bar open' },
+];
+
+interface BacktestPanelProps {
+  history: AnalysisResult[];
+  onApply: (entries: AnalysisResult[]) => void;
+}
+
+export default function BacktestPanel({ history, onApply }: BacktestPanelProps) {
+  const pairs = useMemo(
+    () => [...new Set(history.map(entry => normalizeSymbol(entry.signal.pair)).filter(Boolean))].sort(),
+    [history]
+  );
+  const [pair, setPair] = useState(pairs[0] ?? '');
+  const [rule, setRule] = useState<AmbiguityRule>('sl-first');
+  // The broker's server time, which MT4/MT5 exports are in; kept for the next upload.
+  const [utcOffset, setUtcOffset] = useState(() => Number(localStorage.getItem(OFFSET_KEY)) || 0);
+  const [csvText, setCsvText] = useState('');
+  const [candles, setCandles] = useState<Candle[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [results, setResults] = useState<BacktestResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (text: string, offset: number) => {
+    setResults(null);
+    try {
+      setCandles(parseOhlcCsv(text, { utcOffsetHours: offset }));
+      setError(null);
+      return true;
+    } catch (err) {
+      setCandles(null);
+      setError(err instanceof OhlcParseError ? err.message : 'Could not read the CSV file.');
+      return false;
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    if (!load(text, utcOffset)) return;
+    setFileName(file.name);
+    // MT4/MT5 exports are usually named after the symbol, e.g. EURUSD60.csv.
+    const guessed = pairs.find(p => normalizeSymbol(file.name).startsWith(p));
+    if (guessed) setPair(guessed);
+  };
+
+  const changeOffset = (offset: number) => {
+    setUtcOffset(offset);
+    localStorage.setItem(OFFSET_KEY, String(offset));
+    if (csvText) load(csvText, offset);
+  };
+
+  const run = () => {
+    if (!candles || !pair) return;
+    setResults(runBacktest(history, pair, candles, rule));
+  };
+
+  const apply = () => {
+    if (!results) return;
+    onApply(results
+      .filter(result => !result.skipped)
+      .map(result => ({ ...result.entry, outcome: toOutcome(result, rule) })));
+    setResults(null);
+  };
+
+  if (pairs.length === 0) return null;
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 md:p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold uppercase tracking-widest text-gold flex items-center gap-2">
+          <FlaskConical className="w-4 h-4" /> Backtest From OHLC
+        </h3>
+        {candles && (
+          <span className="text-[11px] font-serif italic text-gray-500">
+            {fileName} // {candles.length} BARS
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full bg-white/5 hover:bg-gold/10 hover:border-gold/30 border border-white/5 py-3 rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 text-gray-400 hover:text-gold"
+        >
+          <Upload className="w-4 h-4" /> {candles ? 'REPLACE CSV' : 'UPLOAD CSV'}
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept=".csv,.txt,text/csv" />
+
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Pair</span>
+          <select
+            value={pair}
+            onChange={(e) => { setPair(e.target.value); setResults(null); }}
+            className="w-full bg-alchemist-card border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          >
+            {pairs.map(p => <option key={p}>{p}</option>)}
+          </select>
+        </label>
+
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">CSV Time Zone</span>
+          <select
+            value={utcOffset}
+            onChange={(e) => changeOffset(Number(e.target.value))}
+            title="MT4/MT5 exports are in the broker's server time, often UTC+2 or UTC+3. Timestamps that state their zone are not shifted."
+            className="w-full bg-alchemist-card border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          >
+            {UTC_OFFSETS.map(offset => <option key={offset} value={offset}>{formatOffset(offset)}</option>)}
+          </select>
+        </label>
+
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Same-Bar TP &amp; SL</span>
+          <select
+            value={rule}
+            onChange={(e) => { setRule(e.target.value as AmbiguityRule); setResults(null); }}
+            className="w-full bg-alchemist-card border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          >
+            {RULES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+        </label>
+
+        <button
+          onClick={run}
+          disabled={!candles}
+          className="w-full bg-gold hover:bg-gold/90 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed text-black font-bold py-3 rounded-xl transition-all text-xs tracking-widest uppercase"
+        >
+          Replay Signals
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+
+      {results && (
+        <div className="space-y-4">
+          {results.length === 0 ? (
+            <p className="text-[11px] font-serif italic text-gray-500">No open {pair} signals to replay.</p>
+          ) : (
+            <div className="divide-y divide-alchemist-border">
+              {results.map(result => (
+                <div key={result.entry.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-xs font-serif italic text-white">
+                      {result.entry.signal.action} @ {result.entry.signal.entry}
+                      <span className="ml-2 text-gray-600">{new Date(result.entry.timestamp).toLocaleString()}</span>
+                    </p>
+                    <p className="text-[10px] font-serif italic text-gray-600">
+                      {result.skipped ?? (result.exitTime !== undefined
+                        ? `${result.exitPrice ?? ''} at ${new Date(result.exitTime).toLocaleString()}${result.ambiguous ? ` // ${result.ambiguous === 'fill' ? 'fill-bar' : 'same-bar'}` : ''}`
+                        : 'No exit within the data')}
+                    </p>
+                  </div>
+                  <span className={cn(
+                    "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border shrink-0",
+                    result.skipped ? OUTCOME_STYLES.cancelled : OUTCOME_STYLES[result.status]
+                  )}>
+                    {result.skipped ? 'Skipped' : OUTCOME_LABELS[result.status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {results.some(result => !result.skipped) && (
+            <div className="flex justify-end">
+              <button onClick={apply} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold">
+                Write Results to Journal
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Check, RotateCw, X } from 'lucide-react';
+import { CropRect, prepareChartImage, Rotation, transformImage } from '../lib/image';
+
+interface CameraCaptureProps {
+  onCapture: (image: string) => void;
+  onClose: () => void;
+}
+
+// Full-screen camera for photographing a chart on another screen. After a
+// shot the user can rotate it and drag out a crop before it is used.
+export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [shot, setShot] = useState<string | null>(null);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number, y: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    if (shot) return;
+    let cancelled = false;
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 } } })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(() => setError('Camera access was denied or no camera is available.'));
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [shot]);
+
+  // The crop is drawn over the rotated preview, so it resets on every turn.
+  useEffect(() => {
+    if (!shot) return;
+    setCrop(null);
+    transformImage(shot, rotation).then(setPreview).catch(err => setError(err.message));
+  }, [shot, rotation]);
+
+  const takeShot = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    stopCamera();
+    setRotation(0);
+    setShot(canvas.toDataURL('image/png'));
+  };
+
+  const retake = () => {
+    setShot(null);
+    setPreview(null);
+    setCrop(null);
+    setError(null);
+  };
+
+  const confirm = async () => {
+    if (!shot) return;
+    try {
+      const large = crop && crop.width > 0.02 && crop.height > 0.02 ? crop : undefined;
+      onCapture(await prepareChartImage(await transformImage(shot, rotation, large)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const pointerFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = pointerFraction(e);
+    setDragStart(start);
+    setCrop({ ...start, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = pointerFraction(e);
+    setCrop({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col items-center justify-center p-4 gap-6">
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white" title="Close camera">
+        <X className="w-6 h-6" />
+      </button>
+
+      {!shot ? (
+        <video ref={videoRef} autoPlay playsInline muted className="max-h-[70vh] max-w-full rounded-2xl bg-alchemist-card" />
+      ) : preview && (
+        <div
+          className="relative max-h-[70vh] max-w-full touch-none select-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragStart(null)}
+        >
+          <img src={preview} alt="Captured chart" className="max-h-[70vh] max-w-full rounded-2xl block" draggable={false} />
+          {crop && (
+            <div
+              className="absolute border-2 border-gold bg-gold/10 pointer-events-none"
+              style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+            />
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm font-serif italic text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-6">
+        {!shot ? (
+          <button
+            onClick={takeShot}
+            disabled={!!error}
+            className="w-16 h-16 rounded-full bg-gold hover:bg-gold/90 disabled:bg-gray-800 text-black flex items-center justify-center"
+            title="Take photo"
+          >
+            <Camera className="w-7 h-7" />
+          </button>
+        ) : (
+          <>
+            <button onClick={retake} className="text-[11px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-white">
+              Retake
+            </button>
+            <button
+              onClick={() => setRotation(prev => ((prev + 90) % 360) as Rotation)}
+              className="text-[11px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-white flex items-center gap-2"
+            >
+              <RotateCw className="w-4 h-4" /> Rotate
+            </button>
+            <button
+              onClick={confirm}
+              className="px-6 py-3 rounded-xl bg-gold hover:bg-gold/90 text-black text-xs font-bold tracking-widest uppercase flex items-center gap-2"
+            >
+              <Check className="w-4 h-4" /> {crop && crop.width > 0.02 ? 'Use Crop' : 'Use Photo'}
+            </button>
+          </>
+        )}
+      </div>
+      {shot && <p className="text-[10px] font-serif italic text-gray-600 uppercase tracking-widest">Drag over the photo to crop</p>}
+    </div>
+  );
+}
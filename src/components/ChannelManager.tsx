@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bell, Plus, Send, Trash2 } from 'lucide-react';
+import * as api from '../services/api';
+import { ACTIONS, CHANNEL_TYPES, checkChannel, NO_FILTERS } from '../lib/channels';
+import { cn } from '../lib/utils';
+import { ChannelType, Delivery, NotificationChannel } from '../types';
+
+interface Draft extends api.ChannelFields {
+  // Comma-separated, as typed; split into filters.pairs on save.
+  pairsText: string;
+}
+
+const newDraft = (type: ChannelType = 'telegram'): Draft => ({
+  name: '',
+  type,
+  enabled: true,
+  config: {},
+  filters: NO_FILTERS,
+  pairsText: '',
+});
+
+// Secret fields start blank; the stored value is kept unless one is typed.
+const toDraft = (channel: NotificationChannel): Draft => ({
+  name: channel.name,
+  type: channel.type,
+  enabled: channel.enabled,
+  config: Object.fromEntries(CHANNEL_TYPES[channel.type].fields.map(field => [field.key, field.secret ? '' : channel.config[field.key] ?? ''])),
+  filters: { ...channel.filters },
+  pairsText: channel.filters.pairs.join(', '),
+});
+
+const toFields = ({ pairsText, ...draft }: Draft): api.ChannelFields => ({
+  ...draft,
+  filters: { ...draft.filters, pairs: pairsText.split(',').map(pair => pair.trim()).filter(Boolean) },
+});
+
+const inputClass = "w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none";
+const labelClass = "text-[9px] font-serif italic text-gray-500 uppercase tracking-widest";
+
+export default function ChannelManager() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  // Null while adding a new channel.
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(newDraft());
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = channels.find(channel => channel.id === selectedId) ?? null;
+  const problems = useMemo(() => {
+    const fields = toFields(draft);
+    // Blank secrets on an existing channel keep the stored value.
+    const config = selected
+      ? Object.fromEntries(Object.entries(fields.config).map(([key, value]) => [key, value || selected.config[key]]))
+      : fields.config;
+    return checkChannel({ ...fields, config });
+  }, [draft, selected]);
+
+  const names = useMemo(() => new Map(channels.map(channel => [channel.id, channel.name])), [channels]);
+
+  const refresh = async (keepId?: string | null) => {
+    const [list, log] = await Promise.all([api.listChannels(), api.listDeliveries()]);
+    setChannels(list);
+    setDeliveries(log);
+    const next = list.find(channel => channel.id === keepId);
+    if (next) select(next);
+  };
+
+  const select = (channel: NotificationChannel) => {
+    setSelectedId(channel.id);
+    setDraft(toDraft(channel));
+    setNotice(null);
+  };
+
+  const startNew = () => {
+    setSelectedId(null);
+    setDraft(newDraft());
+    setNotice(null);
+  };
+
+  useEffect(() => {
+    refresh().catch(err => setError(err.message));
+  }, []);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await refresh(await action());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = () => run(async () => (
+    selected
+      ? await api.updateChannel(selected.id, toFields(draft))
+      : await api.createChannel(toFields(draft))
+  ).id);
+
+  const remove = () => run(async () => {
+    await api.deleteChannel(selectedId!);
+    startNew();
+    return null;
+  });
+
+  const sendTest = () => run(async () => {
+    const delivery = await api.testChannel(selectedId!);
+    setNotice(delivery.status === 'sent' ? 'Test message sent.' : `Test message failed: ${delivery.error}`);
+    return selectedId;
+  });
+
+  const toggleAction = (action: NotificationChannel['filters']['actions'][number]) =>
+    setDraft(prev => ({
+      ...prev,
+      filters: {
+        ...prev.filters,
+        actions: prev.filters.actions.includes(action)
+          ? prev.filters.actions.filter(a => a !== action)
+          : [...prev.filters.actions, action],
+      },
+    }));
+
+  const visibleDeliveries = selectedId ? deliveries.filter(delivery => delivery.channelId === selectedId) : deliveries;
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+      <div className="p-8 border-b border-alchemist-border flex items-center justify-between">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-white flex items-center gap-2">
+          <Bell className="w-4 h-4 text-gold" /> Notification Channels
+        </h2>
+        <span className="text-[11px] font-serif italic text-gray-500">{channels.length} CHANNELS</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4">
+        <div className="lg:col-span-1 border-b lg:border-b-0 lg:border-r border-alchemist-border divide-y divide-alchemist-border">
+          {channels.map(channel => (
+            <button
+              key={channel.id}
+              onClick={() => select(channel)}
+              className={cn(
+                "w-full text-left px-6 py-4 transition-colors",
+                channel.id === selectedId ? "bg-gold/5" : "hover:bg-white/5"
+              )}
+            >
+              <p className={cn("text-sm font-serif italic", channel.enabled ? "text-white" : "text-gray-600 line-through")}>{channel.name}</p>
+              <p className="text-[10px] font-serif italic text-gray-600">{CHANNEL_TYPES[channel.type].label}</p>
+            </button>
+          ))}
+          <button
+            onClick={startNew}
+            className={cn(
+              "w-full text-left px-6 py-4 text-[10px] font-serif italic uppercase tracking-widest flex items-center gap-1 transition-colors",
+              selectedId === null ? "bg-gold/5 text-gold" : "text-gold/70 hover:text-gold"
+            )}
+          >
+            <Plus className="w-3 h-3" /> New Channel
+          </button>
+        </div>
+
+        <div className="lg:col-span-3 p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <label className="space-y-1 block">
+              <span className={labelClass}>Name</span>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. VIP Telegram" className={inputClass} />
+            </label>
+            <label className="space-y-1 block">
+              <span className={labelClass}>Type</span>
+              <select
+                value={draft.type}
+                disabled={selected !== null}
+                onChange={(e) => setDraft({ ...draft, type: e.target.value as ChannelType, config: {} })}
+                className={cn(inputClass, "bg-alchemist-card disabled:text-gray-500")}
+              >
+                {(Object.keys(CHANNEL_TYPES) as ChannelType[]).map(type => (
+                  <option key={type} value={type}>{CHANNEL_TYPES[type].label}</option>
+                ))}
+              </select>
+            </label>
+            {CHANNEL_TYPES[draft.type].fields.map(field => (
+              <label key={field.key} className="space-y-1 block">
+                <span className={labelClass}>{field.label}</span>
+                <input
+                  type={field.secret ? 'password' : 'text'}
+                  value={draft.config[field.key] ?? ''}
+                  onChange={(e) => setDraft({ ...draft, config: { ...draft.config, [field.key]: e.target.value } })}
+                  placeholder={field.secret && selected?.config[field.key] ? `${selected.config[field.key]} (unchanged)` : field.placeholder}
+                  autoComplete="off"
+                  className={cn(inputClass, "font-mono text-xs")}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <span className={labelClass}>Send only</span>
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="flex gap-2">
+                {ACTIONS.map(action => (
+                  <button
+                    key={action}
+                    onClick={() => toggleAction(action)}
+                    className={cn(
+                      "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border transition-colors",
+                      draft.filters.actions.includes(action) ? "border-gold/40 text-gold bg-gold/5" : "border-white/5 text-gray-500 hover:text-gold"
+                    )}
+                  >
+                    {action}
+                  </button>
+                ))}
+              </div>
+              <label className="space-y-1 block w-40">
+                <span className={labelClass}>Min confidence %</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.filters.minConfidence ?? ''}
+                  onChange={(e) => setDraft({ ...draft, filters: { ...draft.filters, minConfidence: e.target.value === '' ? null : Number(e.target.value) } })}
+                  placeholder="Any"
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1 block flex-1 min-w-48">
+                <span className={labelClass}>Pairs</span>
+                <input
+                  value={draft.pairsText}
+                  onChange={(e) => setDraft({ ...draft, pairsText: e.target.value })}
+                  placeholder="All pairs, or e.g. EURUSD, XAUUSD"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <p className="text-[11px] font-serif italic text-gray-600">No actions selected sends every action.</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-serif italic text-gray-400">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })} className="accent-[#C5A059]" />
+            Enabled
+          </label>
+
+          {problems.length > 0 && (
+            <ul className="space-y-1">
+              {problems.map(problem => (
+                <li key={problem} className="text-[11px] font-serif italic text-red-400/80">{problem}</li>
+              ))}
+            </ul>
+          )}
+          {notice && <p className="text-[11px] font-serif italic text-gold/80">{notice}</p>}
+          {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+
+          <div className="flex flex-wrap justify-between items-center gap-4 pt-4 border-t border-white/5">
+            <div className="flex gap-4">
+              {selected && (
+                <>
+                  <button onClick={sendTest} disabled={isSaving} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-1 disabled:opacity-40">
+                    <Send className="w-3 h-3" /> Send Test
+                  </button>
+                  <button onClick={remove} disabled={isSaving} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-red-400 flex items-center gap-1 disabled:opacity-40">
+                    <Trash2 className="w-3 h-3" /> Delete
+                  </button>
+                </>
+              )}
+            </div>
+            <button onClick={save} disabled={isSaving || problems.length > 0} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40">
+              {selected ? 'Save Changes' : 'Add Channel'}
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Delivery log{selected ? ` // ${selected.name}` : ''}</span>
+            {visibleDeliveries.length === 0 ? (
+              <p className="text-[11px] font-serif italic text-gray-600">Nothing sent yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto divide-y divide-alchemist-border">
+                {visibleDeliveries.map(delivery => (
+                  <div key={delivery.id} className="py-2 grid grid-cols-12 gap-3 text-[11px] font-serif italic text-gray-400">
+                    <span className="col-span-3 text-gray-600">{new Date(delivery.at).toLocaleString()}</span>
+                    <span className="col-span-2 truncate">{names.get(delivery.channelId) ?? 'Deleted channel'}</span>
+                    <span className="col-span-2">{delivery.analysisId ? delivery.pair : 'Test'}</span>
+                    <span className={cn("col-span-1 uppercase", delivery.status === 'sent' ? "text-emerald-500" : "text-red-400")}>{delivery.status}</span>
+                    <span className="col-span-4 truncate text-gray-600" title={delivery.error ?? undefined}>
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}{delivery.error ? ` // ${delivery.error}` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Crosshair, Download, Layers, RotateCcw, Save } from 'lucide-react';
+import { drawAnnotations, hitLevel, levelLabel, renderAnnotatedImage } from '../lib/annotations';
+import { CalibrationError, checkLevels, createCalibration, modelCalibration, roundToPip, snapLevels, yToPrice } from '../lib/calibration';
+import { cn } from '../lib/utils';
+import { ChartAnnotations } from '../types';
+
+// Stored copies are kept small, as JPEG; downloads use the full resolution.
+const SAVED_MAX_DIM = 800;
+const SAVED_QUALITY = 0.85;
+// How close, in screen pixels, a pointer must be to grab a line.
+const GRAB_PX = 8;
+
+interface PendingPoint {
+  y: number;
+  price: string;
+}
+
+interface ChartAnnotatorProps {
+  image: string;
+  annotations: ChartAnnotations;
+  pipSize: number;
+  fileName: string;
+  onSave: (annotations: ChartAnnotations, annotatedImage: string) => void;
+  // Called with levels snapped to the calibrated axis, to correct the signal.
+  onSnap: (annotations: ChartAnnotations) => void;
+}
+
+// Draws the model's levels and zones over the chart. Level lines can be
+// dragged to where they really belong before saving or downloading, and two
+// y-axis labels calibrate the image so prices can be checked and snapped.
+export default function ChartAnnotator({ image, annotations: initial, pipSize, fileName, onSave, onSnap }: ChartAnnotatorProps) {
+  const [annotations, setAnnotations] = useState(initial);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [pending, setPending] = useState<PendingPoint[] | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { calibration } = annotations;
+  const suggested = useMemo(() => modelCalibration(annotations), [annotations.axis]);
+  const checks = useMemo(
+    () => (calibration ? checkLevels(annotations, calibration, pipSize) : []),
+    [annotations, calibration, pipSize]
+  );
+  const markers = pending ? pending.map(point => point.y) : calibration?.points.map(point => point.y) ?? [];
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || canvas.width === 0) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, annotations, { activeIndex: dragIndex ?? hoverIndex ?? undefined, markers });
+  };
+
+  useEffect(redraw, [annotations, dragIndex, hoverIndex, pending]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    redraw();
+  };
+
+  const update = (next: ChartAnnotations) => {
+    setAnnotations(next);
+    setIsDirty(true);
+  };
+
+  // Pointer position as a fraction of the displayed height.
+  const pointerY = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)), tolerance: GRAB_PX / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { y, tolerance } = pointerY(e);
+    if (pending) {
+      if (pending.length < 2) setPending([...pending, { y, price: '' }]);
+      return;
+    }
+    const index = hitLevel(annotations, y, tolerance);
+    if (index === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { y, tolerance } = pointerY(e);
+    if (dragIndex === null) {
+      setHoverIndex(pending ? null : hitLevel(annotations, y, tolerance));
+      return;
+    }
+    // Once calibrated, a dragged line takes the axis price at its new height.
+    update({
+      ...annotations,
+      levels: annotations.levels.map((level, i) => (i === dragIndex
+        ? { ...level, y, adjusted: true, price: calibration ? roundToPip(yToPrice(calibration, y), pipSize) : level.price }
+        : level)),
+    });
+  };
+
+  const endDrag = () => setDragIndex(null);
+
+  const applyCalibration = () => {
+    if (!pending || pending.length < 2) return;
+    try {
+      const [a, b] = pending.map(point => ({ y: point.y, price: Number(point.price.replace(/,/g, '')) }));
+      update({ ...annotations, calibration: createCalibration(a, b) });
+      setPending(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof CalibrationError ? err.message : 'Could not calibrate the axis.');
+    }
+  };
+
+  const snap = () => {
+    if (!calibration) return;
+    const snapped = snapLevels(annotations, calibration, pipSize);
+    setAnnotations(snapped);
+    onSnap(snapped);
+  };
+
+  const reset = () => {
+    setAnnotations(initial);
+    setPending(null);
+    setIsDirty(false);
+  };
+
+  const download = async () => {
+    try {
+      const link = document.createElement('a');
+      link.href = await renderAnnotatedImage(image, annotations);
+      link.download = `${fileName}.png`;
+      link.click();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const save = async () => {
+    try {
+      onSave(annotations, await renderAnnotatedImage(image, annotations, SAVED_MAX_DIM, SAVED_QUALITY));
+      setIsDirty(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 md:p-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold uppercase tracking-[0.2em] text-gold flex items-center gap-2">
+          <Layers className="w-4 h-4" /> Chart Overlay {annotations.chart && annotations.chart !== 'AUTO' && `// ${annotations.chart}`}
+        </h4>
+        <span className="text-[10px] font-serif italic text-gray-600">
+          {pending ? 'Click two price labels on the y-axis' : 'Drag a line to correct it'}
+        </span>
+      </div>
+
+      <div className="relative rounded-2xl overflow-hidden bg-alchemist-bg/50 select-none">
+        <img src={image} alt="Annotated chart" onLoad={handleImageLoad} className="w-full block" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onPointerLeave={() => setHoverIndex(null)}
+          className="absolute inset-0 w-full h-full touch-none"
+          style={{ cursor: pending ? 'crosshair' : dragIndex !== null || hoverIndex !== null ? 'row-resize' : 'default' }}
+        />
+      </div>
+
+      {pending ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            {[0, 1].map(i => (
+              <label key={i} className="space-y-1 block">
+                <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">
+                  {pending[i] ? `Label ${i + 1} price` : `Click label ${i + 1}`}
+                </span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  disabled={!pending[i]}
+                  value={pending[i]?.price ?? ''}
+                  onChange={(e) => setPending(pending.map((point, j) => (j === i ? { ...point, price: e.target.value } : point)))}
+                  className="w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none disabled:opacity-30"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-6">
+            <button onClick={() => setPending(null)} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-gray-400">
+              Cancel
+            </button>
+            <button
+              onClick={applyCalibration}
+              disabled={pending.length < 2 || pending.some(point => !point.price)}
+              className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40"
+            >
+              Apply Calibration
+            </button>
+          </div>
+        </div>
+      ) : calibration ? (
+        <div className="space-y-2">
+          <p className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">
+            Axis Check // {calibration.source === 'model' ? 'labels read by the model' : 'calibrated by hand'}
+          </p>
+          <div className="divide-y divide-alchemist-border">
+            {checks.map(check => (
+              <div key={check.index} className="py-2 flex items-center justify-between text-xs font-serif italic">
+                <span className="text-gray-300">{levelLabel(check.level)}</span>
+                <span className={cn(check.mismatch ? "text-red-400" : "text-gray-500")}>
+                  axis {check.axisPrice}
+                  {check.offsetPips !== null && ` // ${check.offsetPips > 0 ? '+' : ''}${check.offsetPips} pips`}
+                  {check.mismatch && ' // line and price disagree'}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-6">
+            <button onClick={() => setPending([])} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-gray-400">
+              Recalibrate
+            </button>
+            <button onClick={snap} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold">
+              Snap Prices to Axis
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end gap-6">
+          {suggested && (
+            <button
+              onClick={() => update({ ...annotations, calibration: suggested })}
+              className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold"
+            >
+              Use Axis Read by Model
+            </button>
+          )}
+          <button
+            onClick={() => setPending([])}
+            className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-1"
+          >
+            <Crosshair className="w-3 h-3" /> Calibrate Axis
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+
+      <div className="flex justify-end gap-6 pt-4 border-t border-white/5">
+        {isDirty && (
+          <button onClick={reset} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-gray-400 flex items-center gap-1">
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+        )}
+        <button onClick={download} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-1">
+          <Download className="w-3 h-3" /> Download PNG
+        </button>
+        <button onClick={save} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold flex items-center gap-1">
+          <Save className="w-3 h-3" /> Save to Journal
+        </button>
+      </div>
+    </section>
+  );
+}
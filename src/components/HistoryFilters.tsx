@@ -0,0 +1,104 @@
+import { Search, X } from 'lucide-react';
+import { HistoryQuery, isEmptyQuery } from '../lib/historyQuery';
+import { OUTCOME_LABELS, OUTCOME_STATUSES } from '../lib/outcomes';
+import { OutcomeStatus, TradingSignal } from '../types';
+
+const inputClass = "w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none";
+const selectClass = "w-full bg-alchemist-card border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none";
+const labelClass = "text-[9px] font-serif italic text-gray-500 uppercase tracking-widest";
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+interface HistoryFiltersProps {
+  query: HistoryQuery;
+  onChange: (query: HistoryQuery) => void;
+}
+
+export default function HistoryFilters({ query, onChange }: HistoryFiltersProps) {
+  const set = (changes: HistoryQuery) => onChange({ ...query, ...changes });
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 space-y-6">
+      <div className="flex items-center gap-3 border-b border-white/10 focus-within:border-gold/30">
+        <Search className="w-4 h-4 text-gray-600" />
+        <input
+          value={query.search ?? ''}
+          onChange={(e) => set({ search: e.target.value })}
+          placeholder="Search reasoning, technical and macro notes..."
+          className="flex-1 bg-transparent py-2 text-sm text-white font-serif italic outline-none placeholder:text-gray-700"
+        />
+        {!isEmptyQuery(query) && (
+          <button
+            onClick={() => onChange({})}
+            className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-gray-400 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" /> Reset
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-4">
+        <label className="space-y-1 block">
+          <span className={labelClass}>Pair</span>
+          <input value={query.pair ?? ''} onChange={(e) => set({ pair: e.target.value })} placeholder="Any" className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Action</span>
+          <select
+            value={query.action ?? ''}
+            onChange={(e) => set({ action: (e.target.value || undefined) as TradingSignal['action'] | undefined })}
+            className={selectClass}
+          >
+            <option value="">Any</option>
+            {['BUY', 'SELL', 'NEUTRAL'].map(action => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Min Confidence</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={query.minConfidence ?? ''}
+            onChange={(e) => set({ minConfidence: toNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Max Confidence</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={query.maxConfidence ?? ''}
+            onChange={(e) => set({ maxConfidence: toNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>From</span>
+          <input type="date" value={query.from ?? ''} onChange={(e) => set({ from: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>To</span>
+          <input type="date" value={query.to ?? ''} onChange={(e) => set({ to: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className={labelClass}>Outcome</span>
+          <select
+            value={query.outcome ?? ''}
+            onChange={(e) => set({ outcome: (e.target.value || undefined) as OutcomeStatus | undefined })}
+            className={selectClass}
+          >
+            <option value="">Any</option>
+            {OUTCOME_STATUSES.map(status => (
+              <option key={status} value={status}>{OUTCOME_LABELS[status]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </section>
+  );
+}
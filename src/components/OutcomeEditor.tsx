@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { CLOSED_STATUSES, OUTCOME_LABELS, OUTCOME_STATUSES } from '../lib/outcomes';
+import { cn } from '../lib/utils';
+import { OutcomeStatus, TradeOutcome } from '../types';
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const OUTCOME_STYLES: Record<OutcomeStatus, string> = {
+  pending: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
+  triggered: 'bg-gold/10 text-gold border-gold/20',
+  tp_hit: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  sl_hit: 'bg-red-500/10 text-red-400 border-red-500/20',
+  cancelled: 'bg-gray-500/5 text-gray-600 border-gray-500/10',
+  closed: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+};
+
+interface OutcomeEditorProps {
+  outcome: TradeOutcome;
+  onSave: (outcome: TradeOutcome) => void;
+  onCancel: () => void;
+}
+
+export default function OutcomeEditor({ outcome, onSave, onCancel }: OutcomeEditorProps) {
+  const [status, setStatus] = useState(outcome.status);
+  const [exitPrice, setExitPrice] = useState(outcome.exitPrice?.toString() ?? '');
+  const [exitTime, setExitTime] = useState(toLocalInput(outcome.exitTime));
+  const [notes, setNotes] = useState(outcome.notes ?? '');
+
+  const isClosed = CLOSED_STATUSES.includes(status);
+
+  const save = () => {
+    const price = Number(exitPrice);
+    onSave({
+      status,
+      exitPrice: isClosed && exitPrice && Number.isFinite(price) ? price : undefined,
+      exitTime: isClosed ? (exitTime ? new Date(exitTime) : new Date()).toISOString() : undefined,
+      notes: notes.trim() || undefined,
+      source: 'manual',
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-white/5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap gap-2">
+        {OUTCOME_STATUSES.map(option => (
+          <button
+            key={option}
+            onClick={() => setStatus(option)}
+            className={cn(
+              "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border transition-all",
+              status === option ? OUTCOME_STYLES[option] : "border-white/5 text-gray-600 hover:text-gray-400"
+            )}
+          >
+            {OUTCOME_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {isClosed && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1 block">
+            <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Exit Price</span>
+            <input
+              type="number"
+              step="any"
+              value={exitPrice}
+              onChange={(e) => setExitPrice(e.target.value)}
+              className="w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none"
+            />
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Exit Time</span>
+            <input
+              type="datetime-local"
+              value={exitTime}
+              onChange={(e) => setExitTime(e.target.value)}
+              className="w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none [color-scheme:dark]"
+            />
+          </label>
+        </div>
+      )}
+
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Journal notes"
+        rows={2}
+        className="w-full bg-white/[0.02] border border-white/5 rounded-xl p-3 text-xs text-gray-300 font-serif italic focus:border-gold/30 outline-none resize-none"
+      />
+
+      <div className="flex justify-end gap-4">
+        <button onClick={onCancel} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-gray-400">
+          Cancel
+        </button>
+        <button onClick={save} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold">
+          Save Outcome
+        </button>
+      </div>
+    </div>
+  );
+}
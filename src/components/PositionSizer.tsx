@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import { Calculator, Check } from 'lucide-react';
+import { calculatePositionSize, PositionSizeError } from '../lib/positionSize';
+import { cn } from '../lib/utils';
+import { PositionSize, PositionSizeInput, SignalLevels, TradingSignal } from '../types';
+
+const ACCOUNT_KEY = 'vertex_account';
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF', 'NZD'];
+
+// Last used account settings, so the desk doesn't retype its balance per signal.
+const loadAccount = (): PositionSizeInput => {
+  try {
+    const saved = localStorage.getItem(ACCOUNT_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error(e);
+  }
+  return { balance: 10000, accountCurrency: 'USD', riskPercent: 1 };
+};
+
+interface PositionSizerProps {
+  signal: TradingSignal;
+  levels: SignalLevels;
+  saved?: PositionSize;
+  onSave: (position: PositionSize) => void;
+}
+
+export default function PositionSizer({ signal, levels, saved, onSave }: PositionSizerProps) {
+  const [input, setInput] = useState<PositionSizeInput>(() => saved ?? loadAccount());
+  const [isSaved, setIsSaved] = useState(!!saved);
+
+  const update = (changes: Partial<PositionSizeInput>) => {
+    setInput(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  const { position, error } = useMemo(() => {
+    try {
+      return { position: calculatePositionSize(signal, levels, input), error: null };
+    } catch (err) {
+      if (err instanceof PositionSizeError) return { position: null, error: err.message };
+      throw err;
+    }
+  }, [signal, levels, input]);
+
+  if (signal.action === 'NEUTRAL') return null;
+
+  const needsRate = error?.includes('conversion rate') || input.conversionRate !== undefined;
+  const money = (value: number) => `${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${input.accountCurrency}`;
+
+  const save = () => {
+    if (!position) return;
+    const { balance, accountCurrency, riskPercent } = input;
+    localStorage.setItem(ACCOUNT_KEY, JSON.stringify({ balance, accountCurrency, riskPercent }));
+    onSave(position);
+    setIsSaved(true);
+  };
+
+  return (
+    <div className="p-6 bg-white/[0.02] rounded-[2rem] border border-white/5 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-gold">
+          <Calculator className="w-4 h-4" />
+          <h4 className="text-xs font-serif italic font-bold uppercase tracking-[0.2em]">Position Size</h4>
+        </div>
+        <button
+          onClick={save}
+          disabled={!position || isSaved}
+          className="flex items-center gap-2 text-[10px] font-serif italic uppercase tracking-widest text-gold/60 hover:text-gold disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaved && <Check className="w-3 h-3" />}
+          {isSaved ? 'Saved to Journal' : 'Save to Journal'}
+        </button>
+      </div>
+
+      <div className={cn("grid gap-4", needsRate ? "grid-cols-2 md:grid-cols-4" : "grid-cols-3")}>
+        <SizerField label="Balance">
+          <input
+            type="number"
+            min={0}
+            value={input.balance}
+            onChange={(e) => update({ balance: Number(e.target.value) })}
+            className="w-full bg-transparent border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          />
+        </SizerField>
+        <SizerField label="Currency">
+          <select
+            value={input.accountCurrency}
+            onChange={(e) => update({ accountCurrency: e.target.value })}
+            className="w-full bg-alchemist-card border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          >
+            {CURRENCIES.map(currency => <option key={currency}>{currency}</option>)}
+          </select>
+        </SizerField>
+        <SizerField label="Risk %">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.25}
+            value={input.riskPercent}
+            onChange={(e) => update({ riskPercent: Number(e.target.value) })}
+            className="w-full bg-transparent border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+          />
+        </SizerField>
+        {needsRate && (
+          <SizerField label="Quote Rate">
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={input.conversionRate ?? ''}
+              onChange={(e) => update({ conversionRate: e.target.value ? Number(e.target.value) : undefined })}
+              className="w-full bg-transparent border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+            />
+          </SizerField>
+        )}
+      </div>
+
+      {position ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <SizerResult label="Lot Size" value={position.lots.toFixed(2)} />
+          <SizerResult label="At Risk" value={money(position.riskAmount)} className="text-red-400" />
+          {position.targets.map((target, i) => (
+            <SizerResult
+              key={i}
+              label={position.targets.length > 1 ? `At TP${i + 1}` : 'At TP'}
+              value={money(target)}
+              className="text-emerald-400"
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-[11px] font-serif italic text-gray-500">{error}</p>
+      )}
+    </div>
+  );
+}
+
+function SizerField({ label, children }: { label: string, children: React.ReactNode }) {
+  return (
+    <label className="space-y-1 block">
+      <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function SizerResult({ label, value, className }: { label: string, value: string, className?: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">{label}</p>
+      <p className={cn("text-lg font-serif font-bold tracking-tight text-white", className)}>{value}</p>
+    </div>
+  );
+}
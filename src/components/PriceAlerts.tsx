@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { BellRing } from 'lucide-react';
+import * as api from '../services/api';
+import { OUTCOME_LABELS } from '../lib/outcomes';
+import { ACTIVE_ALERT_STATUSES, ALERT_LEVEL_LABELS, alertLevels, describeAlertEvent } from '../lib/priceAlerts';
+import { AlertEvent, AnalysisResult, PriceAlert, PriceFeedStatus } from '../types';
+
+interface PriceAlertsProps {
+  analysis: AnalysisResult;
+  // The latest event from the live stream; the panel reloads when it is for
+  // this analysis.
+  lastEvent: AlertEvent | null;
+}
+
+const canNotify = () => 'Notification' in window;
+
+// Arms server-side alerts on the signal's entry, TP1 and SL, and shows where
+// the trade stands and each level crossed so far.
+export default function PriceAlerts({ analysis, lastEvent }: PriceAlertsProps) {
+  const [alert, setAlert] = useState<PriceAlert | null>(null);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [feed, setFeed] = useState<PriceFeedStatus | null>(null);
+  const [permission, setPermission] = useState(() => (canNotify() ? Notification.permission : 'denied'));
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const levels = alertLevels(analysis.signal);
+  const eventKey = lastEvent?.analysisId === analysis.id ? lastEvent.id : null;
+
+  useEffect(() => {
+    Promise.all([api.listAlerts(), api.listAlertEvents(), api.fetchPriceFeed()])
+      .then(([alerts, allEvents, status]) => {
+        // The newest, in case an earlier one was disarmed or finished.
+        setAlert(alerts.find(item => item.analysisId === analysis.id) ?? null);
+        setEvents(allEvents.filter(event => event.analysisId === analysis.id));
+        setFeed(status);
+      })
+      .catch(err => setError(err.message));
+  }, [analysis.id, eventKey]);
+
+  const arm = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setAlert(await api.armAlert(analysis));
+      setEvents([]);
+      // Asked here, while the user is clicking, as browsers require.
+      if (canNotify() && Notification.permission === 'default') {
+        setPermission(await Notification.requestPermission());
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setIsBusy(false);
+  };
+
+  const disarm = async () => {
+    if (!alert) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await api.disarmAlert(alert.id);
+      setAlert(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setIsBusy(false);
+  };
+
+  const isActive = alert !== null && ACTIVE_ALERT_STATUSES.includes(alert.status);
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 md:p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h4 className="text-sm font-bold uppercase tracking-[0.2em] text-gold flex items-center gap-2">
+          <BellRing className="w-4 h-4" /> Price Alerts
+        </h4>
+        {typeof levels !== 'string' && (
+          isActive ? (
+            <button
+              onClick={disarm}
+              disabled={isBusy}
+              className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-red-400 disabled:opacity-40"
+            >
+              Disarm
+            </button>
+          ) : (
+            <button
+              onClick={arm}
+              disabled={isBusy}
+              className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40"
+            >
+              {alert ? 'Arm Again' : 'Arm Alerts'}
+            </button>
+          )
+        )}
+      </div>
+
+      {typeof levels === 'string' ? (
+        <p className="text-[11px] font-serif italic text-gray-500">{levels}</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-4">
+          {(['entry', 'tp', 'sl'] as const).map(level => (
+            <div key={level} className="space-y-1">
+              <p className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">{ALERT_LEVEL_LABELS[level]}</p>
+              <p className="text-sm font-mono text-white">{(alert ?? levels)[level]}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {alert && (
+        <p className="text-[11px] font-serif italic text-gray-400">
+          {isActive ? 'Armed' : 'Finished'} // {OUTCOME_LABELS[alert.status]}. The journal is updated as levels are crossed.
+        </p>
+      )}
+
+      {events.length > 0 && (
+        <ul className="space-y-1">
+          {events.map(event => (
+            <li key={event.id} className="text-[11px] font-serif italic text-gray-400">
+              <span className="text-gray-600">{new Date(event.at).toLocaleString()}</span> {describeAlertEvent(event)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {feed && !feed.source && (
+        <p className="text-[11px] font-serif italic text-amber-400/80">No price feed is configured on the server, so alerts will not fire yet.</p>
+      )}
+      {feed?.source && (
+        <p className="text-[11px] font-serif italic text-gray-600">
+          Prices from {feed.source}{feed.lastTickAt ? `; last tick ${new Date(feed.lastTickAt).toLocaleTimeString()}` : '; no ticks yet'}.
+        </p>
+      )}
+      {isActive && permission === 'default' && (
+        <button
+          onClick={async () => setPermission(await Notification.requestPermission())}
+          className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold"
+        >
+          Enable Browser Notifications
+        </button>
+      )}
+      {isActive && permission === 'denied' && canNotify() && (
+        <p className="text-[11px] font-serif italic text-gray-600">Browser notifications are blocked; alerts still show here while the app is open.</p>
+      )}
+
+      {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Activity, BellRing, Clock, Download, FileText, Globe, Link2, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import Markdown from 'react-markdown';
+import * as imageStore from '../services/imageStore';
+import { applyLevelPrices } from '../lib/calibration';
+import { downloadJson, historyToJson } from '../lib/historyExport';
+import { getLevels } from '../lib/priceLevels';
+import { getMethods } from '../lib/promptTemplate';
+import { navigate } from '../lib/router';
+import { cn } from '../lib/utils';
+import { AlertEvent, AnalysisResult, ChartAnnotations, ChartInput, PositionSize } from '../types';
+import { SignalLevelsGrid, TECH_ICONS, TechCard, TimeframeCard } from './AnalysisCards';
+import ChartAnnotator from './ChartAnnotator';
+import PositionSizer from './PositionSizer';
+import PriceAlerts from './PriceAlerts';
+import ShareLinks from './ShareLinks';
+
+interface ResultViewProps {
+  result: AnalysisResult;
+  // Full-size source charts, once loaded.
+  sourceCharts: ChartInput[] | null;
+  // The full-size chart the overlay is drawn on, if on hand.
+  entryChart?: string;
+  // The saved overlay image.
+  overlayImage?: string;
+  lastAlertEvent: AlertEvent | null;
+  // Shows and stores a change to the entry; reports its own errors.
+  onUpdate: (entry: AnalysisResult) => Promise<void>;
+  onOverlaySaved: (resultId: string, image: string) => void;
+  onError: (message: string) => void;
+}
+
+// A finished or reopened analysis, with its charts, overlay and tools.
+export default function ResultView({
+  result, sourceCharts, entryChart, overlayImage, lastAlertEvent, onUpdate, onOverlaySaved, onError,
+}: ResultViewProps) {
+  const [isSharing, setIsSharing] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+
+  // The report uses the best chart on hand: the saved overlay, then the
+  // full-size entry chart, then its thumbnail.
+  const exportPdf = async () => {
+    try {
+      const overlay = overlayImage
+        ?? (result.annotatedImagePath ? await imageStore.loadChartImage(result.annotatedImagePath).catch(() => undefined) : undefined);
+      const chartImage = overlay ?? sourceCharts?.[sourceCharts.length - 1]?.image ?? entryChart;
+      // jsPDF is large, so it is only loaded when someone exports.
+      const { downloadPdfReport } = await import('../lib/pdfReport');
+      downloadPdfReport(result, { chartImage });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const savePosition = (position: PositionSize) => {
+    onUpdate({ ...result, position });
+  };
+
+  // The flattened overlay goes to image storage and the entry keeps its path;
+  // the overlay it replaces is removed afterwards.
+  const saveAnnotations = async (annotations: ChartAnnotations, annotatedImage: string) => {
+    try {
+      const annotatedImagePath = await imageStore.saveAnnotatedImage(result.id, annotatedImage);
+      onOverlaySaved(result.id, annotatedImage);
+      await onUpdate({ ...result, annotations, annotatedImage: undefined, annotatedImagePath });
+      if (result.annotatedImagePath) await imageStore.deleteChartImage(result.annotatedImagePath);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const snapToAxis = (annotations: ChartAnnotations) => {
+    onUpdate({ ...result, annotations, signal: applyLevelPrices(result.signal, annotations) });
+  };
+
+  return (
+    <>
+      <div className="flex justify-end gap-6">
+        <button
+          onClick={() => setIsSharing(!isSharing)}
+          className={cn(
+            "text-[10px] font-serif italic uppercase tracking-widest hover:text-gold flex items-center gap-2",
+            isSharing ? "text-gold" : "text-gray-500"
+          )}
+        >
+          <Link2 className="w-3 h-3" /> Share
+        </button>
+        <button
+          onClick={() => setShowAlerts(!showAlerts)}
+          className={cn(
+            "text-[10px] font-serif italic uppercase tracking-widest hover:text-gold flex items-center gap-2",
+            showAlerts ? "text-gold" : "text-gray-500"
+          )}
+        >
+          <BellRing className="w-3 h-3" /> Alerts
+        </button>
+        <button
+          onClick={exportPdf}
+          className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-2"
+        >
+          <FileText className="w-3 h-3" /> PDF Report
+        </button>
+        <button
+          onClick={() => downloadJson(`${result.signal.pair}-${result.timestamp.slice(0, 10)}.json`, historyToJson([result]))}
+          className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-2"
+        >
+          <Download className="w-3 h-3" /> JSON
+        </button>
+      </div>
+
+      {isSharing && <ShareLinks key={result.id} analysis={{ ...result, annotatedImage: overlayImage }} />}
+
+      {showAlerts && <PriceAlerts key={result.id} analysis={result} lastEvent={lastAlertEvent} />}
+
+      {/* Signal Card */}
+      <section className={cn(
+        "relative overflow-hidden rounded-3xl border-2 p-6 md:p-10 transition-all shadow-2xl",
+        result.signal.action === 'BUY' ? "bg-emerald-500/5 border-emerald-500/20 shadow-emerald-500/5" : 
+        result.signal.action === 'SELL' ? "bg-red-500/5 border-red-500/20 shadow-red-500/5" : 
+        "bg-gray-500/5 border-gray-500/20 shadow-gray-500/5"
+      )}>
+        <div className="absolute top-0 right-0 p-4 md:p-6">
+          <div className={cn(
+            "px-3 py-1 md:px-4 md:py-1.5 rounded-full text-[8px] md:text-[10px] font-bold tracking-[0.2em] uppercase border",
+            result.signal.action === 'BUY' ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" : 
+            result.signal.action === 'SELL' ? "bg-red-500/10 text-red-400 border-red-500/20" : 
+            "bg-gray-500/10 text-gray-400 border-gray-500/20"
+          )}>
+            {result.signal.confidence}% Confidence
+          </div>
+        </div>
+
+        <div className="space-y-8 md:space-y-10">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 md:gap-8">
+            <div className="space-y-2">
+              <p className="text-[11px] font-serif italic text-gray-600 uppercase tracking-[0.3em]">Strategic Insight</p>
+              <div className="flex items-center gap-4 md:gap-6">
+                <div className={cn(
+                  "w-12 h-12 md:w-16 md:h-16 rounded-xl md:rounded-2xl flex items-center justify-center border-2",
+                  result.signal.action === 'BUY' ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-500" : 
+                  result.signal.action === 'SELL' ? "bg-red-500/10 border-red-500/30 text-red-500" : 
+                  "bg-gray-500/10 border-gray-500/30 text-gray-500"
+                )}>
+                  {result.signal.action === 'BUY' ? <TrendingUp className="w-6 h-6 md:w-8 md:h-8" /> : 
+                   result.signal.action === 'SELL' ? <TrendingDown className="w-6 h-6 md:w-8 md:h-8" /> : 
+                   <Activity className="w-6 h-6 md:w-8 md:h-8" />}
+                </div>
+                <div>
+                  <h3 className={cn(
+                    "text-5xl md:text-7xl font-serif font-bold italic leading-none tracking-tighter",
+                    result.signal.action === 'BUY' ? "text-emerald-500" : 
+                    result.signal.action === 'SELL' ? "text-red-500" : 
+                    "text-gray-500"
+                  )}>
+                    {result.signal.action}
+                  </h3>
+                  <p className="text-[11px] md:text-xs font-serif italic text-gray-500 mt-1 md:mt-2">{result.signal.pair} // COLLECTED</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-col items-end gap-2">
+              <div className="flex items-center gap-2 text-gold">
+                <Clock className="w-4 h-4" />
+                <span className="text-xs font-serif italic">{new Date(result.timestamp).toLocaleTimeString()}</span>
+              </div>
+              {result.model && (
+                <span className="text-[10px] font-serif italic text-gray-600 uppercase tracking-widest">
+                  {result.model.provider} // {result.model.name}
+                </span>
+              )}
+              {result.template && (
+                <span className="text-[10px] font-serif italic text-gray-600 uppercase tracking-widest">
+                  {result.template.name} v{result.template.version}
+                </span>
+              )}
+            </div>
+          </div>
+
+          <SignalLevelsGrid signal={result.signal} levels={getLevels(result.signal)} />
+
+          <PositionSizer
+            key={result.id}
+            signal={result.signal}
+            levels={getLevels(result.signal)}
+            saved={result.position}
+            onSave={savePosition}
+          />
+
+          <div className="p-6 bg-white/5 rounded-2xl border border-white/5">
+            <p className="text-sm text-gray-300 leading-relaxed italic font-serif">
+              "{result.signal.reasoning}"
+            </p>
+          </div>
+        </div>
+      </section>
+
+      {/* Source Charts */}
+      {sourceCharts && (
+        <div className={cn("grid grid-cols-1 gap-4", sourceCharts.length > 1 && "md:grid-cols-2")}>
+          {/* The overlay below already shows the entry chart. */}
+          {(result.annotations ? sourceCharts.slice(0, -1) : sourceCharts).map(chart => (
+            <div key={chart.timeframe} className="relative rounded-2xl overflow-hidden border border-alchemist-border">
+              <img src={chart.image} alt={`${chart.timeframe} chart`} className="w-full block" />
+              {chart.timeframe !== 'AUTO' && (
+                <span className="absolute bottom-2 left-2 bg-black/70 border border-gold/20 rounded-lg px-2 py-1 text-[10px] font-bold tracking-widest text-gold">
+                  {chart.timeframe}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Chart Overlay */}
+      {result.annotations && entryChart ? (
+        <ChartAnnotator
+          key={result.id}
+          image={entryChart}
+          annotations={result.annotations}
+          pipSize={getLevels(result.signal).pipSize}
+          fileName={`${result.signal.pair}-${result.timestamp.slice(0, 10)}`}
+          onSave={saveAnnotations}
+          onSnap={snapToAxis}
+        />
+      ) : overlayImage && (
+        <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 md:p-8 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-bold uppercase tracking-[0.2em] text-gold">Chart Overlay</h4>
+            <a
+              href={overlayImage}
+              download={`${result.signal.pair}-${result.timestamp.slice(0, 10)}.${overlayImage.startsWith('data:image/png') ? 'png' : 'jpg'}`}
+              className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold"
+            >
+              Download Image
+            </a>
+          </div>
+          <img src={overlayImage} alt="Annotated chart" className="w-full rounded-2xl" />
+        </section>
+      )}
+
+      {/* Top-Down Breakdown */}
+      {result.timeframes && (
+        <div className={cn("grid grid-cols-1 gap-4", result.timeframes.length > 2 ? "md:grid-cols-3" : "md:grid-cols-2")}>
+          {result.timeframes.map(tf => (
+            <TimeframeCard
+              key={tf.timeframe}
+              analysis={tf}
+              thumbnail={result.charts?.find(chart => chart.timeframe === tf.timeframe)?.thumbnail}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Technical Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {getMethods(result).map(method => (
+          <TechCard
+            key={method.key}
+            title={method.title}
+            icon={TECH_ICONS[method.key] ?? <Activity />}
+            content={result.technical[method.key] ?? ''}
+          />
+        ))}
+      </div>
+
+      {/* Fundamental Section */}
+      <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-8 space-y-6 relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-8 opacity-5">
+          <Globe className="w-32 h-32 text-gold" />
+        </div>
+        <div className="flex items-center justify-between relative z-10">
+          <div className="flex items-center gap-3 text-gold">
+            <div className="w-8 h-8 bg-gold/10 rounded-lg flex items-center justify-center border border-gold/20">
+              <Globe className="w-4 h-4" />
+            </div>
+            <h4 className="text-sm font-bold uppercase tracking-[0.2em]">Global Macro Context</h4>
+          </div>
+        </div>
+        <div className="text-sm text-gray-400 leading-relaxed markdown-body relative z-10">
+          <Markdown>{result.fundamental}</Markdown>
+        </div>
+      </section>
+
+      <div className="flex justify-center pt-4">
+          <button 
+            onClick={() => navigate('/dashboard')}
+            className="text-[11px] font-serif italic text-gray-600 hover:text-gold transition-colors flex items-center gap-2 uppercase tracking-widest"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Reset Analytical Suite
+          </button>
+      </div>
+    </>
+  );
+}
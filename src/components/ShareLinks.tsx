@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, Eye, Link2, Trash2 } from 'lucide-react';
+import * as api from '../services/api';
+import { AnalysisResult, ShareLink } from '../types';
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const shareUrl = (id: string) => `${window.location.origin}/share/${id}`;
+
+interface ShareLinksProps {
+  analysis: AnalysisResult;
+}
+
+// Creates public links to a snapshot of the analysis, and lists the ones
+// already made with their view counts so they can be revoked.
+export default function ShareLinks({ analysis }: ShareLinksProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiry, setExpiry] = useState(0);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.listShares()
+      .then(all => setLinks(all.filter(link => link.analysisId === analysis.id)))
+      .catch(err => setError(err.message));
+  }, [analysis.id]);
+
+  const copy = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(id));
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(prev => (prev === id ? null : prev)), 2000);
+    } catch {
+      setError('Could not copy to the clipboard; copy the link by hand.');
+    }
+  };
+
+  const create = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const link = await api.createShare(analysis, EXPIRY_OPTIONS[expiry].days);
+      setLinks(prev => [link, ...prev]);
+      await copy(link.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setIsBusy(false);
+  };
+
+  const revoke = async (id: string) => {
+    try {
+      await api.revokeShare(id);
+      setLinks(prev => prev.filter(link => link.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-6 md:p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h4 className="text-sm font-bold uppercase tracking-[0.2em] text-gold flex items-center gap-2">
+          <Link2 className="w-4 h-4" /> Share
+        </h4>
+        <div className="flex items-center gap-4">
+          <select
+            value={expiry}
+            onChange={(e) => setExpiry(Number(e.target.value))}
+            className="bg-alchemist-card border-b border-white/10 py-1 text-xs text-white font-serif focus:border-gold/30 outline-none"
+          >
+            {EXPIRY_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+          </select>
+          <button
+            onClick={create}
+            disabled={isBusy}
+            className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40"
+          >
+            Create Link
+          </button>
+        </div>
+      </div>
+
+      <p className="text-[11px] font-serif italic text-gray-500">
+        Anyone with a link sees a read-only copy of this analysis as it is now, without an access code. Position size is not included.
+      </p>
+
+      {links.length > 0 && (
+        <div className="divide-y divide-alchemist-border">
+          {links.map(link => {
+            const isExpired = link.expiresAt !== null && Date.now() >= link.expiresAt;
+            return (
+              <div key={link.id} className="py-3 flex flex-wrap items-center justify-between gap-4 text-xs font-serif italic">
+                <span className={isExpired ? "text-gray-600 line-through truncate" : "text-gray-300 truncate"}>{shareUrl(link.id)}</span>
+                <div className="flex items-center gap-4 text-gray-500">
+                  <span className="flex items-center gap-1" title="Views"><Eye className="w-3 h-3" /> {link.views}</span>
+                  <span>{link.expiresAt === null ? 'No expiry' : `${isExpired ? 'Expired' : 'Expires'} ${new Date(link.expiresAt).toLocaleDateString()}`}</span>
+                  <button onClick={() => copy(link.id)} title="Copy link" className="hover:text-gold">
+                    {copiedId === link.id ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => revoke(link.id)} title="Revoke link" className="hover:text-red-500">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import Markdown from 'react-markdown';
+import { Activity, Clock, Globe, Link2Off, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import * as api from '../services/api';
+import { getLevels } from '../lib/priceLevels';
+import { getMethods } from '../lib/promptTemplate';
+import { cn } from '../lib/utils';
+import { SignalLevelsGrid, TECH_ICONS, TechCard, TimeframeCard } from './AnalysisCards';
+import { SharedAnalysis } from '../types';
+
+interface SharedAnalysisViewProps {
+  shareId: string;
+}
+
+// The public page behind /share/:id. Read-only and outside the login gate.
+export default function SharedAnalysisView({ shareId }: SharedAnalysisViewProps) {
+  const [shared, setShared] = useState<SharedAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.fetchShare(shareId)
+      .then(setShared)
+      .catch(err => setError(err.message));
+  }, [shareId]);
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center p-8">
+        {error ? (
+          <>
+            <Link2Off className="w-10 h-10 text-gray-600" />
+            <p className="text-gray-400 font-serif italic">{error}</p>
+          </>
+        ) : (
+          <RefreshCw className="w-6 h-6 text-gold animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const { analysis: result } = shared;
+  const chart = result.annotatedImage ?? result.charts?.[result.charts.length - 1]?.thumbnail;
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b border-alchemist-border bg-alchemist-card/30">
+        <div className="max-w-5xl mx-auto px-4 md:px-8 py-6 flex items-center justify-between">
+          <h1 className="text-xl font-serif font-bold italic text-white">VertexChart</h1>
+          <span className="text-[10px] font-serif italic text-gray-600 uppercase tracking-[0.3em]">Shared Analysis</span>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 md:px-8 py-10 space-y-6">
+        <section className={cn(
+          "rounded-3xl border-2 p-6 md:p-10 space-y-8",
+          result.signal.action === 'BUY' ? "bg-emerald-500/5 border-emerald-500/20" :
+          result.signal.action === 'SELL' ? "bg-red-500/5 border-red-500/20" :
+          "bg-gray-500/5 border-gray-500/20"
+        )}>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+            <div className="flex items-center gap-4 md:gap-6">
+              <div className={cn(
+                "w-12 h-12 md:w-16 md:h-16 rounded-xl md:rounded-2xl flex items-center justify-center border-2",
+                result.signal.action === 'BUY' ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-500" :
+                result.signal.action === 'SELL' ? "bg-red-500/10 border-red-500/30 text-red-500" :
+                "bg-gray-500/10 border-gray-500/30 text-gray-500"
+              )}>
+                {result.signal.action === 'BUY' ? <TrendingUp className="w-6 h-6 md:w-8 md:h-8" /> :
+                 result.signal.action === 'SELL' ? <TrendingDown className="w-6 h-6 md:w-8 md:h-8" /> :
+                 <Activity className="w-6 h-6 md:w-8 md:h-8" />}
+              </div>
+              <div>
+                <h2 className={cn(
+                  "text-5xl md:text-7xl font-serif font-bold italic leading-none tracking-tighter",
+                  result.signal.action === 'BUY' ? "text-emerald-500" :
+                  result.signal.action === 'SELL' ? "text-red-500" :
+                  "text-gray-500"
+                )}>
+                  {result.signal.action}
+                </h2>
+                <p className="text-[11px] md:text-xs font-serif italic text-gray-500 mt-1 md:mt-2">
+                  {[result.signal.pair, result.signal.timeframe].filter(Boolean).join(' // ')}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-col md:items-end gap-2">
+              <span className="text-xs font-bold tracking-[0.2em] uppercase text-gray-400">{result.signal.confidence}% Confidence</span>
+              <span className="flex items-center gap-2 text-gold text-xs font-serif italic">
+                <Clock className="w-4 h-4" /> {new Date(result.timestamp).toLocaleString()}
+              </span>
+            </div>
+          </div>
+
+          <SignalLevelsGrid signal={result.signal} levels={getLevels(result.signal)} />
+
+          <div className="p-6 bg-white/5 rounded-2xl border border-white/5">
+            <p className="text-sm text-gray-300 leading-relaxed italic font-serif">"{result.signal.reasoning}"</p>
+          </div>
+        </section>
+
+        {chart && <img src={chart} alt={`${result.signal.pair} chart`} className="w-full rounded-3xl border border-alchemist-border" />}
+
+        {result.timeframes && (
+          <div className={cn("grid grid-cols-1 gap-4", result.timeframes.length > 2 ? "md:grid-cols-3" : "md:grid-cols-2")}>
+            {result.timeframes.map(tf => (
+              <TimeframeCard
+                key={tf.timeframe}
+                analysis={tf}
+                thumbnail={result.charts?.find(c => c.timeframe === tf.timeframe)?.thumbnail}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {getMethods(result).map(method => (
+            <TechCard
+              key={method.key}
+              title={method.title}
+              icon={TECH_ICONS[method.key] ?? <Activity />}
+              content={result.technical[method.key] ?? ''}
+            />
+          ))}
+        </div>
+
+        <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-8 space-y-6">
+          <div className="flex items-center gap-3 text-gold">
+            <Globe className="w-4 h-4" />
+            <h3 className="text-sm font-bold uppercase tracking-[0.2em]">Global Macro Context</h3>
+          </div>
+          <div className="text-sm text-gray-400 leading-relaxed markdown-body">
+            <Markdown>{result.fundamental}</Markdown>
+          </div>
+        </section>
+
+        <p className="text-center text-[10px] font-serif italic text-gray-700 uppercase tracking-[0.3em] pt-6">
+          Shared {new Date(shared.createdAt).toLocaleDateString()}
+          {shared.expiresAt !== null && ` // Available until ${new Date(shared.expiresAt).toLocaleDateString()}`}
+          {' // For information only; not financial advice'}
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { Activity, TrendingDown, TrendingUp, X } from 'lucide-react';
+import Markdown from 'react-markdown';
+import { parsePartialJson } from '../lib/partialJson';
+import { cn } from '../lib/utils';
+
+type Fields = Record<string, unknown>;
+
+const asFields = (value: unknown): Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Fields : {};
+
+const asText = (value: unknown) =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+interface StreamingAnalysisProps {
+  // Raw model output received so far.
+  text: string;
+  // Sections expected from the prompt template in use.
+  methods: { key: string; title: string }[];
+  // The first answer was rejected and `text` is the model's second try.
+  isRepairing?: boolean;
+  onCancel: () => void;
+}
+
+export const REPAIR_MESSAGE = 'The first answer was incomplete. Asking the model to correct it...';
+
+// Renders an analysis while it streams in: the signal first, then each
+// section as the model reaches it. Unfinished sections show a placeholder.
+export default function StreamingAnalysis({ text, methods, isRepairing = false, onCancel }: StreamingAnalysisProps) {
+  const partial = useMemo(() => asFields(parsePartialJson(text)), [text]);
+  const signal = asFields(partial.signal);
+  const technical = asFields(partial.technical);
+  const fundamental = asText(partial.fundamental);
+
+  // Only trust the action once it is a whole word.
+  const action = ['BUY', 'SELL', 'NEUTRAL'].find(a => a === asText(signal.action).toUpperCase());
+
+  return (
+    <div className="space-y-6">
+      <section className={cn(
+        "relative overflow-hidden rounded-3xl border-2 p-6 md:p-10 space-y-6 transition-all",
+        action === 'BUY' ? "bg-emerald-500/5 border-emerald-500/20" :
+        action === 'SELL' ? "bg-red-500/5 border-red-500/20" :
+        "bg-gray-500/5 border-gray-500/20"
+      )}>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className={cn(
+              "w-12 h-12 rounded-xl flex items-center justify-center border-2",
+              action === 'BUY' ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-500" :
+              action === 'SELL' ? "bg-red-500/10 border-red-500/30 text-red-500" :
+              "bg-gray-500/10 border-gray-500/30 text-gray-500"
+            )}>
+              {action === 'BUY' ? <TrendingUp className="w-6 h-6" /> :
+               action === 'SELL' ? <TrendingDown className="w-6 h-6" /> :
+               <Activity className="w-6 h-6 animate-pulse" />}
+            </div>
+            <div>
+              <h3 className={cn(
+                "text-4xl md:text-5xl font-serif font-bold italic leading-none tracking-tighter",
+                action === 'BUY' ? "text-emerald-500" : action === 'SELL' ? "text-red-500" : "text-gray-500"
+              )}>
+                {action ?? '...'}
+              </h3>
+              <p className="text-[11px] font-serif italic text-gray-500 mt-2">
+                {asText(signal.pair) || 'Reading chart'} {asText(signal.timeframe) && `// ${asText(signal.timeframe)}`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-red-400 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" /> Cancel
+          </button>
+        </div>
+
+        {isRepairing && (
+          <p className="text-[11px] font-serif italic text-amber-400/80">{REPAIR_MESSAGE}</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[['Entry', signal.entry], ['Take Profit', signal.tp], ['Stop Loss', signal.sl], ['Confidence', signal.confidence]].map(([label, value]) => (
+            <div key={label as string} className="space-y-1">
+              <p className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">{label as string}</p>
+              <p className="text-sm font-serif text-white">
+                {asText(value) ? `${asText(value)}${label === 'Confidence' ? '%' : ''}` : <Placeholder />}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {asText(signal.reasoning) && (
+          <p className="text-sm text-gray-300 leading-relaxed italic font-serif">"{asText(signal.reasoning)}"</p>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {methods.map(({ key, title }) => (
+          <div key={key} className="bg-alchemist-card border border-white/5 rounded-[2rem] p-6 space-y-3">
+            <h4 className="text-xs font-serif italic font-bold uppercase tracking-[0.2em] text-gold">{title}</h4>
+            {asText(technical[key])
+              ? <p className="text-sm text-gray-400 leading-relaxed font-serif italic">{asText(technical[key])}</p>
+              : <Placeholder wide />}
+          </div>
+        ))}
+      </div>
+
+      <section className="bg-alchemist-card border border-alchemist-border rounded-3xl p-8 space-y-4">
+        <h4 className="text-sm font-bold uppercase tracking-[0.2em] text-gold">Global Macro Context</h4>
+        {fundamental
+          ? <div className="text-sm text-gray-400 leading-relaxed markdown-body"><Markdown>{fundamental}</Markdown></div>
+          : <Placeholder wide />}
+      </section>
+    </div>
+  );
+}
+
+function Placeholder({ wide = false }: { wide?: boolean }) {
+  return <span className={cn("block h-3 rounded bg-white/5 animate-pulse", wide ? "w-full" : "w-16")} />;
+}
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Archive, FileText, Plus, Star, X } from 'lucide-react';
+import * as api from '../services/api';
+import { checkTemplate, placeholders, renderTemplate } from '../lib/promptTemplate';
+import { cn } from '../lib/utils';
+import { PromptMethod, PromptTemplate } from '../types';
+
+type Draft = Pick<PromptTemplate, 'name' | 'body' | 'methods' | 'variables'>;
+
+const toDraft = ({ name, body, methods, variables }: PromptTemplate): Draft => ({
+  name,
+  body,
+  methods: methods.map(method => ({ ...method })),
+  variables: { ...variables },
+});
+
+const inputClass = "w-full bg-transparent border-b border-white/10 py-1 text-sm text-white font-serif focus:border-gold/30 outline-none";
+const labelClass = "text-[9px] font-serif italic text-gray-500 uppercase tracking-widest";
+
+export default function TemplateManager() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+  const problems = useMemo(() => (draft ? checkTemplate(draft) : []), [draft]);
+
+  const refresh = async (keepId?: string) => {
+    const list = await api.listTemplates();
+    setTemplates(list);
+    const next = list.find(t => t.id === keepId) ?? list.find(t => t.isDefault) ?? list[0];
+    if (next) select(next);
+  };
+
+  const select = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(toDraft(template));
+    api.listTemplateVersions(template.id).then(setVersions).catch(() => setVersions([]));
+  };
+
+  useEffect(() => {
+    refresh().catch(err => setError(err.message));
+  }, []);
+
+  const run = async (action: () => Promise<string | undefined>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await refresh(await action());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveVersion = () => run(async () => (await api.saveTemplateVersion(selectedId!, draft!)).id);
+  const saveAsNew = () => run(async () => (await api.createTemplate(draft!)).id);
+  const makeDefault = () => run(async () => { await api.setDefaultTemplate(selectedId!); return selectedId!; });
+  const archive = () => run(async () => { await api.archiveTemplate(selectedId!); return undefined; });
+
+  const updateMethod = (index: number, changes: Partial<PromptMethod>) =>
+    setDraft(prev => prev && { ...prev, methods: prev.methods.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+
+  const renameVariable = (from: string, to: string) =>
+    setDraft(prev => prev && {
+      ...prev,
+      variables: Object.fromEntries(Object.entries(prev.variables).map(([key, value]) => [key === from ? to : key, value])),
+    });
+
+  // Placeholders used in the body that don't have a variable row yet.
+  const missingVariables = draft
+    ? placeholders(draft.body).filter(name => name !== 'methods' && !(name in draft.variables))
+    : [];
+
+  return (
+    <section className="bg-alchemist-card border border-alchemist-border rounded-3xl overflow-hidden">
+      <div className="p-8 border-b border-alchemist-border flex items-center justify-between">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-white flex items-center gap-2">
+          <FileText className="w-4 h-4 text-gold" /> Prompt Templates
+        </h2>
+        <span className="text-[11px] font-serif italic text-gray-500">{templates.length} TEMPLATES</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4">
+        <div className="lg:col-span-1 border-b lg:border-b-0 lg:border-r border-alchemist-border divide-y divide-alchemist-border">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => select(template)}
+              className={cn(
+                "w-full text-left px-6 py-4 transition-colors",
+                template.id === selectedId ? "bg-gold/5" : "hover:bg-white/5"
+              )}
+            >
+              <p className="text-sm font-serif italic text-white flex items-center gap-2">
+                {template.isDefault && <Star className="w-3 h-3 text-gold fill-gold" />}
+                {template.name}
+              </p>
+              <p className="text-[10px] font-serif italic text-gray-600">v{template.version} // {template.methods.length} methods</p>
+            </button>
+          ))}
+        </div>
+
+        {draft && selected && (
+          <div className="lg:col-span-3 p-8 space-y-6">
+            <label className="space-y-1 block">
+              <span className={labelClass}>Name</span>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </label>
+
+            <label className="space-y-1 block">
+              <span className={labelClass}>Prompt ({'{{methods}}'} and {'{{variables}}'} are filled in)</span>
+              <textarea
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                rows={10}
+                className="w-full bg-white/[0.02] border border-white/5 rounded-xl p-3 text-xs text-gray-300 font-mono focus:border-gold/30 outline-none"
+              />
+            </label>
+
+            <div className="space-y-3">
+              <span className={labelClass}>Methods</span>
+              {draft.methods.map((method, i) => (
+                <div key={i} className="grid grid-cols-12 gap-3 items-end">
+                  <input value={method.key} onChange={(e) => updateMethod(i, { key: e.target.value })} placeholder="key" className={cn(inputClass, "col-span-2 font-mono text-xs")} />
+                  <input value={method.title} onChange={(e) => updateMethod(i, { title: e.target.value })} placeholder="Title" className={cn(inputClass, "col-span-3")} />
+                  <input value={method.instruction} onChange={(e) => updateMethod(i, { instruction: e.target.value })} placeholder="Instruction" className={cn(inputClass, "col-span-6")} />
+                  <button
+                    onClick={() => setDraft({ ...draft, methods: draft.methods.filter((_, j) => j !== i) })}
+                    className="col-span-1 p-1 text-gray-600 hover:text-red-500 transition-colors justify-self-end"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...draft, methods: [...draft.methods, { key: '', title: '', instruction: '' }] })}
+                className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add Method
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <span className={labelClass}>Variables</span>
+              {Object.entries(draft.variables).map(([key, value]) => (
+                <div key={key} className="grid grid-cols-12 gap-3 items-end">
+                  <input
+                    defaultValue={key}
+                    onBlur={(e) => e.target.value.trim() !== key && renameVariable(key, e.target.value.trim())}
+                    className={cn(inputClass, "col-span-3 font-mono text-xs")}
+                  />
+                  <input
+                    value={value}
+                    onChange={(e) => setDraft({ ...draft, variables: { ...draft.variables, [key]: e.target.value } })}
+                    className={cn(inputClass, "col-span-8")}
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, variables: Object.fromEntries(Object.entries(draft.variables).filter(([k]) => k !== key)) })}
+                    className="col-span-1 p-1 text-gray-600 hover:text-red-500 transition-colors justify-self-end"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {missingVariables.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setDraft({ ...draft, variables: { ...draft.variables, [name]: '' } })}
+                  className="mr-4 text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold inline-flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> {name}
+                </button>
+              ))}
+            </div>
+
+            {error && <p className="text-[11px] font-serif italic text-red-400/80">{error}</p>}
+
+            {problems.length > 0 ? (
+              <ul className="space-y-1">
+                {problems.map(problem => (
+                  <li key={problem} className="text-[11px] font-serif italic text-red-400/80">{problem}</li>
+                ))}
+              </ul>
+            ) : (
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer font-serif italic uppercase tracking-widest text-[10px]">Preview</summary>
+                <pre className="mt-3 whitespace-pre-wrap font-mono text-[11px] text-gray-400 bg-white/[0.02] border border-white/5 rounded-xl p-3">
+                  {renderTemplate({ ...selected, ...draft })}
+                </pre>
+              </details>
+            )}
+
+            <div className="flex flex-wrap justify-between items-center gap-4 pt-4 border-t border-white/5">
+              <div className="flex gap-4">
+                {!selected.isDefault && (
+                  <button onClick={makeDefault} disabled={isSaving} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold flex items-center gap-1">
+                    <Star className="w-3 h-3" /> Make Default
+                  </button>
+                )}
+                <button
+                  onClick={archive}
+                  disabled={isSaving}
+                  title="Hides the template from the pickers. Its versions are kept for the analyses it produced."
+                  className="text-[10px] font-serif italic uppercase tracking-widest text-gray-600 hover:text-red-400 flex items-center gap-1"
+                >
+                  <Archive className="w-3 h-3" /> Archive
+                </button>
+              </div>
+              <div className="flex gap-4">
+                <button onClick={saveAsNew} disabled={isSaving || problems.length > 0} className="text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold disabled:opacity-40">
+                  Save As New Template
+                </button>
+                <button onClick={saveVersion} disabled={isSaving || problems.length > 0} className="text-[10px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40">
+                  Save Version {selected.version + 1}
+                </button>
+              </div>
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-2">
+                <span className={labelClass}>History</span>
+                <div className="flex flex-wrap gap-2">
+                  {versions.map(version => (
+                    <button
+                      key={version.version}
+                      onClick={() => setDraft(toDraft(version))}
+                      title={`Load v${version.version} into the editor`}
+                      className="px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border border-white/5 text-gray-500 hover:text-gold hover:border-gold/20"
+                    >
+                      v{version.version} // {new Date(version.createdAt).toLocaleDateString()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
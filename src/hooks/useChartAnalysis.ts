@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import * as api from '../services/api';
+import * as imageStore from '../services/imageStore';
+import { makeThumbnail, readChartImage } from '../lib/image';
+import { MAX_CHARTS, TOP_DOWN_DEFAULTS, timeframeRank } from '../lib/timeframes';
+import { AnalysisResult, ChartInput, PromptTemplate } from '../types';
+
+export interface ChartUpload extends ChartInput {
+  id: string;
+}
+
+export type ChartAnalysis = ReturnType<typeof useChartAnalysis>;
+
+interface ChartAnalysisOptions {
+  owner: string;
+  onError: (message: string | null) => void;
+  // Called with each finished analysis and its full-size entry chart.
+  onAnalysis: (analysis: AnalysisResult, entryChart: string) => Promise<void>;
+}
+
+// The charts being prepared and the analysis running on them. Kept above the
+// dashboard so neither is lost when another page is opened meanwhile.
+export const useChartAnalysis = ({ owner, onError, onAnalysis }: ChartAnalysisOptions) => {
+  const [charts, setCharts] = useState<ChartUpload[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  // Empty means whichever template the admin marked as default.
+  const [templateId, setTemplateId] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [streamText, setStreamText] = useState('');
+  // Set once the model's first answer was rejected and it is correcting it.
+  const [isRepairing, setIsRepairing] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    api.listTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error(err));
+  }, []);
+
+  const addChartImages = (images: string[]) => {
+    setCharts(prev => {
+      const next = [...prev, ...images.map(image => ({ id: crypto.randomUUID(), timeframe: 'AUTO', image }))].slice(0, MAX_CHARTS);
+      // A single chart lets the model read its timeframe; several are labelled top-down.
+      return next.length === 1
+        ? next
+        : next.map((chart, i) => (chart.timeframe === 'AUTO' ? { ...chart, timeframe: TOP_DOWN_DEFAULTS[i] } : chart));
+    });
+  };
+
+  // Shared by the file picker, paste and drag-and-drop. Valid images are
+  // added even if others in the same batch are rejected.
+  const addChartFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (charts.length >= MAX_CHARTS) {
+      onError(`Upload at most ${MAX_CHARTS} charts per analysis.`);
+      return;
+    }
+    const results = await Promise.allSettled(files.slice(0, MAX_CHARTS - charts.length).map(readChartImage));
+    addChartImages(results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : [])));
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    onError(rejected ? rejected.reason?.message ?? 'Could not read the image.' : null);
+  };
+
+  const run = async () => {
+    if (charts.length === 0) {
+      onError('Please upload a chart image first.');
+      return;
+    }
+    const timeframes = charts.map(chart => chart.timeframe);
+    if (charts.length > 1 && (timeframes.includes('AUTO') || new Set(timeframes).size !== timeframes.length)) {
+      onError('Label each chart with a different timeframe.');
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAnalyzing(true);
+    setStreamText('');
+    setIsRepairing(false);
+    onError(null);
+    try {
+      // Highest timeframe first, matching the top-down prompt.
+      const ordered = [...charts].sort((a, b) => timeframeRank(a.timeframe) - timeframeRank(b.timeframe));
+      const analysis = await api.streamAnalysis(
+        ordered.map(({ timeframe, image }) => ({ timeframe, image })),
+        { templateId: templateId || undefined, onText: setStreamText, onRepair: () => setIsRepairing(true), signal: controller.signal }
+      );
+      // The analysis is still saved if the images can't be.
+      const imagePaths = await imageStore.saveChartImages(analysis.id, ordered).catch((err) => {
+        console.error(err);
+        return [];
+      });
+      const data: AnalysisResult = {
+        ...analysis,
+        owner,
+        charts: await Promise.all(ordered.map(async ({ timeframe, image }, i) => ({
+          timeframe,
+          thumbnail: await makeThumbnail(image),
+          imagePath: imagePaths[i],
+        }))),
+      };
+      await onAnalysis(data, ordered[ordered.length - 1].image);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error('Analysis error:', err);
+      onError(err.message || 'Analysis failed. Please try again.');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsAnalyzing(false);
+        setStreamText('');
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setStreamText('');
+  };
+
+  return {
+    charts,
+    templates,
+    templateId,
+    setTemplateId,
+    isAnalyzing,
+    streamText,
+    isRepairing,
+    addChartImages,
+    addChartFiles,
+    setChartTimeframe(id: string, timeframe: string) {
+      setCharts(prev => prev.map(chart => (chart.id === id ? { ...chart, timeframe } : chart)));
+    },
+    removeChart(id: string) {
+      setCharts(prev => prev.filter(chart => chart.id !== id));
+    },
+    run,
+    cancel,
+  };
+};
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import * as historyService from '../services/historyService';
+import { HistoryQuery, isEmptyQuery, matchesQuery } from '../lib/historyQuery';
+import { AnalysisResult } from '../types';
+
+export type Journal = ReturnType<typeof useJournal>;
+
+// The session owner's saved analyses: the filtered pages the History tab
+// lists, and every entry for backtests and analytics. Changes made on any
+// page go through here so both stay in step.
+export const useJournal = (owner: string, { loadAll }: { loadAll: boolean }) => {
+  const [history, setHistory] = useState<AnalysisResult[]>([]);
+  // Every entry, whatever the list filters; null until first needed.
+  const [all, setAll] = useState<AnalysisResult[] | null>(null);
+  const [query, setQuery] = useState<HistoryQuery>({});
+  const [hasMore, setHasMore] = useState(false);
+
+  const loadFirstPage = async () => {
+    const page = await historyService.loadHistory({ ...query, owner });
+    setHistory(page.entries);
+    setHasMore(page.hasMore);
+  };
+
+  // Load the first page of history whenever the filters change. Typing in
+  // the filters is debounced so each keystroke doesn't hit the database.
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const page = await historyService.loadHistory({ ...query, owner });
+        if (cancelled) return;
+        setHistory(page.entries);
+        setHasMore(page.hasMore);
+      } catch (err: any) {
+        console.error(err);
+      }
+    }, isEmptyQuery(query) ? 0 : 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [owner, query]);
+
+  useEffect(() => {
+    if (!loadAll || all) return;
+
+    let cancelled = false;
+    historyService.loadAllHistory({ owner })
+      .then((entries) => {
+        if (!cancelled) setAll(entries);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, loadAll, all]);
+
+  return {
+    history,
+    all,
+    query,
+    setQuery,
+    hasMore,
+
+    // A new analysis; the caller saves it.
+    add(entry: AnalysisResult) {
+      if (matchesQuery(entry, query)) setHistory(prev => [entry, ...prev]);
+      setAll(prev => prev && [entry, ...prev]);
+    },
+
+    // Shows the change at once, then stores it.
+    async update(updated: AnalysisResult) {
+      setHistory(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      setAll(prev => prev && prev.map(item => (item.id === updated.id ? updated : item)));
+      await historyService.updateEntry(updated);
+    },
+
+    async remove(id: string) {
+      await historyService.deleteEntry(id);
+      setHistory(prev => prev.filter(item => item.id !== id));
+      setAll(prev => prev && prev.filter(item => item.id !== id));
+    },
+
+    async clear() {
+      await historyService.clearHistory(owner);
+      setHistory([]);
+      setAll([]);
+      setHasMore(false);
+    },
+
+    async loadMore() {
+      const page = await historyService.loadHistory({ ...query, owner }, history.length);
+      setHistory(prev => [...prev, ...page.entries]);
+      setHasMore(page.hasMore);
+    },
+
+    // After entries were added behind the journal's back, e.g. by an import.
+    async reload() {
+      await loadFirstPage();
+      setAll(null);
+    },
+  };
+};
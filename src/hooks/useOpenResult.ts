@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import * as imageStore from '../services/imageStore';
+import { AnalysisResult, ChartInput } from '../types';
+
+export type OpenResult = ReturnType<typeof useOpenResult>;
+
+// The analysis the dashboard shows, and the images it is drawn from. A
+// reopened entry's full-size charts and overlay are loaded from storage; a
+// new analysis keeps its entry chart in memory until the next one, so the
+// overlay can be edited.
+export const useOpenResult = () => {
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [overlaySource, setOverlaySource] = useState<{ resultId: string, image: string } | null>(null);
+  const [sourceCharts, setSourceCharts] = useState<{ resultId: string, charts: ChartInput[] } | null>(null);
+  const [savedOverlay, setSavedOverlay] = useState<{ resultId: string, image: string } | null>(null);
+
+  return {
+    result,
+    // Full-size charts of the result, once loaded.
+    sourceCharts: result && sourceCharts?.resultId === result.id ? sourceCharts.charts : null,
+    // The full-size entry chart the annotations refer to, if on hand.
+    entryChart: result && overlaySource?.resultId === result.id ? overlaySource.image : undefined,
+    // Entries saved before overlays moved to image storage keep theirs inline.
+    overlayImage: result ? (savedOverlay?.resultId === result.id ? savedOverlay.image : result.annotatedImage) : undefined,
+
+    async show(entry: AnalysisResult) {
+      setResult(entry);
+      if (entry.annotatedImagePath) {
+        imageStore.loadChartImage(entry.annotatedImagePath)
+          .then(image => setSavedOverlay({ resultId: entry.id, image }))
+          .catch(err => console.error(err));
+      }
+      const stored = (entry.charts ?? []).filter(chart => chart.imagePath);
+      if (stored.length === 0) return;
+      try {
+        const loaded = await Promise.all(stored.map(async chart => ({
+          timeframe: chart.timeframe,
+          image: await imageStore.loadChartImage(chart.imagePath!),
+        })));
+        setSourceCharts({ resultId: entry.id, charts: loaded });
+        // The last chart is the entry chart the annotations refer to.
+        setOverlaySource({ resultId: entry.id, image: loaded[loaded.length - 1].image });
+      } catch (err: any) {
+        console.error(err);
+      }
+    },
+
+    showNew(entry: AnalysisResult, entryChart: string) {
+      setResult(entry);
+      setOverlaySource({ resultId: entry.id, image: entryChart });
+    },
+
+    // Keeps the shown result current when its entry changes elsewhere.
+    replace(updated: AnalysisResult) {
+      setResult(prev => (prev?.id === updated.id ? updated : prev));
+    },
+
+    overlaySaved(resultId: string, image: string) {
+      setSavedOverlay({ resultId, image });
+    },
+
+    close(id?: string) {
+      setResult(prev => (id === undefined || prev?.id === id ? null : prev));
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import { AnnotationLevel, AnnotationLevelKind, AnnotationZoneKind, ChartAnnotations } from '../types';
+import { loadImage } from './image';
+
+const LEVEL_COLORS: Record<AnnotationLevelKind, string> = {
+  entry: '#C5A059',
+  tp: '#34D399',
+  sl: '#F87171',
+  support: '#9CA3AF',
+  resistance: '#9CA3AF',
+};
+
+const ZONE_COLORS: Record<AnnotationZoneKind, string> = {
+  order_block: 'rgba(96, 165, 250, 0.18)',
+  fvg: 'rgba(192, 132, 252, 0.18)',
+};
+
+const LEVEL_NAMES: Record<AnnotationLevelKind, string> = {
+  entry: 'ENTRY',
+  tp: 'TP',
+  sl: 'SL',
+  support: 'S',
+  resistance: 'R',
+};
+
+export const levelLabel = (level: AnnotationLevel) =>
+  `${LEVEL_NAMES[level.kind]}${level.price !== null ? ` ${level.price}` : ''}`;
+
+// Draws zones, then level lines with price tags, over whatever is already on
+// the canvas. Sizes scale with the canvas so exports match the on-screen view.
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: ChartAnnotations,
+  { activeIndex, markers = [] }: { activeIndex?: number, markers?: number[] } = {}
+) => {
+  const { width, height } = ctx.canvas;
+  const unit = Math.max(1, width / 640);
+
+  for (const zone of annotations.zones) {
+    const x = zone.left * width;
+    const y = zone.top * height;
+    const h = Math.max(unit, (zone.bottom - zone.top) * height);
+    ctx.fillStyle = ZONE_COLORS[zone.kind];
+    ctx.fillRect(x, y, width - x, h);
+    if (zone.label) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.font = `${10 * unit}px sans-serif`;
+      ctx.fillText(zone.label, x + 4 * unit, y + 11 * unit);
+    }
+  }
+
+  annotations.levels.forEach((level, i) => {
+    const y = Math.round(level.y * height) + 0.5;
+    const color = LEVEL_COLORS[level.kind];
+    ctx.strokeStyle = color;
+    ctx.lineWidth = (i === activeIndex ? 2.5 : 1.5) * unit;
+    ctx.setLineDash(level.kind === 'support' || level.kind === 'resistance' ? [6 * unit, 4 * unit] : []);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const label = levelLabel(level);
+    ctx.font = `bold ${10 * unit}px sans-serif`;
+    const tagWidth = ctx.measureText(label).width + 8 * unit;
+    const tagHeight = 14 * unit;
+    ctx.fillStyle = color;
+    ctx.fillRect(width - tagWidth, y - tagHeight / 2, tagWidth, tagHeight);
+    ctx.fillStyle = '#0A0A0A';
+    ctx.fillText(label, width - tagWidth + 4 * unit, y + 4 * unit);
+  });
+
+  // Calibration points on the price axis; only drawn on screen.
+  for (const marker of markers) {
+    const y = marker * height;
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1.5 * unit;
+    ctx.beginPath();
+    ctx.arc(width - 24 * unit, y, 5 * unit, 0, Math.PI * 2);
+    ctx.moveTo(width - 40 * unit, y);
+    ctx.lineTo(width - 8 * unit, y);
+    ctx.stroke();
+  }
+};
+
+// Index of the level line closest to `y` (a fraction of the height), if any
+// is within `tolerance`.
+export const hitLevel = (annotations: ChartAnnotations, y: number, tolerance: number): number | null => {
+  let best: number | null = null;
+  annotations.levels.forEach((level, i) => {
+    const distance = Math.abs(level.y - y);
+    if (distance <= tolerance && (best === null || distance < Math.abs(annotations.levels[best].y - y))) best = i;
+  });
+  return best;
+};
+
+// Flattens the chart and its annotations into a PNG data URL, or a JPEG one
+// when a quality is given, optionally scaled down so the longest side is at
+// most maxDim.
+export const renderAnnotatedImage = async (src: string, annotations: ChartAnnotations, maxDim?: number, quality?: number) => {
+  const img = await loadImage(src);
+  const scale = maxDim ? Math.min(1, maxDim / Math.max(img.width, img.height)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  drawAnnotations(ctx, annotations);
+  return quality === undefined ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, TradingSignal } from '../types';
+import { replaySignal, runBacktest, toOutcome } from './backtest';
+import { Candle } from './ohlc';
+
+const START = Date.UTC(2024, 0, 2, 12);
+const HOUR = 3_600_000;
+
+const signal: TradingSignal = {
+  pair: 'EURUSD',
+  timeframe: 'H1',
+  action: 'BUY',
+  entry: '1.1000',
+  tp: '1.1100',
+  sl: '1.0950',
+  confidence: 70,
+  reasoning: 'Retest of support.',
+};
+
+const analysis = (changes: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id: 'a1',
+  signal,
+  technical: {},
+  fundamental: '',
+  timestamp: new Date(START).toISOString(),
+  ...changes,
+});
+
+// Hourly bars from the signal on, each given as [open, high, low].
+const bars = (...ohl: [number, number, number][]): Candle[] =>
+  ohl.map(([open, high, low], i) => ({ time: START + i * HOUR, open, high, low, close: open }));
+
+describe('replaySignal', () => {
+  it('fills the entry when a bar trades through it, then exits at the TP', () => {
+    const result = replaySignal(analysis(), bars([1.103, 1.104, 1.102], [1.102, 1.103, 1.099], [1.1, 1.111, 1.099]));
+    expect(result).toMatchObject({ status: 'tp_hit', triggeredAt: START + HOUR, exitPrice: 1.11, exitTime: START + 2 * HOUR });
+    expect(result.ambiguous).toBeUndefined();
+  });
+
+  it('exits at the SL', () => {
+    const result = replaySignal(analysis(), bars([1.101, 1.102, 1.0995], [1.1, 1.1, 1.094]));
+    expect(result).toMatchObject({ status: 'sl_hit', triggeredAt: START, exitPrice: 1.095, exitTime: START + HOUR });
+  });
+
+  it('cancels the setup when the TP is reached before the entry', () => {
+    const result = replaySignal(analysis(), bars([1.105, 1.112, 1.104], [1.104, 1.105, 1.099]));
+    expect(result).toMatchObject({ status: 'cancelled', exitTime: START });
+  });
+
+  it('ignores bars before the signal', () => {
+    const early = { time: START - HOUR, open: 1.1, high: 1.12, low: 1.09, close: 1.1 };
+    expect(replaySignal(analysis(), [early, ...bars([1.103, 1.104, 1.102])]).status).toBe('pending');
+  });
+
+  describe('a bar that reaches both the TP and the SL', () => {
+    // Filled on the first bar; the second spans both levels and opens nearer the TP.
+    const candles = bars([1.101, 1.102, 1.0999], [1.108, 1.111, 1.094]);
+
+    it('assumes the loss under sl-first', () => {
+      expect(replaySignal(analysis(), candles, 'sl-first')).toMatchObject({ status: 'sl_hit', exitPrice: 1.095, ambiguous: 'exit' });
+    });
+
+    it('assumes the win under tp-first', () => {
+      expect(replaySignal(analysis(), candles, 'tp-first')).toMatchObject({ status: 'tp_hit', exitPrice: 1.11, ambiguous: 'exit' });
+    });
+
+    it('takes the level nearest the open under nearest-open', () => {
+      expect(replaySignal(analysis(), candles, 'nearest-open')).toMatchObject({ status: 'tp_hit', ambiguous: 'exit' });
+      const nearSl = bars([1.101, 1.102, 1.0999], [1.097, 1.111, 1.094]);
+      expect(replaySignal(analysis(), nearSl, 'nearest-open')).toMatchObject({ status: 'sl_hit', ambiguous: 'exit' });
+    });
+  });
+
+  describe('a bar that fills the entry and reaches the TP', () => {
+    const candles = bars([1.107, 1.112, 1.099]);
+
+    it('may have been cancelled, so it is never a clean win', () => {
+      expect(replaySignal(analysis(), candles, 'sl-first')).toMatchObject({ status: 'cancelled', ambiguous: 'fill' });
+      expect(replaySignal(analysis(), candles, 'tp-first')).toMatchObject({ status: 'tp_hit', ambiguous: 'fill' });
+      expect(replaySignal(analysis(), candles, 'nearest-open')).toMatchObject({ status: 'cancelled', ambiguous: 'fill' });
+      expect(replaySignal(analysis(), bars([1.1005, 1.112, 1.099]), 'nearest-open')).toMatchObject({ status: 'tp_hit', ambiguous: 'fill' });
+    });
+
+    it('takes the loss under sl-first when the SL is reached too', () => {
+      expect(replaySignal(analysis(), bars([1.105, 1.112, 1.094]), 'sl-first')).toMatchObject({ status: 'sl_hit', ambiguous: 'fill' });
+    });
+
+    it('says so in the outcome notes', () => {
+      expect(toOutcome(replaySignal(analysis(), candles, 'tp-first'), 'tp-first').notes)
+        .toContain('TP reached in the bar that filled the entry; resolved tp-first.');
+    });
+  });
+
+  it('skips signals issued after the data ends', () => {
+    const result = replaySignal(analysis({ timestamp: new Date(START + 5 * HOUR).toISOString() }), bars([1.1, 1.101, 1.099]));
+    expect(result).toMatchObject({ status: 'pending', skipped: 'The data ends before this signal was issued.' });
+    expect(replaySignal(analysis(), []).skipped).toBe('The data ends before this signal was issued.');
+  });
+
+  it('skips signals it cannot replay', () => {
+    expect(replaySignal(analysis({ signal: { ...signal, action: 'NEUTRAL' } }), bars([1.1, 1.2, 1])).skipped).toBeDefined();
+    expect(replaySignal(analysis({ signal: { ...signal, sl: '1.1050' } }), bars([1.1, 1.2, 1])).skipped)
+      .toBe('Levels are on the wrong side of entry.');
+  });
+
+  it('ends pending when the entry is never filled, triggered when the trade is still open', () => {
+    expect(replaySignal(analysis(), bars([1.103, 1.104, 1.102]))).toMatchObject({ status: 'pending' });
+    expect(replaySignal(analysis(), bars([1.101, 1.102, 1.0995], [1.1, 1.105, 1.098]))).toMatchObject({ status: 'triggered', triggeredAt: START });
+  });
+});
+
+describe('runBacktest', () => {
+  it('replays only open signals for the pair', () => {
+    const now = new Date().toISOString();
+    const history = [
+      analysis({ id: 'open' }),
+      analysis({ id: 'triggered', outcome: { status: 'triggered', updatedAt: now } }),
+      analysis({ id: 'closed', outcome: { status: 'closed', exitPrice: 1.105, updatedAt: now } }),
+      analysis({ id: 'won', outcome: { status: 'tp_hit', updatedAt: now } }),
+      analysis({ id: 'other', signal: { ...signal, pair: 'GBPUSD' } }),
+    ];
+    const results = runBacktest(history, 'eur/usd', bars([1.1, 1.111, 1.0999]));
+    expect(results.map(result => result.entry.id)).toEqual(['open', 'triggered']);
+  });
+});
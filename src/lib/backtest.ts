@@ -0,0 +1,139 @@
+import { AnalysisResult, OutcomeStatus, TradeOutcome } from '../types';
+import { normalizeSymbol } from './instruments';
+import { Candle } from './ohlc';
+import { tradeLevels } from './priceLevels';
+
+// What to assume when one bar's range covers both the TP and the SL, since
+// OHLC data can't tell which was touched first.
+//  - 'sl-first': assume the loss (conservative default)
+//  - 'tp-first': assume the win
+//  - 'nearest-open': whichever level is closer to the bar's open
+export type AmbiguityRule = 'sl-first' | 'tp-first' | 'nearest-open';
+
+// Which bar the ambiguity rule had to decide:
+//  - 'exit': one bar reached both the TP and the SL
+//  - 'fill': the bar that filled the entry also reached the TP, which may
+//    have come first and cancelled the setup
+export type Ambiguity = 'exit' | 'fill';
+
+export interface BacktestResult {
+  entry: AnalysisResult;
+  status: OutcomeStatus;
+  triggeredAt?: number;
+  exitPrice?: number;
+  exitTime?: number;
+  // Set when the result was decided by the ambiguity rule.
+  ambiguous?: Ambiguity;
+  // Why the signal could not be replayed, if it wasn't.
+  skipped?: string;
+}
+
+// Outcomes a backtest may overwrite; anything else was closed deliberately.
+const REPLAYABLE: OutcomeStatus[] = ['pending', 'triggered'];
+
+export const isReplayable = (entry: AnalysisResult) =>
+  !entry.outcome || REPLAYABLE.includes(entry.outcome.status);
+
+const resolveAmbiguous = (bar: Candle, tp: number, sl: number, rule: AmbiguityRule): 'tp' | 'sl' => {
+  if (rule === 'tp-first') return 'tp';
+  if (rule === 'sl-first') return 'sl';
+  return Math.abs(bar.open - tp) < Math.abs(bar.open - sl) ? 'tp' : 'sl';
+};
+
+// The fill bar also reached the TP. If the TP came first the setup was
+// cancelled; otherwise the trade exits on this bar.
+const resolveFill = (
+  bar: Candle, entry: number, tp: number, sl: number, hitSl: boolean, rule: AmbiguityRule
+): 'tp' | 'sl' | 'cancelled' => {
+  if (rule === 'tp-first') return 'tp';
+  if (rule === 'sl-first') return hitSl ? 'sl' : 'cancelled';
+  if (Math.abs(bar.open - tp) < Math.abs(bar.open - entry)) return 'cancelled';
+  return hitSl ? resolveAmbiguous(bar, tp, sl, rule) : 'tp';
+};
+
+// Replays one signal over candles starting at its timestamp. The entry is a
+// resting order filled when a bar trades through it; if TP1 is reached before
+// that, the setup counts as cancelled.
+export const replaySignal = (
+  entry: AnalysisResult,
+  candles: Candle[],
+  rule: AmbiguityRule = 'sl-first'
+): BacktestResult => {
+  const skip = (reason: string): BacktestResult => ({ entry, status: 'pending', skipped: reason });
+  if (entry.signal.action === 'NEUTRAL') return skip('Neutral signals have no trade to replay.');
+  const levels = tradeLevels(entry.signal);
+  if (typeof levels === 'string') return skip(levels);
+  const { tp } = levels;
+
+  const isBuy = levels.action === 'BUY';
+  const reachedTp = (bar: Candle) => (isBuy ? bar.high >= tp : bar.low <= tp);
+  const reachedSl = (bar: Candle) => (isBuy ? bar.low <= levels.sl : bar.high >= levels.sl);
+  const start = Date.parse(entry.timestamp);
+
+  let triggeredAt: number | undefined;
+  for (const bar of candles) {
+    if (bar.time < start) continue;
+
+    if (triggeredAt === undefined) {
+      const touchesEntry = bar.low <= levels.entry && bar.high >= levels.entry;
+      if (!touchesEntry) {
+        if (reachedTp(bar)) return { entry, status: 'cancelled', exitTime: bar.time };
+        continue;
+      }
+      triggeredAt = bar.time;
+    }
+
+    const hitTp = reachedTp(bar);
+    const hitSl = reachedSl(bar);
+    if (!hitTp && !hitSl) continue;
+
+    const ambiguous: Ambiguity | undefined = hitTp && triggeredAt === bar.time ? 'fill' : hitTp && hitSl ? 'exit' : undefined;
+    const winner = ambiguous === 'fill'
+      ? resolveFill(bar, levels.entry, tp, levels.sl, hitSl, rule)
+      : ambiguous === 'exit' ? resolveAmbiguous(bar, tp, levels.sl, rule) : hitTp ? 'tp' : 'sl';
+    if (winner === 'cancelled') return { entry, status: 'cancelled', exitTime: bar.time, ambiguous };
+    return {
+      entry,
+      status: winner === 'tp' ? 'tp_hit' : 'sl_hit',
+      triggeredAt,
+      exitPrice: winner === 'tp' ? tp : levels.sl,
+      exitTime: bar.time,
+      ambiguous,
+    };
+  }
+
+  if (triggeredAt === undefined && (candles.length === 0 || candles[candles.length - 1].time < start)) {
+    return skip('The data ends before this signal was issued.');
+  }
+  return { entry, status: triggeredAt === undefined ? 'pending' : 'triggered', triggeredAt };
+};
+
+// Replays every history entry for `pair` that doesn't already have a final outcome.
+export const runBacktest = (
+  history: AnalysisResult[],
+  pair: string,
+  candles: Candle[],
+  rule: AmbiguityRule = 'sl-first'
+): BacktestResult[] => {
+  const symbol = normalizeSymbol(pair);
+  return history
+    .filter(entry => normalizeSymbol(entry.signal.pair) === symbol && isReplayable(entry))
+    .map(entry => replaySignal(entry, candles, rule));
+};
+
+const AMBIGUITY_NOTES: Record<Ambiguity, string> = {
+  exit: 'TP and SL in the same bar',
+  fill: 'TP reached in the bar that filled the entry',
+};
+
+export const toOutcome = (result: BacktestResult, rule: AmbiguityRule): TradeOutcome => ({
+  status: result.status,
+  exitPrice: result.exitPrice,
+  exitTime: result.exitTime !== undefined ? new Date(result.exitTime).toISOString() : undefined,
+  notes: [
+    result.triggeredAt !== undefined ? `Backtest: entry filled ${new Date(result.triggeredAt).toISOString()}.` : 'Backtest.',
+    result.ambiguous ? `${AMBIGUITY_NOTES[result.ambiguous]}; resolved ${rule}.` : '',
+  ].filter(Boolean).join(' '),
+  source: 'backtest',
+  updatedAt: new Date().toISOString(),
+});
@@ -0,0 +1,115 @@
+import { AnnotationLevel, AnnotationLevelKind, AxisPoint, ChartAnnotations, PriceCalibration, TradingSignal } from '../types';
+import { computeLevels } from './priceLevels';
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+// A level further than this from where its price sits on the axis, as a
+// fraction of the image height (about 10px on a typical screenshot), is flagged.
+export const MISMATCH_TOLERANCE = 0.015;
+
+export const createCalibration = (
+  a: AxisPoint,
+  b: AxisPoint,
+  source: PriceCalibration['source'] = 'manual'
+): PriceCalibration => {
+  if (![a.y, a.price, b.y, b.price].every(Number.isFinite)) {
+    throw new CalibrationError('Both axis points need a height and a price.');
+  }
+  if (Math.abs(a.y - b.y) < 0.02) {
+    throw new CalibrationError('Pick two axis labels further apart.');
+  }
+  if (a.price === b.price) {
+    throw new CalibrationError('The two axis labels must show different prices.');
+  }
+  // Prices fall as y grows (towards the bottom of the image).
+  if ((a.y < b.y) !== (a.price > b.price)) {
+    throw new CalibrationError('The higher label must show the higher price.');
+  }
+  return { points: [a, b], source };
+};
+
+// The axis points the model read, as a calibration, if they are usable.
+export const modelCalibration = (annotations: ChartAnnotations): PriceCalibration | null => {
+  if (!annotations.axis || annotations.axis.length < 2) return null;
+  try {
+    return createCalibration(annotations.axis[0], annotations.axis[annotations.axis.length - 1], 'model');
+  } catch {
+    return null;
+  }
+};
+
+const slope = ({ points: [a, b] }: PriceCalibration) => (b.price - a.price) / (b.y - a.y);
+
+export const yToPrice = (calibration: PriceCalibration, y: number) =>
+  calibration.points[0].price + (y - calibration.points[0].y) * slope(calibration);
+
+export const priceToY = (calibration: PriceCalibration, price: number) =>
+  calibration.points[0].y + (price - calibration.points[0].price) / slope(calibration);
+
+// Rounds to a tenth of a pip, the precision brokers quote in.
+export const roundToPip = (price: number, pipSize: number) => {
+  const step = pipSize / 10;
+  const digits = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number((Math.round(price / step) * step).toFixed(digits));
+};
+
+export interface LevelCheck {
+  index: number;
+  level: AnnotationLevel;
+  // Price on the axis at the line's height.
+  axisPrice: number;
+  // Model price minus axis price, in pips; null when the model gave no price.
+  offsetPips: number | null;
+  mismatch: boolean;
+}
+
+// Compares each level's stated price with where its line sits on the axis.
+export const checkLevels = (
+  annotations: ChartAnnotations,
+  calibration: PriceCalibration,
+  pipSize: number
+): LevelCheck[] =>
+  annotations.levels.map((level, index) => {
+    const axisPrice = roundToPip(yToPrice(calibration, level.y), pipSize);
+    if (level.price === null) return { index, level, axisPrice, offsetPips: null, mismatch: false };
+    return {
+      index,
+      level,
+      axisPrice,
+      offsetPips: Number(((level.price - axisPrice) / pipSize).toFixed(1)),
+      mismatch: Math.abs(priceToY(calibration, level.price) - level.y) > MISMATCH_TOLERANCE,
+    };
+  });
+
+// Replaces every level's price with the axis price at its line.
+export const snapLevels = (
+  annotations: ChartAnnotations,
+  calibration: PriceCalibration,
+  pipSize: number
+): ChartAnnotations => ({
+  ...annotations,
+  calibration,
+  levels: annotations.levels.map(level => ({ ...level, price: roundToPip(yToPrice(calibration, level.y), pipSize) })),
+});
+
+// Rewrites the signal's entry, TP and SL from (snapped) annotation levels.
+// Fields without a matching line are left as the model wrote them.
+export const applyLevelPrices = (signal: TradingSignal, annotations: ChartAnnotations): TradingSignal => {
+  const prices = (kind: AnnotationLevelKind) =>
+    annotations.levels.flatMap(level => (level.kind === kind && level.price !== null ? [level.price] : []));
+  const [entry] = prices('entry');
+  const tp = prices('tp');
+  const [sl] = prices('sl');
+  const next = {
+    ...signal,
+    entry: entry !== undefined ? String(entry) : signal.entry,
+    tp: tp.length > 0 ? tp.join(' / ') : signal.tp,
+    sl: sl !== undefined ? String(sl) : signal.sl,
+  };
+  return { ...next, levels: computeLevels(next) };
+};
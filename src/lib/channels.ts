@@ -0,0 +1,68 @@
+import { normalizeSymbol } from './instruments';
+import { ChannelFilters, ChannelType, NotificationChannel, TradingSignal } from '../types';
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  // Never sent back to the client in full; see maskSecret.
+  secret?: boolean;
+}
+
+export const CHANNEL_TYPES: Record<ChannelType, { label: string; fields: ChannelField[] }> = {
+  telegram: {
+    label: 'Telegram bot',
+    fields: [
+      { key: 'botToken', label: 'Bot token', placeholder: '123456:ABC-DEF…', secret: true },
+      { key: 'chatId', label: 'Chat ID', placeholder: '-1001234567890 or @channel' },
+    ],
+  },
+  discord: {
+    label: 'Discord webhook',
+    fields: [
+      { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://discord.com/api/webhooks/…', secret: true },
+    ],
+  },
+  webhook: {
+    label: 'HTTP webhook',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/signals' },
+      { key: 'secret', label: 'Signing secret', placeholder: 'Used for the HMAC-SHA256 signature', secret: true },
+    ],
+  },
+};
+
+export const ACTIONS: TradingSignal['action'][] = ['BUY', 'SELL', 'NEUTRAL'];
+
+export const NO_FILTERS: ChannelFilters = { actions: [], minConfidence: null, pairs: [] };
+
+const URL_FIELDS = new Set(['webhookUrl', 'url']);
+
+export const isChannelType = (value: unknown): value is ChannelType =>
+  typeof value === 'string' && value in CHANNEL_TYPES;
+
+// What the admin panel shows for a stored secret, e.g. ••••f3a9.
+export const maskSecret = (value: string) => (value ? `••••${value.slice(-4)}` : '');
+
+export const checkChannel = (channel: Pick<NotificationChannel, 'name' | 'type' | 'config' | 'filters'>): string[] => {
+  const problems: string[] = [];
+  if (!channel.name.trim()) problems.push('Name is required.');
+  for (const field of CHANNEL_TYPES[channel.type].fields) {
+    const value = channel.config[field.key]?.trim() ?? '';
+    if (!value) {
+      problems.push(`${field.label} is required.`);
+    } else if (URL_FIELDS.has(field.key) && !/^https?:\/\/[^\s/]+/i.test(value)) {
+      problems.push(`${field.label} must be an http or https URL.`);
+    }
+  }
+  const { minConfidence } = channel.filters;
+  if (minConfidence !== null && !(Number.isFinite(minConfidence) && minConfidence >= 0 && minConfidence <= 100)) {
+    problems.push('Minimum confidence must be between 0 and 100.');
+  }
+  return problems;
+};
+
+export const matchesFilters = (signal: TradingSignal, filters: ChannelFilters) =>
+  (filters.actions.length === 0 || filters.actions.includes(signal.action))
+  && (filters.minConfidence === null || signal.confidence >= filters.minConfidence)
+  && (filters.pairs.length === 0 || filters.pairs.map(normalizeSymbol).includes(normalizeSymbol(signal.pair)));
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+import { historyToCsv } from './historyExport';
+import { AnalysisResult } from '../types';
+
+describe('toCsv', () => {
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['1, 2', 'say "hi"\nbye']])).toBe('a,b\r\n"1, 2","say ""hi""\nbye"');
+  });
+
+  it('keeps text that starts like a formula from running', () => {
+    expect(toCsv(['cell'], [['=HYPERLINK("http://x")'], ['+1'], ['-1+2'], ['@SUM(A1)'], ['\tTab'], ['\rCR']])).toBe([
+      'cell',
+      `"'=HYPERLINK(""http://x"")"`,
+      "'+1",
+      "'-1+2",
+      "'@SUM(A1)",
+      "'\tTab",
+      `"'\rCR"`,
+    ].join('\r\n'));
+  });
+
+  it('leaves numbers and other text alone', () => {
+    expect(toCsv(['a', 'b', 'c'], [[-1.5, 'Sell at 1.0850', null]])).toBe('a,b,c\r\n-1.5,Sell at 1.0850,');
+  });
+});
+
+describe('historyToCsv', () => {
+  it('neutralizes formulas in model and imported text', () => {
+    const entry: AnalysisResult = {
+      id: 'e1',
+      signal: {
+        pair: 'EURUSD',
+        timeframe: 'H1',
+        action: 'SELL',
+        entry: '1.0850',
+        tp: '1.0800',
+        sl: '1.0880',
+        confidence: 60,
+        reasoning: '=cmd|\' /C calc\'!A0',
+      },
+      technical: {},
+      fundamental: '',
+      timestamp: '2026-10-19T00:00:00.000Z',
+      outcome: { status: 'closed', exitPrice: -0.5, updatedAt: '2026-10-19T00:00:00.000Z' },
+    };
+    const row = historyToCsv([entry]).split('\r\n')[1].split(',');
+    expect(row[5]).toBe('60');
+    expect(row[10]).toBe('-0.5');
+    expect(row[12]).toBe("'=cmd|' /C calc'!A0");
+  });
+});
@@ -0,0 +1,25 @@
+type Cell = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quotes a field when it contains a delimiter, quote or line break (RFC 4180).
+// Text that would be read as a formula gets a leading ' so it stays text;
+// numbers are left alone so they stay numbers.
+const escapeCell = (value: Cell) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  const safe = typeof value === 'string' && FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (header: string[], rows: Cell[][]) =>
+  [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+export const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,100 @@
+import { toCsv } from './csv';
+import { getOutcome } from './outcomes';
+import { parseStoredAnalysis } from './storedAnalysis';
+import { AnalysisValidationError } from './validateAnalysis';
+import { AnalysisResult } from '../types';
+
+// Marks our export files, so an import can tell them from arbitrary JSON.
+const EXPORT_FORMAT = 'vertexchart-history';
+const EXPORT_VERSION = 1;
+
+export interface HistoryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: AnalysisResult[];
+}
+
+// One row per analysis, for spreadsheets. Technical sections and the macro
+// text are left to the JSON export.
+export const historyToCsv = (entries: AnalysisResult[]) =>
+  toCsv(
+    ['id', 'time', 'pair', 'timeframe', 'action', 'confidence', 'entry', 'tp', 'sl', 'outcome', 'exit_price', 'exit_time', 'reasoning', 'model', 'template'],
+    entries.map(entry => {
+      const outcome = getOutcome(entry);
+      return [
+        entry.id,
+        entry.timestamp,
+        entry.signal.pair,
+        entry.signal.timeframe,
+        entry.signal.action,
+        entry.signal.confidence,
+        entry.signal.entry,
+        entry.signal.tp,
+        entry.signal.sl,
+        outcome.status,
+        outcome.exitPrice,
+        outcome.exitTime,
+        entry.signal.reasoning,
+        entry.model && `${entry.model.provider}/${entry.model.name}`,
+        entry.template && `${entry.template.name} v${entry.template.version}`,
+      ];
+    })
+  );
+
+// Full-size images live in the exporter's storage, so only thumbnails travel,
+// and the owner is whoever imports the file.
+export const historyToJson = (entries: AnalysisResult[]) => {
+  const file: HistoryExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: entries.map(({ owner, charts, annotatedImagePath, ...entry }) => ({
+      ...entry,
+      ...(charts ? { charts: charts.map(({ imagePath, ...chart }) => chart) } : {}),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const downloadJson = (fileName: string, json: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export interface HistoryImport {
+  entries: AnalysisResult[];
+  // One line per entry that was skipped, e.g. "Entry 3: signal.pair is missing".
+  errors: string[];
+}
+
+// Parses an export file (or a bare array or single analysis); see
+// parseStoredAnalysis. Entries get new ids so importing a file twice, or into
+// another account, never collides.
+export const parseHistoryImport = (text: string): HistoryImport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const items = Array.isArray((raw as any)?.entries) ? (raw as any).entries : Array.isArray(raw) ? raw : [raw];
+
+  const entries: AnalysisResult[] = [];
+  const errors: string[] = [];
+  items.forEach((item: unknown, i: number) => {
+    try {
+      entries.push({ ...parseStoredAnalysis(item), id: crypto.randomUUID() });
+    } catch (err: any) {
+      const problems = err instanceof AnalysisValidationError
+        ? err.issues.map(issue => `${issue.path} ${issue.message}`).join('; ')
+        : err.message;
+      errors.push(`Entry ${i + 1}: ${problems}`);
+    }
+  });
+  return { entries, errors };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult } from '../types';
+import { dateBounds, matchesQuery } from './historyQuery';
+
+// Local time, as the date filter is.
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes).toISOString();
+
+const entry = (changes: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id: 'e1',
+  signal: {
+    pair: 'EUR/USD',
+    timeframe: 'H1',
+    action: 'BUY',
+    entry: '1.0850',
+    tp: '1.0900',
+    sl: '1.0820',
+    confidence: 70,
+    reasoning: 'Bullish break of structure.',
+  },
+  technical: { ict: 'Fair value gap filled.', snr: 'Support held.' },
+  fundamental: 'Dovish Fed minutes.',
+  timestamp: at(18, 12),
+  ...changes,
+});
+
+describe('dateBounds', () => {
+  it('spans from the start of the first day to the end of the last, in local time', () => {
+    expect(dateBounds({ from: '2026-10-18', to: '2026-10-19' })).toEqual({
+      start: new Date(2026, 9, 18).getTime(),
+      end: new Date(2026, 9, 20).getTime(),
+    });
+    expect(dateBounds({})).toEqual({ start: undefined, end: undefined });
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches everything with an empty query', () => {
+    expect(matchesQuery(entry(), {})).toBe(true);
+  });
+
+  it('includes the whole of both days in the range', () => {
+    const range = { from: '2026-10-18', to: '2026-10-18' };
+    expect(matchesQuery(entry({ timestamp: at(18, 0) }), range)).toBe(true);
+    expect(matchesQuery(entry({ timestamp: at(18, 23, 59) }), range)).toBe(true);
+    expect(matchesQuery(entry({ timestamp: at(17, 23, 59) }), range)).toBe(false);
+    expect(matchesQuery(entry({ timestamp: at(19, 0) }), range)).toBe(false);
+  });
+
+  it('keeps confidence within the range, bounds included', () => {
+    expect(matchesQuery(entry(), { minConfidence: 70, maxConfidence: 70 })).toBe(true);
+    expect(matchesQuery(entry(), { minConfidence: 71 })).toBe(false);
+    expect(matchesQuery(entry(), { maxConfidence: 69 })).toBe(false);
+  });
+
+  it('only keeps the owner\'s entries', () => {
+    expect(matchesQuery(entry({ owner: 'code-1' }), { owner: 'code-1' })).toBe(true);
+    expect(matchesQuery(entry({ owner: 'code-2' }), { owner: 'code-1' })).toBe(false);
+    expect(matchesQuery(entry(), { owner: 'code-1' })).toBe(false);
+  });
+
+  it('compares pairs however they are written', () => {
+    expect(matchesQuery(entry(), { pair: 'eurusd' })).toBe(true);
+    expect(matchesQuery(entry(), { pair: 'EUR-USD' })).toBe(true);
+    expect(matchesQuery(entry(), { pair: 'GBPUSD' })).toBe(false);
+  });
+
+  it('needs every search term somewhere in the text', () => {
+    expect(matchesQuery(entry(), { search: 'BULLISH  gap' })).toBe(true);
+    expect(matchesQuery(entry(), { search: 'dovish support' })).toBe(true);
+    expect(matchesQuery(entry(), { search: 'bullish bearish' })).toBe(false);
+  });
+
+  it('filters by action and outcome', () => {
+    expect(matchesQuery(entry(), { action: 'SELL' })).toBe(false);
+    expect(matchesQuery(entry(), { outcome: 'pending' })).toBe(true);
+    expect(matchesQuery(entry({ outcome: { status: 'tp_hit', updatedAt: at(19, 0) } }), { outcome: 'pending' })).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { normalizeSymbol } from './instruments';
+import { getOutcome } from './outcomes';
+import { AnalysisResult, OutcomeStatus, TradingSignal } from '../types';
+
+export const HISTORY_PAGE_SIZE = 20;
+
+// Filters for the History tab. Every field is optional; an empty query
+// matches every entry.
+export interface HistoryQuery {
+  // Words that must all appear in the reasoning, technical or fundamental text.
+  search?: string;
+  pair?: string;
+  action?: TradingSignal['action'];
+  minConfidence?: number;
+  maxConfidence?: number;
+  // Inclusive calendar days (yyyy-mm-dd) in local time.
+  from?: string;
+  to?: string;
+  outcome?: OutcomeStatus;
+  // Only entries saved by this session owner.
+  owner?: string;
+}
+
+export const isEmptyQuery = (query: HistoryQuery) =>
+  Object.values(query).every(value => value === undefined || value === '');
+
+export const searchTerms = (search = '') => search.toLowerCase().split(/\s+/).filter(Boolean);
+
+// The text a search runs over, lowercased. Mirrors history_search_text() in
+// the history_search migration, which generates the search_text column.
+export const searchableText = (entry: AnalysisResult) =>
+  [entry.signal.reasoning, ...Object.values(entry.technical ?? {}), entry.fundamental].join(' ').toLowerCase();
+
+// The date range as timestamps: the start of `from` and the start of the day
+// after `to`, so the whole last day is included.
+export const dateBounds = ({ from, to }: HistoryQuery): { start?: number, end?: number } => {
+  const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+  return {
+    start: from ? startOfDay(from) : undefined,
+    end: to ? startOfDay(to) + 24 * 60 * 60 * 1000 : undefined,
+  };
+};
+
+export const matchesQuery = (entry: AnalysisResult, query: HistoryQuery): boolean => {
+  const { signal } = entry;
+  if (query.owner && entry.owner !== query.owner) return false;
+  if (query.pair && normalizeSymbol(signal.pair) !== normalizeSymbol(query.pair)) return false;
+  if (query.action && signal.action !== query.action) return false;
+  if (query.minConfidence !== undefined && signal.confidence < query.minConfidence) return false;
+  if (query.maxConfidence !== undefined && signal.confidence > query.maxConfidence) return false;
+  if (query.outcome && getOutcome(entry).status !== query.outcome) return false;
+
+  const { start, end } = dateBounds(query);
+  const time = new Date(entry.timestamp).getTime();
+  if (start !== undefined && time < start) return false;
+  if (end !== undefined && time >= end) return false;
+
+  const terms = searchTerms(query.search);
+  if (terms.length === 0) return true;
+  const text = searchableText(entry);
+  return terms.every(term => text.includes(term));
+};
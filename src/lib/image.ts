@@ -0,0 +1,111 @@
+// Charts smaller than this on either side are too blurry to read levels from.
+export const MIN_CHART_DIM = 200;
+
+// Raised for files that can't be used as a chart.
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+  }
+}
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not read the image.'));
+    img.src = src;
+  });
+
+export const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(new Error('Could not read the file.'));
+    reader.readAsDataURL(file);
+  });
+
+// Scales an image so its longest side is at most maxDim and re-encodes it as JPEG.
+export const resizeImage = async (src: string, maxDim: number, quality: number): Promise<string> => {
+  const img = await loadImage(src);
+  let width = img.width;
+  let height = img.height;
+
+  if (width > height) {
+    if (width > maxDim) {
+      height *= maxDim / width;
+      width = maxDim;
+    }
+  } else {
+    if (height > maxDim) {
+      width *= maxDim / height;
+      height = maxDim;
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  ctx?.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Checks that an image is big enough to analyse, then compresses it.
+export const prepareChartImage = async (src: string) => {
+  const img = await loadImage(src).catch(() => {
+    throw new ImageInputError('That image could not be read.');
+  });
+  if (img.width < MIN_CHART_DIM || img.height < MIN_CHART_DIM) {
+    throw new ImageInputError(`That image is too small to read (minimum ${MIN_CHART_DIM}×${MIN_CHART_DIM} px).`);
+  }
+  // Basic image compression/resizing: max dimension 1280px, JPEG with 0.8 quality
+  return resizeImage(src, 1280, 0.8);
+};
+
+// Same checks for a pasted, dropped or picked file.
+export const readChartImage = async (file: Blob) => {
+  if (!file.type.startsWith('image/')) {
+    throw new ImageInputError('Only image files can be analysed.');
+  }
+  return prepareChartImage(await readAsDataUrl(file));
+};
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Crop rectangle as fractions of the (rotated) image.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rotates by a quarter turn multiple, then crops. Output is a lossless PNG so
+// the later compression step is the only lossy one.
+export const transformImage = async (src: string, rotation: Rotation, crop?: CropRect): Promise<string> => {
+  const img = await loadImage(src);
+  const turned = rotation === 90 || rotation === 270;
+  const rotated = document.createElement('canvas');
+  rotated.width = turned ? img.height : img.width;
+  rotated.height = turned ? img.width : img.height;
+  const rctx = rotated.getContext('2d');
+  if (!rctx) throw new Error('Canvas is not supported in this browser.');
+  rctx.translate(rotated.width / 2, rotated.height / 2);
+  rctx.rotate((rotation * Math.PI) / 180);
+  rctx.drawImage(img, -img.width / 2, -img.height / 2);
+  if (!crop) return rotated.toDataURL('image/png');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * rotated.width));
+  canvas.height = Math.max(1, Math.round(crop.height * rotated.height));
+  canvas.getContext('2d')?.drawImage(
+    rotated,
+    crop.x * rotated.width, crop.y * rotated.height, canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height
+  );
+  return canvas.toDataURL('image/png');
+};
+
+// Small preview kept with history entries.
+export const makeThumbnail = (src: string) => resizeImage(src, 320, 0.6);
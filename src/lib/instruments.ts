@@ -0,0 +1,71 @@
+export type InstrumentKind = 'fx' | 'jpy' | 'metal' | 'index' | 'crypto';
+
+export interface Instrument {
+  symbol: string;
+  kind: InstrumentKind;
+  // Price increment that counts as one pip (FX) or one point (metals, indices).
+  pipSize: number;
+  // Units of the instrument in one standard lot.
+  contractSize: number;
+  // Currency the price is quoted in; pip values are in this currency.
+  quoteCurrency: string;
+  baseCurrency: string | null;
+}
+
+const METALS: Record<string, { pipSize: number, contractSize: number }> = {
+  XAU: { pipSize: 0.1, contractSize: 100 },
+  XAG: { pipSize: 0.01, contractSize: 5000 },
+  XPT: { pipSize: 0.1, contractSize: 100 },
+  XPD: { pipSize: 0.1, contractSize: 100 },
+};
+
+// Cash indices, keyed by the currency they are quoted in.
+const INDICES: [RegExp, string][] = [
+  [/^(US30|DJ30|DJI|US100|NAS100|NDX|US500|SPX500|SPX|US2000)/, 'USD'],
+  [/^(GER40|GER30|DE40|DAX|FRA40|EU50|ESP35)/, 'EUR'],
+  [/^(UK100|FTSE)/, 'GBP'],
+  [/^(JP225|JPN225|NIK225)/, 'JPY'],
+  [/^AUS200/, 'AUD'],
+  [/^HK50/, 'HKD'],
+];
+
+const CRYPTO_PATTERN = /^(BTC|ETH|SOL|XRP|LTC)/;
+// Longest first, so BTCUSDT is quoted in USDT rather than USD.
+const CRYPTO_QUOTES = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'USD', 'EUR', 'GBP', 'JPY', 'BTC', 'ETH'];
+
+// Normalises "eur/usd", "XAUUSD.m" or "EURUSD (H1)" to a bare symbol.
+export const normalizeSymbol = (pair: string) =>
+  pair.toUpperCase().split(/[\s(.]/)[0].replace(/[^A-Z0-9]/g, '');
+
+// Classifies a pair so pip distances and pip values can be worked out.
+// Unknown symbols fall back to a guess from the price's magnitude.
+export const getInstrument = (pair: string, price?: number | null): Instrument => {
+  const symbol = normalizeSymbol(pair);
+  const base = symbol.slice(0, 3);
+  const quote = symbol.slice(3, 6) || 'USD';
+
+  if (METALS[base]) {
+    return { symbol, kind: 'metal', ...METALS[base], quoteCurrency: quote, baseCurrency: null };
+  }
+  const index = INDICES.find(([pattern]) => pattern.test(symbol));
+  if (index) {
+    return { symbol, kind: 'index', pipSize: 1, contractSize: 1, quoteCurrency: index[1], baseCurrency: null };
+  }
+  if (CRYPTO_PATTERN.test(symbol)) {
+    const cryptoQuote = CRYPTO_QUOTES.find(currency => symbol.length > currency.length + 2 && symbol.endsWith(currency)) ?? 'USD';
+    return { symbol, kind: 'crypto', pipSize: 1, contractSize: 1, quoteCurrency: cryptoQuote, baseCurrency: null };
+  }
+  if (/^[A-Z]{6}$/.test(symbol)) {
+    return quote === 'JPY'
+      ? { symbol, kind: 'jpy', pipSize: 0.01, contractSize: 100000, quoteCurrency: quote, baseCurrency: base }
+      : { symbol, kind: 'fx', pipSize: 0.0001, contractSize: 100000, quoteCurrency: quote, baseCurrency: base };
+  }
+
+  if (price != null && price >= 1000) {
+    return { symbol, kind: 'index', pipSize: 1, contractSize: 1, quoteCurrency: 'USD', baseCurrency: null };
+  }
+  if (price != null && price >= 50) {
+    return { symbol, kind: 'jpy', pipSize: 0.01, contractSize: 100000, quoteCurrency: 'JPY', baseCurrency: null };
+  }
+  return { symbol, kind: 'fx', pipSize: 0.0001, contractSize: 100000, quoteCurrency: 'USD', baseCurrency: null };
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, OutcomeStatus, TradingSignal } from '../types';
+import { analyzeJournal, confidenceBucket, toTradeRecord } from './journalStats';
+
+let nextId = 0;
+
+// A EURUSD BUY risking 100 pips for 200: a TP hit is +2R, an SL hit -1R.
+const trade = (
+  status: OutcomeStatus,
+  closedOn: number,
+  { exitPrice, ...signal }: Partial<TradingSignal> & { exitPrice?: number } = {}
+): AnalysisResult => ({
+  id: `t${++nextId}`,
+  signal: { pair: 'EURUSD', timeframe: 'H1', action: 'BUY', entry: '1.1000', tp: '1.1200', sl: '1.0900', confidence: 75, reasoning: '', ...signal },
+  technical: {},
+  fundamental: '',
+  timestamp: '2026-10-01T00:00:00.000Z',
+  outcome: { status, exitPrice, exitTime: `2026-10-${String(closedOn).padStart(2, '0')}T12:00:00.000Z`, updatedAt: '2026-10-19T00:00:00.000Z' },
+});
+
+describe('toTradeRecord', () => {
+  it('measures closed trades in R', () => {
+    expect(toTradeRecord(trade('tp_hit', 1))?.r).toBe(2);
+    expect(toTradeRecord(trade('sl_hit', 1))?.r).toBe(-1);
+    expect(toTradeRecord(trade('closed', 1, { exitPrice: 1.105 }))?.r).toBe(0.5);
+    expect(toTradeRecord(trade('tp_hit', 1, { action: 'SELL', entry: '1.1000', tp: '1.0850', sl: '1.1050' }))?.r).toBe(3);
+  });
+
+  it('skips open, cancelled, neutral and unmeasurable entries', () => {
+    expect(toTradeRecord(trade('pending', 1))).toBeNull();
+    expect(toTradeRecord(trade('triggered', 1))).toBeNull();
+    expect(toTradeRecord(trade('cancelled', 1))).toBeNull();
+    expect(toTradeRecord(trade('tp_hit', 1, { action: 'NEUTRAL' }))).toBeNull();
+    expect(toTradeRecord(trade('closed', 1))).toBeNull();
+    expect(toTradeRecord(trade('sl_hit', 1, { sl: 'none' }))).toBeNull();
+    expect(toTradeRecord({ ...trade('tp_hit', 1), outcome: undefined })).toBeNull();
+  });
+});
+
+describe('analyzeJournal', () => {
+  // In the order they closed: +2, -1, -1, +2, +2, 0, -1.
+  const history = [
+    trade('tp_hit', 4, { confidence: 92 }),
+    trade('sl_hit', 2, { confidence: 65 }),
+    trade('closed', 6, { exitPrice: 1.1, confidence: 70 }),
+    trade('tp_hit', 1, { confidence: 85, pair: 'XAUUSD', entry: '2300', tp: '2320', sl: '2290', timeframe: 'M15' }),
+    trade('sl_hit', 7, { confidence: 40, action: 'SELL', entry: '1.1000', tp: '1.0800', sl: '1.1100' }),
+    trade('tp_hit', 5, { confidence: 88 }),
+    trade('sl_hit', 3, { confidence: 72 }),
+    trade('pending', 8),
+    trade('cancelled', 8),
+  ];
+  const { overall, byPair, byAction, byTimeframe, byConfidence } = analyzeJournal(history);
+
+  it('counts wins, losses and win rate', () => {
+    expect(overall).toMatchObject({ trades: 7, wins: 3, losses: 3, winRate: 0.4286 });
+  });
+
+  it('works out expectancy and profit factor', () => {
+    expect(overall).toMatchObject({ averageR: 0.43, averageWinR: 2, averageLossR: 1, expectancy: 0.43, profitFactor: 2 });
+  });
+
+  it('measures the deepest drawdown of the R curve in closing order', () => {
+    // Equity 2, 1, 0, 2, 4, 4, 3.
+    expect(overall.maxDrawdown).toBe(2);
+  });
+
+  it('tracks streaks, with breakeven ending one', () => {
+    expect(overall).toMatchObject({ longestWinStreak: 2, longestLossStreak: 2, currentStreak: -1 });
+  });
+
+  it('groups by pair, action and timeframe, largest first', () => {
+    expect(byPair.map(group => [group.key, group.stats.trades])).toEqual([['EURUSD', 6], ['XAUUSD', 1]]);
+    expect(byAction.map(group => [group.key, group.stats.trades])).toEqual([['BUY', 6], ['SELL', 1]]);
+    expect(byTimeframe.map(group => [group.key, group.stats.trades])).toEqual([['H1', 6], ['M15', 1]]);
+  });
+
+  it('buckets by confidence from high to low', () => {
+    expect(byConfidence.map(group => [group.key, group.stats.trades, group.stats.wins])).toEqual([
+      ['90-100', 1, 1],
+      ['80-89', 2, 2],
+      ['70-79', 2, 0],
+      ['60-69', 1, 0],
+      ['0-49', 1, 0],
+    ]);
+    expect(confidenceBucket(100)).toBe('90-100');
+    expect(confidenceBucket(50)).toBe('50-59');
+    expect(confidenceBucket(49)).toBe('0-49');
+  });
+
+  it('has no profit factor without losses', () => {
+    expect(analyzeJournal([trade('tp_hit', 1)]).overall.profitFactor).toBeNull();
+  });
+
+  it('returns zeros for an empty history', () => {
+    const empty = analyzeJournal([]);
+    expect(empty.overall).toEqual({
+      trades: 0,
+      wins: 0,
+      losses: 0,
+      winRate: 0,
+      averageR: 0,
+      averageWinR: 0,
+      averageLossR: 0,
+      expectancy: 0,
+      profitFactor: null,
+      maxDrawdown: 0,
+      longestWinStreak: 0,
+      longestLossStreak: 0,
+      currentStreak: 0,
+    });
+    expect(empty.byPair).toEqual([]);
+    expect(empty.byConfidence).toEqual([]);
+  });
+
+  it('ignores a history of only open trades', () => {
+    const open = analyzeJournal([trade('pending', 1), trade('triggered', 2)]);
+    expect(open.overall.trades).toBe(0);
+    expect(open.overall.expectancy).toBe(0);
+    expect(open.byAction).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { AnalysisResult } from '../types';
+import { normalizeSymbol } from './instruments';
+import { CLOSED_STATUSES } from './outcomes';
+import { getLevels } from './priceLevels';
+
+// A closed BUY/SELL journal entry, measured in multiples of its initial risk.
+export interface TradeRecord {
+  entry: AnalysisResult;
+  r: number;
+  closedAt: string;
+}
+
+export interface JournalStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  averageR: number;
+  averageWinR: number;
+  averageLossR: number;
+  // Expected R per trade: winRate * averageWinR - lossRate * averageLossR.
+  expectancy: number;
+  // Gross winning R over gross losing R; null when there are no losses.
+  profitFactor: number | null;
+  // Largest peak-to-trough fall of the cumulative R curve.
+  maxDrawdown: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  // Positive for a run of wins, negative for a run of losses.
+  currentStreak: number;
+}
+
+export interface StatsGroup {
+  key: string;
+  stats: JournalStats;
+}
+
+export interface JournalBreakdown {
+  overall: JournalStats;
+  byPair: StatsGroup[];
+  byAction: StatsGroup[];
+  byTimeframe: StatsGroup[];
+  byConfidence: StatsGroup[];
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Returns null for entries that are not closed trades or whose R multiple
+// can't be worked out (no entry/SL, or a manual close without exit price).
+export const toTradeRecord = (entry: AnalysisResult): TradeRecord | null => {
+  const { signal, outcome } = entry;
+  if (signal.action === 'NEUTRAL' || !outcome || !CLOSED_STATUSES.includes(outcome.status)) return null;
+
+  const levels = getLevels(signal);
+  if (levels.entry === null || levels.sl === null || levels.entry === levels.sl) return null;
+
+  const exit = outcome.exitPrice
+    ?? (outcome.status === 'tp_hit' ? levels.tp[0] : outcome.status === 'sl_hit' ? levels.sl : undefined);
+  if (exit === undefined) return null;
+
+  const direction = signal.action === 'BUY' ? 1 : -1;
+  const risk = Math.abs(levels.entry - levels.sl);
+  return {
+    entry,
+    r: round((direction * (exit - levels.entry)) / risk),
+    closedAt: outcome.exitTime ?? outcome.updatedAt,
+  };
+};
+
+export const computeStats = (records: TradeRecord[]): JournalStats => {
+  const ordered = [...records].sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+  const wins = ordered.filter(t => t.r > 0);
+  const losses = ordered.filter(t => t.r < 0);
+  const sum = (items: TradeRecord[]) => items.reduce((total, t) => total + t.r, 0);
+
+  const trades = ordered.length;
+  const winRate = trades ? wins.length / trades : 0;
+  const lossRate = trades ? losses.length / trades : 0;
+  const averageWinR = wins.length ? sum(wins) / wins.length : 0;
+  const averageLossR = losses.length ? Math.abs(sum(losses)) / losses.length : 0;
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let streak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  for (const trade of ordered) {
+    equity += trade.r;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+
+    // Breakeven trades end a streak without starting a new one.
+    if (trade.r > 0) streak = streak > 0 ? streak + 1 : 1;
+    else if (trade.r < 0) streak = streak < 0 ? streak - 1 : -1;
+    else streak = 0;
+    longestWinStreak = Math.max(longestWinStreak, streak);
+    longestLossStreak = Math.max(longestLossStreak, -streak);
+  }
+
+  return {
+    trades,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: round(winRate, 4),
+    averageR: trades ? round(sum(ordered) / trades) : 0,
+    averageWinR: round(averageWinR),
+    averageLossR: round(averageLossR),
+    expectancy: round(winRate * averageWinR - lossRate * averageLossR),
+    profitFactor: losses.length ? round(sum(wins) / Math.abs(sum(losses))) : null,
+    maxDrawdown: round(maxDrawdown),
+    longestWinStreak,
+    longestLossStreak,
+    currentStreak: streak,
+  };
+};
+
+const CONFIDENCE_BUCKETS: [number, string][] = [[90, '90-100'], [80, '80-89'], [70, '70-79'], [60, '60-69'], [50, '50-59'], [0, '0-49']];
+
+export const confidenceBucket = (confidence: number) =>
+  (CONFIDENCE_BUCKETS.find(([min]) => confidence >= min) ?? CONFIDENCE_BUCKETS[CONFIDENCE_BUCKETS.length - 1])[1];
+
+const groupBy = (records: TradeRecord[], keyOf: (record: TradeRecord) => string): StatsGroup[] => {
+  const groups = new Map<string, TradeRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups.entries()]
+    .map(([key, items]) => ({ key, stats: computeStats(items) }))
+    .sort((a, b) => b.stats.trades - a.stats.trades || a.key.localeCompare(b.key));
+};
+
+export const analyzeJournal = (history: AnalysisResult[]): JournalBreakdown => {
+  const records = history.map(toTradeRecord).filter((r): r is TradeRecord => r !== null);
+
+  return {
+    overall: computeStats(records),
+    byPair: groupBy(records, r => normalizeSymbol(r.entry.signal.pair) || 'Unknown'),
+    byAction: groupBy(records, r => r.entry.signal.action),
+    byTimeframe: groupBy(records, r => r.entry.signal.timeframe ?? 'Unknown'),
+    // Sorted high to low so the table reads as a calibration curve.
+    byConfidence: groupBy(records, r => confidenceBucket(r.entry.signal.confidence))
+      .sort((a, b) => Number(b.key.split('-')[0]) - Number(a.key.split('-')[0])),
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { OhlcParseError, parseOhlcCsv, parseTimestamp } from './ohlc';
+
+const MT4 = '2024.01.02,13:00,1.0950,1.0960,1.0940,1.0955,812\n2024.01.02,12:00,1.0940,1.0952,1.0931,1.0950,640\n';
+const MT5 = '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\n2024.01.02\t13:00:00\t1.0950\t1.0960\t1.0940\t1.0955\t812\n';
+
+describe('parseTimestamp', () => {
+  it('reads zone-less times as UTC by default', () => {
+    expect(parseTimestamp('2024.01.02 13:00')).toBe(Date.UTC(2024, 0, 2, 13));
+  });
+
+  it('shifts zone-less times by the offset', () => {
+    expect(parseTimestamp('2024.01.02 13:00', 2)).toBe(Date.UTC(2024, 0, 2, 11));
+    expect(parseTimestamp('2024-01-02 01:00', -5)).toBe(Date.UTC(2024, 0, 2, 6));
+  });
+
+  it('leaves times with a zone and unix times alone', () => {
+    expect(parseTimestamp('2024-01-02T13:00:00Z', 2)).toBe(Date.UTC(2024, 0, 2, 13));
+    expect(parseTimestamp('2024-01-02T13:00:00+01:00', 2)).toBe(Date.UTC(2024, 0, 2, 12));
+    expect(parseTimestamp('1704200400', 2)).toBe(Date.UTC(2024, 0, 2, 13));
+  });
+});
+
+describe('parseOhlcCsv', () => {
+  it('reads MT4 exports in time order', () => {
+    const candles = parseOhlcCsv(MT4);
+    expect(candles.map(candle => candle.time)).toEqual([Date.UTC(2024, 0, 2, 12), Date.UTC(2024, 0, 2, 13)]);
+    expect(candles[1]).toMatchObject({ open: 1.095, high: 1.096, low: 1.094, close: 1.0955 });
+  });
+
+  it('converts broker server time to UTC', () => {
+    expect(parseOhlcCsv(MT4, { utcOffsetHours: 3 })[0].time).toBe(Date.UTC(2024, 0, 2, 9));
+    expect(parseOhlcCsv(MT5, { utcOffsetHours: 2 })[0].time).toBe(Date.UTC(2024, 0, 2, 11));
+  });
+
+  it('reports the line of a bad row', () => {
+    expect(() => parseOhlcCsv(`${MT4}2024.01.02,14:00,1.0955,1.0940,1.0960,1.0950,10\n`)).toThrow(new OhlcParseError('High is below low.', 3));
+  });
+});
@@ -0,0 +1,98 @@
+export interface Candle {
+  // Bar open time, epoch milliseconds (UTC).
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export class OhlcParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'OhlcParseError';
+  }
+}
+
+export interface OhlcParseOptions {
+  // Hours ahead of UTC for timestamps without a zone. MT4/MT5 exports are in
+  // the broker's server time, commonly UTC+2 or UTC+3; defaults to 0 (UTC).
+  utcOffsetHours?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Parses "2024.01.02 13:00", "2024-01-02T13:00:00Z" or unix seconds/millis.
+// Timestamps without a zone are read at `utcOffsetHours`; ones with a zone
+// and unix times are already absolute.
+export const parseTimestamp = (value: string, utcOffsetHours = 0): number => {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const n = Number(text);
+    return n > 1e12 ? n : n * 1000;
+  }
+  const iso = text.replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3').replace(/\s+/, 'T');
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(iso)) return Date.parse(iso);
+  return Date.parse(`${iso}Z`) - utcOffsetHours * HOUR_MS;
+};
+
+const detectDelimiter = (line: string) =>
+  line.includes('\t') ? '\t' : line.includes(';') && !line.includes(',') ? ';' : ',';
+
+// Accepts MT4 exports (date,time,o,h,l,c,vol without a header), MT5 exports
+// (<DATE>\t<TIME>\t<OPEN>... with a header) and generic
+// timestamp/open/high/low/close files with any column order.
+export const parseOhlcCsv = (text: string, { utcOffsetHours = 0 }: OhlcParseOptions = {}): Candle[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const first = lines.findIndex(line => line.length > 0);
+  if (first === -1) throw new OhlcParseError('The file is empty.');
+
+  const delimiter = detectDelimiter(lines[first]);
+  const firstCells = lines[first].split(delimiter).map(cell => cell.trim());
+  const hasHeader = firstCells.some(cell => /[a-z]/i.test(cell) && !/^\d{4}[./-]\d{2}/.test(cell));
+
+  let column: Record<'date' | 'time' | 'open' | 'high' | 'low' | 'close', number>;
+  if (hasHeader) {
+    const names = firstCells.map(cell => cell.replace(/[<>"]/g, '').toLowerCase());
+    const find = (...candidates: string[]) => names.findIndex(name => candidates.includes(name));
+    column = {
+      date: find('date', 'timestamp', 'datetime', 'time', 'gmt time', 'local time'),
+      time: find('time'),
+      open: find('open', 'o'),
+      high: find('high', 'h'),
+      low: find('low', 'l'),
+      close: find('close', 'c'),
+    };
+    // "time" is only a separate column when there is also a "date" column.
+    if (column.time === column.date) column.time = -1;
+    const missing = (['date', 'open', 'high', 'low', 'close'] as const).filter(key => column[key] === -1);
+    if (missing.length) throw new OhlcParseError(`Missing column(s): ${missing.join(', ')}.`, first + 1);
+  } else {
+    const hasTimeColumn = /^\d{1,2}:\d{2}/.test(firstCells[1] ?? '');
+    column = hasTimeColumn
+      ? { date: 0, time: 1, open: 2, high: 3, low: 4, close: 5 }
+      : { date: 0, time: -1, open: 1, high: 2, low: 3, close: 4 };
+  }
+
+  const candles: Candle[] = [];
+  for (let i = hasHeader ? first + 1 : first; i < lines.length; i++) {
+    if (!lines[i]) continue;
+    const cells = lines[i].split(delimiter).map(cell => cell.trim().replace(/"/g, ''));
+    const stamp = column.time >= 0 ? `${cells[column.date]} ${cells[column.time]}` : cells[column.date];
+    const candle = {
+      time: parseTimestamp(stamp ?? '', utcOffsetHours),
+      open: Number(cells[column.open]),
+      high: Number(cells[column.high]),
+      low: Number(cells[column.low]),
+      close: Number(cells[column.close]),
+    };
+    if (Object.values(candle).some(value => !Number.isFinite(value))) {
+      throw new OhlcParseError('Could not read timestamp or prices.', i + 1);
+    }
+    if (candle.high < candle.low) throw new OhlcParseError('High is below low.', i + 1);
+    candles.push(candle);
+  }
+
+  if (candles.length === 0) throw new OhlcParseError('No price bars found.');
+  return candles.sort((a, b) => a.time - b.time);
+};
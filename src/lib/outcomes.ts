@@ -0,0 +1,18 @@
+import { AnalysisResult, OutcomeStatus, TradeOutcome } from '../types';
+
+export const OUTCOME_STATUSES: OutcomeStatus[] = ['pending', 'triggered', 'tp_hit', 'sl_hit', 'cancelled', 'closed'];
+
+export const OUTCOME_LABELS: Record<OutcomeStatus, string> = {
+  pending: 'Pending',
+  triggered: 'Triggered',
+  tp_hit: 'TP Hit',
+  sl_hit: 'SL Hit',
+  cancelled: 'Cancelled',
+  closed: 'Closed Manually',
+};
+
+// Statuses that end a trade; only these carry an exit price and time.
+export const CLOSED_STATUSES: OutcomeStatus[] = ['tp_hit', 'sl_hit', 'closed'];
+
+export const getOutcome = (entry: AnalysisResult): TradeOutcome =>
+  entry.outcome ?? { status: 'pending', updatedAt: entry.timestamp };
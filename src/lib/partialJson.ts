@@ -0,0 +1,53 @@
+// Closes whatever strings, objects and arrays are still open at the end of
+// `text`, so a truncated JSON document can be parsed. Returns null when the
+// text ends in a spot that can't be closed (a dangling key or half a literal).
+const close = (text: string): string | null => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      closers.push('}');
+    } else if (ch === '[') {
+      closers.push(']');
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+    }
+  }
+  let closed = text;
+  if (inString) closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+  closed = closed.replace(/[\s,]+$/, '');
+  if (closed.endsWith(':')) return null;
+  return closed + closers.reverse().join('');
+};
+
+// Best-effort parse of a JSON object that is still being streamed. Values
+// that are cut off mid-way are dropped until more text arrives; strings are
+// kept as far as they got. Returns undefined until an object has started.
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+  let candidate = text.slice(start);
+
+  // Each failed attempt backs off to the previous separator.
+  while (candidate) {
+    const closed = close(candidate);
+    if (closed !== null) {
+      try {
+        return JSON.parse(closed);
+      } catch {
+        // fall through and back off
+      }
+    }
+    const cut = Math.max(candidate.lastIndexOf(','), candidate.lastIndexOf('{', candidate.length - 2), candidate.lastIndexOf('[', candidate.length - 2));
+    if (cut <= 0) return {};
+    candidate = candidate[cut] === ',' ? candidate.slice(0, cut) : candidate.slice(0, cut + 1);
+  }
+  return {};
+};
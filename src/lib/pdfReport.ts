@@ -0,0 +1,204 @@
+import { jsPDF } from 'jspdf';
+import { getOutcome, OUTCOME_LABELS } from './outcomes';
+import { getMethods } from './promptTemplate';
+import { AnalysisResult } from '../types';
+
+// Brand colours from index.css, as RGB.
+const GOLD: [number, number, number] = [197, 160, 89];
+const INK: [number, number, number] = [10, 10, 10];
+const MUTED: [number, number, number] = [110, 110, 110];
+const ACTION_COLORS: Record<AnalysisResult['signal']['action'], [number, number, number]> = {
+  BUY: [16, 185, 129],
+  SELL: [239, 68, 68],
+  NEUTRAL: [107, 114, 128],
+};
+
+const MARGIN = 48;
+const HEADER_HEIGHT = 64;
+const FOOTER = 'VertexChart analysis. For information only; not financial advice.';
+
+interface TextBlock {
+  text: string;
+  heading?: boolean;
+}
+
+// jsPDF draws plain text, so markdown is flattened to paragraphs, headings
+// and bullets with the inline markup removed.
+const markdownToBlocks = (markdown: string): TextBlock[] =>
+  markdown.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => {
+    const inline = (text: string) => text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2');
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) return { text: inline(heading[1]), heading: true };
+    const bullet = line.match(/^(?:[-*+]|\d+\.)\s+(.*)$/);
+    return { text: bullet ? `•  ${inline(bullet[1])}` : inline(line) };
+  });
+
+interface ReportOptions {
+  // Full-size chart to include, e.g. the annotated overlay. Falls back to the
+  // entry chart's thumbnail.
+  chartImage?: string;
+}
+
+// A branded A4 report of one analysis: signal, levels, chart, top-down
+// breakdown, technical sections and the macro context.
+export const buildPdfReport = (result: AnalysisResult, { chartImage }: ReportOptions = {}) => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = 0;
+
+  const drawHeader = () => {
+    doc.setFillColor(...INK);
+    doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+    doc.setFillColor(...GOLD);
+    doc.rect(0, HEADER_HEIGHT, pageWidth, 2, 'F');
+    doc.setFont('times', 'bolditalic');
+    doc.setFontSize(20);
+    doc.setTextColor(...GOLD);
+    doc.text('VertexChart', MARGIN, 40);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(200, 200, 200);
+    doc.text('ANALYSIS REPORT', pageWidth - MARGIN, 40, { align: 'right' });
+    y = HEADER_HEIGHT + 32;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - MARGIN) return;
+    doc.addPage();
+    drawHeader();
+  };
+
+  const paragraph = (text: string, { size = 10, color = INK, style = 'normal', gap = 6 } = {}) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * 1.4;
+    for (const line of doc.splitTextToSize(text, contentWidth) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN, y);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40);
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...GOLD);
+    doc.text(title.toUpperCase(), MARGIN, y);
+    doc.setDrawColor(...GOLD);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, y + 5, pageWidth - MARGIN, y + 5);
+    y += 20;
+  };
+
+  const markdown = (text: string) => {
+    for (const block of markdownToBlocks(text)) {
+      paragraph(block.text, block.heading ? { style: 'bold', gap: 4 } : { color: [60, 60, 60] });
+    }
+  };
+
+  drawHeader();
+
+  // Signal
+  const { signal } = result;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.setTextColor(...ACTION_COLORS[signal.action]);
+  doc.text(signal.action, MARGIN, y + 10);
+  const actionWidth = doc.getTextWidth(signal.action);
+  doc.setFontSize(16);
+  doc.setTextColor(...INK);
+  doc.text([signal.pair, signal.timeframe].filter(Boolean).join('  ·  '), MARGIN + actionWidth + 16, y + 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  doc.text(`${signal.confidence}% confidence`, pageWidth - MARGIN, y, { align: 'right' });
+  doc.text(new Date(result.timestamp).toLocaleString(), pageWidth - MARGIN, y + 14, { align: 'right' });
+  y += 40;
+
+  const levels: [string, string][] = [['Entry', signal.entry], ['Take Profit', signal.tp], ['Stop Loss', signal.sl]];
+  const cellWidth = contentWidth / levels.length;
+  levels.forEach(([label, value], i) => {
+    const x = MARGIN + cellWidth * i;
+    doc.setFillColor(245, 242, 235);
+    doc.rect(x + 2, y, cellWidth - 4, 44, 'F');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    doc.text(label.toUpperCase(), x + 12, y + 15);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...INK);
+    doc.text(doc.splitTextToSize(value, cellWidth - 24)[0] ?? '', x + 12, y + 33);
+    doc.setFont('helvetica', 'normal');
+  });
+  y += 62;
+
+  paragraph(`"${signal.reasoning}"`, { style: 'italic', color: [60, 60, 60] });
+
+  const outcome = getOutcome(result);
+  if (outcome.status !== 'pending') {
+    paragraph(`Outcome: ${OUTCOME_LABELS[outcome.status]}${outcome.exitPrice !== undefined ? ` at ${outcome.exitPrice}` : ''}`, { size: 9, color: MUTED });
+  }
+
+  // Chart
+  const image = chartImage ?? result.annotatedImage ?? result.charts?.[result.charts.length - 1]?.thumbnail;
+  if (image) {
+    try {
+      const { width, height } = doc.getImageProperties(image);
+      // Full width, unless that would be taller than a page.
+      const scale = Math.min(contentWidth / width, (pageHeight - HEADER_HEIGHT - MARGIN * 3) / height);
+      sectionTitle('Chart');
+      ensureSpace(height * scale);
+      doc.addImage(image, MARGIN + (contentWidth - width * scale) / 2, y, width * scale, height * scale);
+      y += height * scale + 12;
+    } catch (err) {
+      // A format jsPDF can't read shouldn't cost the rest of the report.
+      console.error(err);
+    }
+  }
+
+  if (result.timeframes?.length) {
+    sectionTitle('Top-Down Breakdown');
+    for (const tf of result.timeframes) {
+      paragraph(`${tf.timeframe}  ·  ${tf.bias}`, { style: 'bold', gap: 2 });
+      paragraph(tf.summary, { color: [60, 60, 60] });
+    }
+  }
+
+  for (const method of getMethods(result)) {
+    const content = result.technical[method.key];
+    if (!content) continue;
+    sectionTitle(method.title);
+    markdown(content);
+  }
+
+  sectionTitle('Global Macro Context');
+  markdown(result.fundamental);
+
+  const meta = [
+    result.model && `${result.model.provider} / ${result.model.name}`,
+    result.template && `${result.template.name} v${result.template.version}`,
+  ].filter(Boolean).join('  ·  ');
+  if (meta) paragraph(meta, { size: 8, color: MUTED });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    doc.text(FOOTER, MARGIN, pageHeight - 24);
+    doc.text(`${page} / ${pages}`, pageWidth - MARGIN, pageHeight - 24, { align: 'right' });
+  }
+  return doc;
+};
+
+export const downloadPdfReport = (result: AnalysisResult, options?: ReportOptions) =>
+  buildPdfReport(result, options).save(`${result.signal.pair}-${result.timestamp.slice(0, 10)}.pdf`);
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { PositionSizeInput, TradingSignal } from '../types';
+import { getInstrument } from './instruments';
+import { calculatePositionSize, pipValuePerLot, PositionSizeError, quoteToAccountRate } from './positionSize';
+import { computeLevels } from './priceLevels';
+
+const size = (signal: Partial<TradingSignal>, input: Partial<PositionSizeInput> = {}) => {
+  const full: TradingSignal = { pair: 'EURUSD', action: 'BUY', entry: '', tp: '', sl: '', confidence: 70, reasoning: '', ...signal };
+  return calculatePositionSize(full, computeLevels(full), { balance: 10000, accountCurrency: 'USD', riskPercent: 1, ...input });
+};
+
+const pipValue = (pair: string, price: number, accountCurrency: string) => {
+  const instrument = getInstrument(pair, price);
+  return pipValuePerLot(instrument, quoteToAccountRate(instrument, accountCurrency, price)!);
+};
+
+describe('pip values', () => {
+  it('is 10 quote units per lot for FX majors', () => {
+    expect(pipValue('EURUSD', 1.085, 'USD')).toBeCloseTo(10);
+    expect(pipValue('GBPUSD', 1.27, 'USD')).toBeCloseTo(10);
+  });
+
+  it('converts through the pair itself when the account holds the base currency', () => {
+    // 10 CHF per pip, at 0.9 CHF per USD.
+    expect(pipValue('USDCHF', 0.9, 'USD')).toBeCloseTo(11.11, 2);
+  });
+
+  it('is 1000 yen per lot for JPY pairs', () => {
+    expect(getInstrument('USDJPY').pipSize).toBe(0.01);
+    expect(pipValue('GBPJPY', 190, 'JPY')).toBeCloseTo(1000);
+    expect(pipValue('USDJPY', 150, 'USD')).toBeCloseTo(6.67, 2);
+  });
+
+  it('uses metal contract sizes', () => {
+    // 100 oz of gold moving 0.10, 5000 oz of silver moving 0.01.
+    expect(pipValue('XAUUSD', 2350, 'USD')).toBeCloseTo(10);
+    expect(pipValue('XAGUSD', 28, 'USD')).toBeCloseTo(50);
+  });
+
+  it('is one quote unit per point for indices', () => {
+    expect(pipValue('US30', 39000, 'USD')).toBe(1);
+    expect(getInstrument('GER40').quoteCurrency).toBe('EUR');
+    expect(pipValue('GER40', 18000, 'EUR')).toBe(1);
+  });
+
+  it('needs a rate when neither side is the account currency', () => {
+    expect(quoteToAccountRate(getInstrument('EURGBP'), 'USD', 0.85)).toBeNull();
+    expect(quoteToAccountRate(getInstrument('GER40'), 'USD', 18000)).toBeNull();
+  });
+});
+
+describe('crypto quote currencies', () => {
+  it.each([
+    ['BTCUSD', 'USD'],
+    ['BTCUSDT', 'USDT'],
+    ['ETHUSDC', 'USDC'],
+    ['SOLEUR', 'EUR'],
+    ['ETHBTC', 'BTC'],
+    ['BTC', 'USD'],
+  ])('reads %s as quoted in %s', (pair, quote) => {
+    expect(getInstrument(pair).quoteCurrency).toBe(quote);
+  });
+});
+
+describe('calculatePositionSize', () => {
+  it('risks the chosen share of the balance on an FX major', () => {
+    const position = size({ entry: '1.0850', tp: '1.0910', sl: '1.0820' });
+    // 100 USD over 30 pips at 10 USD a pip.
+    expect(position).toMatchObject({ lots: 0.33, riskAmount: 99, pipValuePerLot: 10, targets: [198] });
+  });
+
+  it('rounds lots down so risk never exceeds the budget', () => {
+    const position = size({ pair: 'USDJPY', entry: '150.00', tp: '151.00', sl: '149.50' });
+    // 50 pips at 6.6667 USD a pip is 333.33 USD a lot.
+    expect(position.lots).toBe(0.3);
+    expect(position.riskAmount).toBeLessThanOrEqual(100);
+  });
+
+  it('sizes gold in points', () => {
+    const position = size({ pair: 'XAUUSD', entry: '2350', tp: '2370', sl: '2340' });
+    // 10 USD over 100 points.
+    expect(position).toMatchObject({ lots: 0.1, riskAmount: 100, targets: [200] });
+  });
+
+  it('sizes indices in points', () => {
+    const position = size({ pair: 'US30', entry: '39000', tp: '39200', sl: '38900' });
+    expect(position).toMatchObject({ lots: 1, riskAmount: 100, targets: [200] });
+  });
+
+  it('converts the quote currency with the supplied rate', () => {
+    const signal = { pair: 'EURGBP', entry: '0.8500', tp: '0.8560', sl: '0.8470' };
+    expect(() => size(signal)).toThrow(new PositionSizeError('Enter the GBP/USD conversion rate.'));
+
+    // 10 GBP a pip is 12.5 USD; 100 USD over 30 pips.
+    const position = size(signal, { conversionRate: 1.25 });
+    expect(position).toMatchObject({ lots: 0.26, pipValuePerLot: 12.5, riskAmount: 97.5 });
+  });
+
+  it('asks for a USDT rate on USDT-quoted crypto', () => {
+    expect(() => size({ pair: 'BTCUSDT', entry: '60000', tp: '62000', sl: '59000' })).toThrow('Enter the USDT/USD conversion rate.');
+  });
+
+  it('rejects budgets below the minimum lot', () => {
+    expect(() => size({ entry: '1.0850', tp: '1.0950', sl: '1.0750' }, { balance: 50 })).toThrow(PositionSizeError);
+  });
+});
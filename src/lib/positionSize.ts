@@ -0,0 +1,69 @@
+import { PositionSize, PositionSizeInput, SignalLevels, TradingSignal } from '../types';
+import { getInstrument, Instrument } from './instruments';
+
+export const LOT_STEP = 0.01;
+
+export class PositionSizeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PositionSizeError';
+  }
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// How much one unit of the quote currency is worth in the account currency.
+// Returns null when that needs a rate the caller has to supply.
+export const quoteToAccountRate = (
+  instrument: Instrument,
+  accountCurrency: string,
+  price: number
+): number | null => {
+  if (instrument.quoteCurrency === accountCurrency) return 1;
+  if (instrument.baseCurrency === accountCurrency) return 1 / price;
+  return null;
+};
+
+// Value of a one-pip move for one standard lot, in the account currency.
+export const pipValuePerLot = (instrument: Instrument, rate: number) =>
+  instrument.contractSize * instrument.pipSize * rate;
+
+// Sizes a trade so that hitting the SL loses `riskPercent` of `balance`.
+// Lots are rounded down to the broker step, so actual risk never exceeds it.
+export const calculatePositionSize = (
+  signal: TradingSignal,
+  levels: SignalLevels,
+  input: PositionSizeInput
+): PositionSize => {
+  if (!(input.balance > 0)) throw new PositionSizeError('Enter an account balance.');
+  if (!(input.riskPercent > 0 && input.riskPercent <= 100)) {
+    throw new PositionSizeError('Risk per trade must be between 0 and 100%.');
+  }
+  if (levels.entry === null || !levels.riskPips) {
+    throw new PositionSizeError('The signal needs a readable entry and stop loss.');
+  }
+
+  const instrument = getInstrument(signal.pair, levels.entry);
+  const accountCurrency = input.accountCurrency.toUpperCase();
+  const rate = quoteToAccountRate(instrument, accountCurrency, levels.entry) ?? input.conversionRate;
+  if (!rate || !(rate > 0)) {
+    throw new PositionSizeError(`Enter the ${instrument.quoteCurrency}/${accountCurrency} conversion rate.`);
+  }
+
+  const pipValue = pipValuePerLot(instrument, rate);
+  const budget = input.balance * (input.riskPercent / 100);
+  // The small epsilon keeps 0.29999999 lots from flooring to 0.28.
+  const lots = round(Math.floor(budget / (levels.riskPips * pipValue) / LOT_STEP + 1e-9) * LOT_STEP, 2);
+  if (lots < LOT_STEP) {
+    throw new PositionSizeError(`Risking ${round(budget, 2)} ${accountCurrency} is below the minimum ${LOT_STEP} lot.`);
+  }
+
+  return {
+    ...input,
+    accountCurrency,
+    lots,
+    riskAmount: round(lots * levels.riskPips * pipValue, 2),
+    pipValuePerLot: round(pipValue, 4),
+    targets: levels.rewardPips.map(pips => round(lots * pips * pipValue, 2)),
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TradingSignal } from '../types';
+import { advanceAlert, alertLevels } from './priceAlerts';
+
+const buy = { action: 'BUY' as const, entry: 1.1, tp: 1.11, sl: 1.095 };
+const sell = { action: 'SELL' as const, entry: 1.1, tp: 1.09, sl: 1.105 };
+const pending = { ...buy, status: 'pending' as const };
+const triggered = { ...buy, status: 'triggered' as const };
+
+describe('advanceAlert', () => {
+  it('fills the entry when price crosses it between ticks', () => {
+    expect(advanceAlert(pending, 1.102, 1.099)).toEqual([{ level: 'entry', status: 'triggered' }]);
+    expect(advanceAlert({ ...sell, status: 'pending' }, 1.098, 1.1005)).toEqual([{ level: 'entry', status: 'triggered' }]);
+  });
+
+  it('does not fill when price stays on one side', () => {
+    expect(advanceAlert(pending, 1.103, 1.102)).toEqual([]);
+  });
+
+  it('only fills on an exact touch without a previous price', () => {
+    expect(advanceAlert(pending, null, 1.099)).toEqual([]);
+    expect(advanceAlert(pending, null, 1.1)).toEqual([{ level: 'entry', status: 'triggered' }]);
+  });
+
+  it('cancels the setup when the TP is reached before the entry', () => {
+    expect(advanceAlert(pending, 1.105, 1.111)).toEqual([{ level: 'tp', status: 'cancelled' }]);
+    expect(advanceAlert({ ...sell, status: 'pending' }, null, 1.09)).toEqual([{ level: 'tp', status: 'cancelled' }]);
+  });
+
+  it('fills and exits in one step when price gaps through entry and a level', () => {
+    expect(advanceAlert(pending, 1.102, 1.094)).toEqual([
+      { level: 'entry', status: 'triggered' },
+      { level: 'sl', status: 'sl_hit' },
+    ]);
+    expect(advanceAlert({ ...sell, status: 'pending' }, 1.101, 1.089)).toEqual([
+      { level: 'entry', status: 'triggered' },
+      { level: 'tp', status: 'tp_hit' },
+    ]);
+  });
+
+  it('ends a triggered trade at the TP or the SL', () => {
+    expect(advanceAlert(triggered, 1.105, 1.108)).toEqual([]);
+    expect(advanceAlert(triggered, 1.105, 1.11)).toEqual([{ level: 'tp', status: 'tp_hit' }]);
+    expect(advanceAlert(triggered, 1.1, 1.095)).toEqual([{ level: 'sl', status: 'sl_hit' }]);
+  });
+});
+
+describe('alertLevels', () => {
+  const signal: TradingSignal = {
+    pair: 'EURUSD', timeframe: 'H1', action: 'BUY', entry: '1.1000', tp: '1.1100 / 1.1200', sl: '1.0950', confidence: 70, reasoning: '',
+  };
+
+  it('watches TP1', () => {
+    expect(alertLevels(signal)).toEqual(buy);
+  });
+
+  it('explains why a signal has no alert', () => {
+    expect(alertLevels({ ...signal, action: 'NEUTRAL' })).toBe('Neutral signals have no levels to watch.');
+    expect(alertLevels({ ...signal, sl: 'none' })).toBe('Entry, TP or SL could not be read.');
+    expect(alertLevels({ ...signal, sl: '1.1050' })).toBe('Levels are on the wrong side of entry.');
+  });
+});
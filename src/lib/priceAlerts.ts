@@ -0,0 +1,77 @@
+import { AlertEvent, AlertLevel, AlertStatus, PriceAlert, TradeOutcome, TradingSignal } from '../types';
+import { TradeLevels, tradeLevels } from './priceLevels';
+
+export const ALERT_LEVEL_LABELS: Record<AlertLevel, string> = {
+  entry: 'Entry',
+  tp: 'Take Profit',
+  sl: 'Stop Loss',
+};
+
+// Statuses the feed can still change.
+export const ACTIVE_ALERT_STATUSES: AlertStatus[] = ['pending', 'triggered'];
+
+export type AlertLevels = TradeLevels;
+
+// The prices an alert watches, or why the signal can't have one.
+export const alertLevels = (signal: TradingSignal): AlertLevels | string =>
+  signal.action === 'NEUTRAL' ? 'Neutral signals have no levels to watch.' : tradeLevels(signal);
+
+export interface AlertStep {
+  level: AlertLevel;
+  status: AlertStatus;
+}
+
+// Moves an alert along with one tick, the same way the backtest replays
+// candles: the entry is a resting order filled when price trades through it,
+// TP before that cancels the setup, and after it TP or SL ends the trade.
+// `previous` is the last price before this tick, if known; without it the
+// entry only fills on an exact touch.
+export const advanceAlert = (alert: AlertLevels & Pick<PriceAlert, 'status'>, previous: number | null, price: number): AlertStep[] => {
+  const isBuy = alert.action === 'BUY';
+  const reachedTp = isBuy ? price >= alert.tp : price <= alert.tp;
+  const reachedSl = isBuy ? price <= alert.sl : price >= alert.sl;
+  const steps: AlertStep[] = [];
+
+  let status = alert.status;
+  if (status === 'pending') {
+    const crossedEntry = price === alert.entry
+      || (previous !== null && Math.sign(previous - alert.entry) !== Math.sign(price - alert.entry));
+    if (!crossedEntry) return reachedTp ? [{ level: 'tp', status: 'cancelled' }] : [];
+    status = 'triggered';
+    steps.push({ level: 'entry', status });
+  }
+  if (status === 'triggered') {
+    // A single price can't be past both, as TP and SL are on opposite sides.
+    if (reachedTp) steps.push({ level: 'tp', status: 'tp_hit' });
+    if (reachedSl) steps.push({ level: 'sl', status: 'sl_hit' });
+  }
+  return steps;
+};
+
+// One line for in-app and browser notifications.
+export const describeAlertEvent = (event: AlertEvent) => {
+  switch (event.status) {
+    case 'triggered':
+      return `${event.pair}: entry ${event.levelPrice} reached at ${event.price}.`;
+    case 'tp_hit':
+      return `${event.pair}: take profit ${event.levelPrice} hit at ${event.price}.`;
+    case 'sl_hit':
+      return `${event.pair}: stop loss ${event.levelPrice} hit at ${event.price}.`;
+    default:
+      return `${event.pair}: take profit ${event.levelPrice} reached before entry; setup cancelled.`;
+  }
+};
+
+// The journal outcome an event records. Exits are booked at the level, as
+// the backtest does.
+export const alertOutcome = (event: AlertEvent): TradeOutcome => {
+  const isExit = event.status === 'tp_hit' || event.status === 'sl_hit';
+  return {
+    status: event.status,
+    exitPrice: isExit ? event.levelPrice : undefined,
+    exitTime: isExit ? new Date(event.at).toISOString() : undefined,
+    notes: `Price alert: ${ALERT_LEVEL_LABELS[event.level].toLowerCase()} ${event.levelPrice} crossed at ${event.price} on ${new Date(event.at).toISOString()}.`,
+    source: 'alert',
+    updatedAt: new Date(event.at).toISOString(),
+  };
+};
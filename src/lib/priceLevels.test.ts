@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { TradingSignal } from '../types';
+import { computeLevels, parsePrices, tradeLevels } from './priceLevels';
+
+const signal = (changes: Partial<TradingSignal>): TradingSignal => ({
+  pair: 'EURUSD',
+  action: 'BUY',
+  entry: '1.0850',
+  tp: '1.0900',
+  sl: '1.0820',
+  confidence: 70,
+  reasoning: '',
+  ...changes,
+});
+
+describe('parsePrices', () => {
+  it.each([
+    ['1.0850', [1.085]],
+    ['2,345.50', [2345.5]],
+    ['1.0850 - 1.0860', [1.085, 1.086]],
+    ['TP1: 1.0900 / TP2: 1.0950', [1.09, 1.095]],
+    ['TP 1: 1.0900, TP 2: 1.0950', [1.09, 1.095]],
+    ['Target 2: 0.4500', [0.45]],
+    ['1.0820 (30 pips below)', [1.082]],
+    ['1.0900 (1:2 R:R)', [1.09]],
+    ['1.0900 [R:R 1:2.5]', [1.09]],
+    ['1.0900 for 1:2, 1.0950 for 1:3.5', [1.09, 1.095]],
+    ['1.0900 R:R 1:2', [1.09]],
+    ['1.0820, 30 pips below the low', [1.082]],
+    ['2365 (+150 points) / 2380', [2365, 2380]],
+    ['151.20, about 0.5% away', [151.2]],
+    ['R2 at 1.0950', [1.095]],
+    ['None', []],
+  ])('reads %j as %j', (text, prices) => {
+    expect(parsePrices(text)).toEqual(prices);
+  });
+});
+
+describe('computeLevels', () => {
+  it('reads an SL with a pip distance as the price alone', () => {
+    const levels = computeLevels(signal({ sl: '1.0820 (30 pips below)' }));
+    expect(levels.sl).toBe(1.082);
+    expect(levels.riskPips).toBe(30);
+    expect(levels.warnings).toEqual([]);
+  });
+
+  it('reads a TP with a risk:reward note as one target', () => {
+    const levels = computeLevels(signal({ tp: '1.0900 (1:2 R:R)' }));
+    expect(levels.tp).toEqual([1.09]);
+    expect(levels.rewardPips).toEqual([50]);
+    expect(levels.riskReward).toEqual([1.67]);
+  });
+
+  it('uses the first price of an entry or SL range', () => {
+    const levels = computeLevels(signal({ entry: '1.0850 - 1.0860', sl: '1.0820 / 1.0810' }));
+    expect(levels.entry).toBe(1.085);
+    expect(levels.sl).toBe(1.082);
+  });
+
+  it('uses JPY pip sizes', () => {
+    const levels = computeLevels(signal({ pair: 'USDJPY', entry: '151.20', tp: '152.40', sl: '150.60 (60 pips)' }));
+    expect(levels.pipSize).toBe(0.01);
+    expect(levels.riskPips).toBe(60);
+    expect(levels.rewardPips).toEqual([120]);
+  });
+
+  it('warns about levels on the wrong side of entry', () => {
+    const levels = computeLevels(signal({ action: 'SELL' }));
+    expect(levels.warnings).toEqual([
+      'Stop loss is below entry for a SELL.',
+      'Take profit is above entry for a SELL.',
+    ]);
+  });
+
+  it('warns when a level cannot be read', () => {
+    const levels = computeLevels(signal({ entry: 'Market', sl: 'n/a' }));
+    expect(levels.entry).toBeNull();
+    expect(levels.riskPips).toBeNull();
+    expect(levels.warnings).toEqual(['Entry price could not be read.', 'Stop loss could not be read.']);
+  });
+});
+
+describe('tradeLevels', () => {
+  it('uses TP1', () => {
+    expect(tradeLevels(signal({ tp: '1.0900 / 1.0950' }))).toEqual({ action: 'BUY', entry: 1.085, tp: 1.09, sl: 1.082 });
+  });
+
+  it('rejects levels on the wrong side of entry, whatever the warnings say', () => {
+    const wrong = signal({ action: 'SELL' });
+    expect(tradeLevels(wrong)).toBe('Levels are on the wrong side of entry.');
+    expect(tradeLevels({ ...wrong, levels: { ...computeLevels(wrong), warnings: [] } })).toBe('Levels are on the wrong side of entry.');
+    expect(tradeLevels(signal({ tp: '1.0900 / 1.0800' }))).toBe('Levels are on the wrong side of entry.');
+    expect(tradeLevels(signal({ sl: '1.0850' }))).toBe('Levels are on the wrong side of entry.');
+  });
+
+  it('says why a signal has no trade', () => {
+    expect(tradeLevels(signal({ action: 'NEUTRAL' }))).toBe('Neutral signals have no trade.');
+    expect(tradeLevels(signal({ tp: 'open' }))).toBe('Entry, TP or SL could not be read.');
+  });
+});
@@ -0,0 +1,85 @@
+import { SignalLevels, TradingSignal } from '../types';
+import { getInstrument } from './instruments';
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Text around prices that holds numbers which aren't prices: asides in
+// brackets such as "(30 pips below)", pip and percentage distances,
+// risk:reward ratios like 1:2, and labels like TP1, R2 or "Target 2".
+const NOT_PRICES = [
+  /\([^)]*\)|\[[^\]]*\]/g,
+  /\d[\d,]*(?:\.\d+)?\s*(?:(?:pips?|points?|pts)\b|%)/gi,
+  /\b\d{1,2}(?:\.\d)?\s*:\s*\d{1,2}(?:\.\d{1,2})?\b(?![.,]?\d)/g,
+  /\b[A-Za-z]+\d+\b/g,
+  /\b[A-Za-z]{2,}\s\d\b(?![.,]\d)/g,
+];
+
+// Extracts every price from free-form model text such as "1.0850 - 1.0860",
+// "TP1: 1.0900 / TP2: 1.0950" or "2,345.50".
+export const parsePrices = (text: string): number[] =>
+  (NOT_PRICES.reduce((rest, pattern) => rest.replace(pattern, ' '), text).match(/\d[\d,]*(?:\.\d+)?/g) ?? [])
+    .map(token => Number(token.replace(/,/g, '')))
+    .filter(Number.isFinite);
+
+// Entry and SL are single prices; for a range like "1.0850 - 1.0860" the
+// first one given is used.
+const parseSingle = (text: string): number | null => parsePrices(text)[0] ?? null;
+
+// Which levels sit on the wrong side of entry for the direction: for a BUY,
+// an SL at or above entry or a TP at or below it.
+const wrongSides = (isBuy: boolean, entry: number, tp: number[], sl: number | null) => ({
+  sl: sl !== null && (isBuy ? sl >= entry : sl <= entry),
+  tp: tp.some(level => (isBuy ? level <= entry : level >= entry)),
+});
+
+export const computeLevels = (signal: TradingSignal): SignalLevels => {
+  const entry = parseSingle(signal.entry);
+  const tp = parsePrices(signal.tp);
+  const sl = parseSingle(signal.sl);
+  const { pipSize } = getInstrument(signal.pair, entry);
+  const warnings: string[] = [];
+
+  if (entry === null) warnings.push('Entry price could not be read.');
+  if (tp.length === 0) warnings.push('Take profit could not be read.');
+  if (sl === null) warnings.push('Stop loss could not be read.');
+
+  const riskPips = entry !== null && sl !== null ? round(Math.abs(entry - sl) / pipSize, 1) : null;
+  const rewardPips = entry !== null ? tp.map(level => round(Math.abs(level - entry) / pipSize, 1)) : [];
+  const riskReward = riskPips ? rewardPips.map(reward => round(reward / riskPips, 2)) : [];
+
+  if (entry !== null && signal.action !== 'NEUTRAL') {
+    const isBuy = signal.action === 'BUY';
+    const wrong = wrongSides(isBuy, entry, tp, sl);
+    if (wrong.sl) {
+      warnings.push(`Stop loss is ${isBuy ? 'above' : 'below'} entry for a ${signal.action}.`);
+    }
+    if (wrong.tp) {
+      warnings.push(`Take profit is ${isBuy ? 'below' : 'above'} entry for a ${signal.action}.`);
+    }
+  }
+  if (riskPips === 0) warnings.push('Stop loss is at the entry price.');
+
+  return { entry, tp, sl, pipSize, riskPips, rewardPips, riskReward, warnings };
+};
+
+// Results saved before levels were computed get them on the fly.
+export const getLevels = (signal: TradingSignal): SignalLevels => signal.levels ?? computeLevels(signal);
+
+export interface TradeLevels {
+  action: Exclude<TradingSignal['action'], 'NEUTRAL'>;
+  entry: number;
+  tp: number;
+  sl: number;
+}
+
+// The prices a trade is managed by, using TP1, or why the signal can't be
+// traded as given. The backtest and price alerts both go by these.
+export const tradeLevels = (signal: TradingSignal): TradeLevels | string => {
+  if (signal.action === 'NEUTRAL') return 'Neutral signals have no trade.';
+  const levels = getLevels(signal);
+  const tp = levels.tp[0];
+  if (levels.entry === null || levels.sl === null || tp === undefined) return 'Entry, TP or SL could not be read.';
+  const wrong = wrongSides(signal.action === 'BUY', levels.entry, levels.tp, levels.sl);
+  if (wrong.sl || wrong.tp) return 'Levels are on the wrong side of entry.';
+  return { action: signal.action, entry: levels.entry, tp, sl: levels.sl };
+};
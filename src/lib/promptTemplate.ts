@@ -0,0 +1,84 @@
+import { PromptMethod, PromptTemplate, TemplateRef } from '../types';
+
+// Used when no template has been saved yet, and for results that predate
+// templates. Editing it in the admin panel saves version 2 under the same id.
+export const BUILT_IN_TEMPLATE: PromptTemplate = {
+  id: 'vertex-default',
+  version: 1,
+  name: 'Vertex Default',
+  body: `Analyze this trading chart and provide a fast, professional analysis.
+Identify the Pair and Timeframe.
+
+Apply these methods:
+{{methods}}
+
+Macro: Briefly mention latest high-impact events relevant to this pair.
+
+Provide a clear Signal: BUY, SELL, or NEUTRAL.
+Include Entry, Take Profit (TP), and Stop Loss (SL) levels.
+Write every text field in {{language}}.
+{{houseRules}}`,
+  methods: [
+    { key: 'snr', title: 'SNR Analysis', instruction: 'Support & Resistance. Identify key levels.' },
+    { key: 'ict', title: 'ICT Concepts', instruction: 'Inner Circle Trader. Look for Order Blocks (OB), Fair Value Gaps (FVG), Liquidity pools, and Market Structure Shift (MSS).' },
+    { key: 'std', title: 'Volatility (STD)', instruction: 'Standard Deviation. Assess volatility.' },
+    { key: 'alchemist', title: 'Alchemist X MSNR', instruction: 'Identify manipulation SNR and market cycles.' },
+  ],
+  variables: { language: 'English', houseRules: '' },
+  isDefault: true,
+  createdAt: 0,
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const METHOD_KEY = /^[a-z][a-z0-9_]*$/;
+
+export const placeholders = (body: string) =>
+  [...new Set([...body.matchAll(PLACEHOLDER)].map(match => match[1]))];
+
+export const renderMethods = (methods: PromptMethod[]) =>
+  methods.map((method, i) => `${i + 1}. ${method.title}: ${method.instruction}`).join('\n');
+
+// Fills in {{methods}} and the template's variables.
+export const renderTemplate = (template: PromptTemplate) =>
+  template.body
+    .replace(PLACEHOLDER, (_, name: string) =>
+      name === 'methods' ? renderMethods(template.methods) : template.variables[name] ?? '')
+    .trim();
+
+// Problems that would stop a template from being saved, as readable messages.
+export const checkTemplate = (template: Pick<PromptTemplate, 'name' | 'body' | 'methods' | 'variables'>): string[] => {
+  const problems: string[] = [];
+  if (!template.name.trim()) problems.push('Name is required.');
+  if (!template.body.trim()) problems.push('Prompt body is required.');
+  if (template.methods.length === 0) problems.push('Add at least one method.');
+
+  const keys = new Set<string>();
+  template.methods.forEach((method, i) => {
+    if (!METHOD_KEY.test(method.key)) {
+      problems.push(`Method ${i + 1} needs a key of lowercase letters, digits or underscores.`);
+    } else if (keys.has(method.key)) {
+      problems.push(`Method key "${method.key}" is used twice.`);
+    }
+    keys.add(method.key);
+    if (!method.title.trim()) problems.push(`Method ${i + 1} needs a title.`);
+  });
+
+  for (const name of placeholders(template.body)) {
+    if (name !== 'methods' && !(name in template.variables)) {
+      problems.push(`{{${name}}} has no value; add it as a variable.`);
+    }
+  }
+  return problems;
+};
+
+export const toTemplateRef = (template: PromptTemplate): TemplateRef => ({
+  id: template.id,
+  version: template.version,
+  name: template.name,
+  methods: template.methods.map(({ key, title }) => ({ key, title })),
+});
+
+// Section headings for a result: from its template, or the built-in ones for
+// results saved before templates existed.
+export const getMethods = (result: { template?: TemplateRef }) =>
+  result.template?.methods ?? BUILT_IN_TEMPLATE.methods;
@@ -0,0 +1,120 @@
+import { useSyncExternalStore } from 'react';
+import { SessionRole } from '../types';
+
+export type AdminSection = 'codes' | 'history' | 'templates' | 'channels';
+
+export const ADMIN_SECTIONS: AdminSection[] = ['codes', 'history', 'templates', 'channels'];
+
+// Express-style patterns for every path below except `/`. The server serves
+// index.html for these and 404s anything else.
+export const CLIENT_PATHS = [
+  '/login',
+  '/dashboard',
+  '/history',
+  '/history/:id',
+  '/analytics',
+  '/methodology',
+  '/admin',
+  '/admin/:section',
+  '/share/:id',
+];
+
+export type Route =
+  | { page: 'home' }
+  | { page: 'login'; next?: string }
+  | { page: 'dashboard' }
+  | { page: 'history' }
+  | { page: 'historyEntry'; id: string }
+  | { page: 'analytics' }
+  | { page: 'methodology' }
+  | { page: 'admin'; section: AdminSection }
+  | { page: 'share'; id: string }
+  | { page: 'notFound' };
+
+// `path` may include a query string, e.g. /login?next=%2Fhistory.
+export const parseRoute = (path: string): Route => {
+  const [pathname, search = ''] = path.split('?');
+  let parts: string[];
+  try {
+    parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return { page: 'notFound' };
+  }
+  const [first, second] = parts;
+  if (parts.length === 0) return { page: 'home' };
+  if (parts.length === 1) {
+    switch (first) {
+      case 'login':
+        return { page: 'login', next: new URLSearchParams(search).get('next') ?? undefined };
+      case 'dashboard':
+      case 'history':
+      case 'analytics':
+      case 'methodology':
+        return { page: first };
+      case 'admin':
+        return { page: 'admin', section: 'codes' };
+    }
+  }
+  if (parts.length === 2) {
+    if (first === 'history') return { page: 'historyEntry', id: second };
+    if (first === 'share') return { page: 'share', id: second };
+    if (first === 'admin' && ADMIN_SECTIONS.includes(second as AdminSection)) {
+      return { page: 'admin', section: second as AdminSection };
+    }
+  }
+  return { page: 'notFound' };
+};
+
+// Who may open a route; null for pages that don't need a session.
+export const routeRole = (route: Route): SessionRole | null => {
+  switch (route.page) {
+    case 'dashboard':
+    case 'history':
+    case 'historyEntry':
+    case 'analytics':
+    case 'methodology':
+      return 'user';
+    case 'admin':
+      return 'admin';
+    default:
+      return null;
+  }
+};
+
+export const homePath = (role: SessionRole) => (role === 'admin' ? '/admin/codes' : '/dashboard');
+
+export const loginPath = (next?: string) =>
+  next && next !== '/' ? `/login?next=${encodeURIComponent(next)}` : '/login';
+
+// Where to go after logging in: back to `next` if this role may open it.
+// Anything else, including paths on other origins, goes home.
+export const afterLoginPath = (role: SessionRole, next?: string) =>
+  next?.startsWith('/') && !next.startsWith('//') && routeRole(parseRoute(next)) === role ? next : homePath(role);
+
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener('popstate', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', listener);
+  };
+};
+
+const currentPath = () => window.location.pathname + window.location.search;
+
+// `replace` swaps the current history entry instead of adding one, for
+// redirects that Back shouldn't return to.
+export const navigate = (path: string, { replace = false } = {}) => {
+  if (path === currentPath()) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// The current path and query string; re-renders on navigate and Back/Forward.
+export const useLocation = () => useSyncExternalStore(subscribe, currentPath);
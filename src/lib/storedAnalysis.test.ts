@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, TradingSignal } from '../types';
+import { computeLevels } from './priceLevels';
+import { parseStoredAnalysis } from './storedAnalysis';
+
+const THUMBNAIL = 'data:image/jpeg;base64,AAAA';
+
+const signal: TradingSignal = {
+  pair: 'EURUSD',
+  timeframe: 'H1',
+  action: 'BUY',
+  entry: '1.0850',
+  tp: '1.0900 / 1.0950',
+  sl: '1.0820',
+  confidence: 72,
+  reasoning: 'Bullish break of structure.',
+};
+
+// An entry as the app saves it, after the user calibrated the axis and
+// dragged the stop loss.
+const entry: AnalysisResult = {
+  id: 'e1',
+  signal: { ...signal, levels: computeLevels(signal) },
+  technical: { snr: 'Support at 1.0820.', ict: 'Bullish order block.' },
+  fundamental: 'Quiet calendar.',
+  charts: [{ timeframe: 'H1', thumbnail: THUMBNAIL }],
+  annotations: {
+    chart: 'H1',
+    levels: [
+      { kind: 'entry', price: 1.085, y: 0.5 },
+      { kind: 'sl', price: 1.082, y: 0.62, adjusted: true },
+    ],
+    zones: [{ kind: 'order_block', label: 'H1 OB', top: 0.55, bottom: 0.6, left: 0.3 }],
+    axis: [{ y: 0.1, price: 1.1 }, { y: 0.9, price: 1.07 }],
+    calibration: { points: [{ y: 0.1, price: 1.1 }, { y: 0.9, price: 1.07 }], source: 'manual' },
+  },
+  model: { provider: 'gemini', name: 'gemini-3-flash-preview' },
+  template: { id: 'builtin', version: 1, name: 'Vertex Default', methods: [{ key: 'snr', title: 'SNR' }, { key: 'ict', title: 'ICT' }] },
+  outcome: { status: 'tp_hit', exitPrice: 1.09, updatedAt: '2026-10-19T00:00:00.000Z' },
+  timestamp: '2026-10-18T09:30:00.000Z',
+};
+
+const roundTrip = (value: object) => parseStoredAnalysis(JSON.parse(JSON.stringify(value)));
+
+describe('parseStoredAnalysis', () => {
+  it('keeps everything the app saved', () => {
+    expect(roundTrip(entry)).toEqual(entry);
+  });
+
+  it('drops what belongs to the original account', () => {
+    const parsed = roundTrip({
+      ...entry,
+      owner: 'code-1',
+      annotatedImagePath: 'e1/annotated-1.jpg',
+      charts: [{ timeframe: 'H1', thumbnail: THUMBNAIL, imagePath: 'e1/0-H1.jpg' }],
+    });
+    expect(parsed).toEqual(entry);
+  });
+
+  it('recomputes parsed levels from the signal text', () => {
+    const forged = { ...entry, signal: { ...entry.signal, levels: { ...entry.signal.levels, riskReward: [50] } } };
+    expect(roundTrip(forged).signal.levels).toEqual(computeLevels(signal));
+  });
+
+  it('drops a calibration that would not have been accepted', () => {
+    const calibration = { points: [{ y: 0.1, price: 1.07 }, { y: 0.9, price: 1.1 }], source: 'manual' };
+    const parsed = roundTrip({ ...entry, annotations: { ...entry.annotations, calibration } });
+    expect(parsed.annotations?.calibration).toBeUndefined();
+    expect(parsed.annotations?.chart).toBe('H1');
+  });
+
+  it('only keeps an adjusted flag that is true', () => {
+    const levels = [{ kind: 'tp', price: 1.09, y: 0.3, adjusted: 'yes' }];
+    expect(roundTrip({ ...entry, annotations: { ...entry.annotations, levels } }).annotations?.levels).toEqual([
+      { kind: 'tp', price: 1.09, y: 0.3 },
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { OUTCOME_STATUSES } from './outcomes';
+import { computeLevels } from './priceLevels';
+import { parseAnnotations, validateAnalysis } from './validateAnalysis';
+import { AnalysisResult, ChartThumbnail, OutcomeStatus, TemplateRef, TradeOutcome } from '../types';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isImage = (value: unknown): value is string =>
+  typeof value === 'string' && /^data:image\/(png|jpeg|webp);base64,/.test(value);
+
+const readOutcome = (value: unknown): TradeOutcome | undefined => {
+  if (!isObject(value) || !OUTCOME_STATUSES.includes(value.status as OutcomeStatus)) return undefined;
+  return {
+    status: value.status,
+    ...(typeof value.exitPrice === 'number' && Number.isFinite(value.exitPrice) ? { exitPrice: value.exitPrice } : {}),
+    ...(typeof value.exitTime === 'string' ? { exitTime: value.exitTime } : {}),
+    ...(typeof value.notes === 'string' ? { notes: value.notes } : {}),
+    ...(value.source === 'manual' || value.source === 'backtest' || value.source === 'alert' ? { source: value.source } : {}),
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString(),
+  };
+};
+
+const readTemplate = (value: unknown): TemplateRef | undefined => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !Array.isArray(value.methods)) {
+    return undefined;
+  }
+  const methods = value.methods.filter((m: any) => isObject(m) && typeof m.key === 'string' && typeof m.title === 'string');
+  return {
+    id: value.id,
+    version: Number(value.version) || 1,
+    name: value.name,
+    methods: methods.map((m: any) => ({ key: m.key, title: m.title })),
+  };
+};
+
+// Re-validates an AnalysisResult that arrives from outside the app, such as an
+// imported file or a result being shared, with the same checks as model
+// output. Optional fields are kept only when well formed, and parsed levels
+// are recomputed from the signal's text rather than trusted. Anything tied to
+// its original account is dropped: the owner, stored image paths and the
+// position size.
+export const parseStoredAnalysis = (raw: unknown): AnalysisResult => {
+  if (!isObject(raw)) throw new Error('is not an analysis');
+  // The sections an entry has depend on the template that produced it.
+  const methods = isObject(raw.technical) ? Object.keys(raw.technical) : undefined;
+  const validated = validateAnalysis(raw, { methods });
+  const time = new Date(raw.timestamp);
+  const charts: ChartThumbnail[] | undefined = Array.isArray(raw.charts)
+    ? raw.charts
+      .filter((chart: any) => isObject(chart) && typeof chart.timeframe === 'string' && isImage(chart.thumbnail))
+      .map((chart: any) => ({ timeframe: chart.timeframe, thumbnail: chart.thumbnail }))
+    : undefined;
+  const outcome = readOutcome(raw.outcome);
+  const template = readTemplate(raw.template);
+  // A superset of what validateAnalysis kept, so it replaces that.
+  const annotations = parseAnnotations(raw.annotations, { stored: true });
+
+  return {
+    ...validated,
+    ...(isObject(raw.signal) && isObject(raw.signal.levels)
+      ? { signal: { ...validated.signal, levels: computeLevels(validated.signal) } }
+      : {}),
+    ...(annotations ? { annotations } : {}),
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    timestamp: Number.isNaN(time.getTime()) ? new Date().toISOString() : time.toISOString(),
+    ...(charts?.length ? { charts } : {}),
+    ...(isImage(raw.annotatedImage) ? { annotatedImage: raw.annotatedImage } : {}),
+    ...(isObject(raw.model) && typeof raw.model.provider === 'string' && typeof raw.model.name === 'string'
+      ? { model: { provider: raw.model.provider, name: raw.model.name } }
+      : {}),
+    ...(template ? { template } : {}),
+    ...(outcome ? { outcome } : {}),
+  };
+};
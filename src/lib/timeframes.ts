@@ -0,0 +1,12 @@
+// Highest to lowest, so a top-down workflow reads left to right.
+export const TIMEFRAMES = ['MN', 'W1', 'D1', 'H4', 'H1', 'M30', 'M15', 'M5', 'M1'];
+
+// Default labels when several charts are uploaded: bias, structure, entry.
+export const TOP_DOWN_DEFAULTS = ['H4', 'H1', 'M15', 'M5'];
+
+export const MAX_CHARTS = 4;
+
+export const timeframeRank = (timeframe: string) => {
+  const index = TIMEFRAMES.indexOf(timeframe);
+  return index === -1 ? TIMEFRAMES.length : index;
+};
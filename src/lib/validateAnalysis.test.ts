@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { AnalysisValidationError, extractJson, validateAnalysis } from './validateAnalysis';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../server/services/fixtures');
+
+// Responses recorded from real models, replayed as they came back.
+const recorded = (name: string) =>
+  fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof AnalysisValidationError) return err.issues;
+    throw err;
+  }
+  throw new Error('Expected an AnalysisValidationError');
+};
+
+describe('extractJson', () => {
+  it('strips markdown fences and chatter around the object', () => {
+    const raw = extractJson(recorded('fenced-strings.txt')) as any;
+    expect(raw.signal.pair).toBe('GBPUSD');
+  });
+
+  it('rejects a refusal with no JSON in it', () => {
+    expect(issuesOf(() => extractJson(recorded('not-json.txt')))).toEqual([
+      { path: '$', message: 'is not a JSON object' },
+    ]);
+  });
+
+  it('rejects a response cut off mid-object', () => {
+    expect(issuesOf(() => extractJson(recorded('truncated.txt')))).toEqual([
+      { path: '$', message: 'is not a JSON object' },
+    ]);
+  });
+
+  it('rejects braces around invalid JSON', () => {
+    expect(issuesOf(() => extractJson('{ "signal": { pair: EURUSD } }'))).toEqual([
+      { path: '$', message: 'is not valid JSON' },
+    ]);
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('coerces lowercase actions, numeric prices and percentage confidence', () => {
+    const result = validateAnalysis(extractJson(recorded('fenced-strings.txt')));
+    expect(result.signal).toMatchObject({
+      pair: 'GBPUSD',
+      timeframe: 'M15',
+      action: 'SELL',
+      entry: '1.271',
+      tp: '1.2660',
+      confidence: 85,
+    });
+    expect(Object.keys(result.technical)).toEqual(['snr', 'ict', 'std', 'alchemist']);
+  });
+
+  it('clamps confidence to 0-100', () => {
+    const raw = extractJson(recorded('fenced-strings.txt')) as any;
+    raw.signal.confidence = 140;
+    expect(validateAnalysis(raw).signal.confidence).toBe(100);
+  });
+
+  it('collects every problem in one error', () => {
+    const issues = issuesOf(() => validateAnalysis(extractJson(recorded('missing-fields.txt'))));
+    expect(issues.map(issue => issue.path)).toEqual([
+      'signal.action',
+      'signal.confidence',
+      'signal.entry',
+      'signal.sl',
+      'technical.std',
+      'technical.alchemist',
+      'fundamental',
+    ]);
+    expect(issues[0].message).toBe('must be BUY, SELL or NEUTRAL');
+    expect(issues[2].message).toBe('must be a non-empty string');
+    expect(issues[3].message).toBe('is missing');
+  });
+
+  it('checks technical against the template methods', () => {
+    const raw = extractJson(recorded('fenced-strings.txt'));
+    const issues = issuesOf(() => validateAnalysis(raw, { methods: ['snr', 'wyckoff'] }));
+    expect(issues).toEqual([{ path: 'technical.wyckoff', message: 'is missing' }]);
+  });
+
+  it('requires the per-timeframe breakdown for multi-chart analyses', () => {
+    const raw = extractJson(recorded('fenced-strings.txt'));
+    expect(issuesOf(() => validateAnalysis(raw, { requireTimeframes: true }))).toEqual([
+      { path: 'timeframes', message: 'is missing' },
+    ]);
+  });
+
+  it('drops malformed annotations instead of failing', () => {
+    const raw = extractJson(recorded('fenced-strings.txt')) as any;
+    raw.annotations = {
+      levels: [{ kind: 'ENTRY', price: '1.2710', y: 0.4 }, { kind: 'pivot', y: 0.5 }, { kind: 'sl', y: 1.4 }],
+      zones: 'none',
+    };
+    expect(validateAnalysis(raw).annotations).toEqual({
+      levels: [{ kind: 'entry', price: 1.271, y: 0.4 }],
+      zones: [],
+    });
+  });
+});
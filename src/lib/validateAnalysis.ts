@@ -0,0 +1,227 @@
+import { AnalysisResult, AnnotationLevel, AxisPoint, AnnotationLevelKind, AnnotationZone, AnnotationZoneKind, Bias, ChartAnnotations, PriceCalibration, TimeframeAnalysis, TradingSignal } from '../types';
+import { createCalibration } from './calibration';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Raised when model output cannot be repaired into an AnalysisResult.
+export class AnalysisValidationError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(`Model returned an invalid analysis: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+const ACTIONS: TradingSignal['action'][] = ['BUY', 'SELL', 'NEUTRAL'];
+const BIASES: Bias[] = ['BULLISH', 'BEARISH', 'NEUTRAL'];
+const LEVEL_KINDS: AnnotationLevelKind[] = ['entry', 'tp', 'sl', 'support', 'resistance'];
+const ZONE_KINDS: AnnotationZoneKind[] = ['order_block', 'fvg'];
+
+export interface ValidateOptions {
+  // Multi-chart analyses must include the per-timeframe breakdown.
+  requireTimeframes?: boolean;
+  // Keys expected under `technical`, from the prompt template's methods.
+  methods?: string[];
+}
+
+const DEFAULT_METHODS = ['snr', 'ict', 'std', 'alchemist'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Pulls the JSON object out of model text, tolerating markdown fences and
+// chatter around it.
+export const extractJson = (text: string): unknown => {
+  const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = clean.indexOf('{');
+  const end = clean.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new AnalysisValidationError([{ path: '$', message: 'is not a JSON object' }]);
+  }
+  try {
+    return JSON.parse(clean.slice(start, end + 1));
+  } catch {
+    throw new AnalysisValidationError([{ path: '$', message: 'is not valid JSON' }]);
+  }
+};
+
+const toFraction = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 && number <= 1 ? number : null;
+};
+
+const toPrice = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const toAxisPoint = (value: unknown): AxisPoint | null => {
+  if (!isObject(value)) return null;
+  const y = toFraction(value.y);
+  const price = toPrice(value.price);
+  return y !== null && price !== null ? { y, price } : null;
+};
+
+// Kept only if it would have been accepted when it was made.
+const toCalibration = (value: unknown): PriceCalibration | undefined => {
+  if (!isObject(value) || !Array.isArray(value.points) || value.points.length !== 2) return undefined;
+  const [a, b] = value.points.map(toAxisPoint);
+  if (!a || !b || (value.source !== 'manual' && value.source !== 'model')) return undefined;
+  try {
+    return createCalibration(a, b, value.source);
+  } catch {
+    return undefined;
+  }
+};
+
+// Annotations are a best-effort extra, so malformed items are dropped rather
+// than failing the analysis. `stored` is for annotations the app saved, which
+// also carry the entry chart's timeframe, dragged levels and the calibration;
+// the model never sets those.
+export const parseAnnotations = (raw: unknown, { stored = false }: { stored?: boolean } = {}): ChartAnnotations | undefined => {
+  if (!isObject(raw)) return undefined;
+
+  const levels: AnnotationLevel[] = (Array.isArray(raw.levels) ? raw.levels : []).flatMap(item => {
+    if (!isObject(item)) return [];
+    const kind = typeof item.kind === 'string' ? item.kind.trim().toLowerCase() : '';
+    const y = toFraction(item.y);
+    if (!LEVEL_KINDS.includes(kind as AnnotationLevelKind) || y === null) return [];
+    return [{
+      kind: kind as AnnotationLevelKind,
+      price: toPrice(item.price),
+      y,
+      ...(stored && item.adjusted === true ? { adjusted: true } : {}),
+    }];
+  });
+
+  const zones: AnnotationZone[] = (Array.isArray(raw.zones) ? raw.zones : []).flatMap(item => {
+    if (!isObject(item)) return [];
+    const kind = typeof item.kind === 'string' ? item.kind.trim().toLowerCase() : '';
+    const top = toFraction(item.top);
+    const bottom = toFraction(item.bottom);
+    if (!ZONE_KINDS.includes(kind as AnnotationZoneKind) || top === null || bottom === null) return [];
+    return [{
+      kind: kind as AnnotationZoneKind,
+      label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : undefined,
+      top: Math.min(top, bottom),
+      bottom: Math.max(top, bottom),
+      left: toFraction(item.left) ?? 0,
+    }];
+  });
+
+  const axis: AxisPoint[] = (Array.isArray(raw.axis) ? raw.axis : []).flatMap(item => {
+    const point = toAxisPoint(item);
+    return point ? [point] : [];
+  });
+
+  if (levels.length === 0 && zones.length === 0) return undefined;
+  const chart = stored && typeof raw.chart === 'string' && raw.chart.trim() ? raw.chart.trim().toUpperCase() : undefined;
+  const calibration = stored ? toCalibration(raw.calibration) : undefined;
+  return {
+    ...(chart ? { chart } : {}),
+    levels,
+    zones,
+    ...(axis.length >= 2 ? { axis } : {}),
+    ...(calibration ? { calibration } : {}),
+  };
+};
+
+// Validates and repairs a parsed model response. Recoverable problems
+// (numbers as strings, lowercase actions, out-of-range confidence) are coerced;
+// anything else is collected and thrown as one AnalysisValidationError.
+export const validateAnalysis = (
+  raw: unknown,
+  { requireTimeframes = false, methods = DEFAULT_METHODS }: ValidateOptions = {}
+): Omit<AnalysisResult, 'id' | 'timestamp'> => {
+  const issues: ValidationIssue[] = [];
+
+  const text = (source: Record<string, unknown>, key: string, path: string): string => {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    issues.push({ path, message: value === undefined ? 'is missing' : 'must be a non-empty string' });
+    return '';
+  };
+
+  if (!isObject(raw)) {
+    throw new AnalysisValidationError([{ path: '$', message: 'must be an object' }]);
+  }
+
+  let signal = {} as TradingSignal;
+  if (!isObject(raw.signal)) {
+    issues.push({ path: 'signal', message: 'is missing' });
+  } else {
+    const s = raw.signal;
+
+    let action = typeof s.action === 'string' ? s.action.trim().toUpperCase() : '';
+    if (!ACTIONS.includes(action as TradingSignal['action'])) {
+      issues.push({ path: 'signal.action', message: 'must be BUY, SELL or NEUTRAL' });
+      action = 'NEUTRAL';
+    }
+
+    let confidence = typeof s.confidence === 'string'
+      ? Number(s.confidence.replace('%', '').trim())
+      : s.confidence;
+    if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+      issues.push({ path: 'signal.confidence', message: 'must be a number' });
+      confidence = 0;
+    }
+
+    signal = {
+      pair: text(s, 'pair', 'signal.pair'),
+      // Optional: older prompts never asked for it.
+      timeframe: typeof s.timeframe === 'string' && s.timeframe.trim() ? s.timeframe.trim().toUpperCase() : undefined,
+      action: action as TradingSignal['action'],
+      entry: text(s, 'entry', 'signal.entry'),
+      tp: text(s, 'tp', 'signal.tp'),
+      sl: text(s, 'sl', 'signal.sl'),
+      confidence: Math.round(Math.min(100, Math.max(0, confidence as number))),
+      reasoning: text(s, 'reasoning', 'signal.reasoning'),
+    };
+  }
+
+  const technical: Record<string, string> = {};
+  if (!isObject(raw.technical)) {
+    issues.push({ path: 'technical', message: 'is missing' });
+  } else {
+    for (const key of methods) {
+      technical[key] = text(raw.technical, key, `technical.${key}`);
+    }
+  }
+
+  const fundamental = text(raw, 'fundamental', 'fundamental');
+
+  let timeframes: TimeframeAnalysis[] | undefined;
+  if (Array.isArray(raw.timeframes) && raw.timeframes.length > 0) {
+    timeframes = raw.timeframes.map((item, i) => {
+      const path = `timeframes[${i}]`;
+      if (!isObject(item)) {
+        issues.push({ path, message: 'must be an object' });
+        return { timeframe: '', bias: 'NEUTRAL' as Bias, summary: '' };
+      }
+      const bias = typeof item.bias === 'string' ? item.bias.trim().toUpperCase() : '';
+      if (!BIASES.includes(bias as Bias)) {
+        issues.push({ path: `${path}.bias`, message: 'must be BULLISH, BEARISH or NEUTRAL' });
+      }
+      return {
+        timeframe: text(item, 'timeframe', `${path}.timeframe`).toUpperCase(),
+        bias: bias as Bias,
+        summary: text(item, 'summary', `${path}.summary`),
+      };
+    });
+  } else if (requireTimeframes) {
+    issues.push({ path: 'timeframes', message: 'is missing' });
+  }
+
+  if (issues.length > 0) throw new AnalysisValidationError(issues);
+  const annotations = parseAnnotations(raw.annotations);
+  return {
+    signal,
+    technical,
+    fundamental,
+    ...(timeframes ? { timeframes } : {}),
+    ...(annotations ? { annotations } : {}),
+  };
+};
@@ -1,10 +1,15 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharedAnalysisView from './components/SharedAnalysisView.tsx';
+import { parseRoute } from './lib/router.ts';
 import './index.css';
 
+// Share links open a public, read-only page instead of the app.
+const route = parseRoute(window.location.pathname);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {route.page === 'share' ? <SharedAnalysisView shareId={route.id} /> : <App />}
   </StrictMode>,
 );
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import * as api from '../services/api';
+import AccessCodeManager from '../components/AccessCodeManager';
+import AdminHistory from '../components/AdminHistory';
+import ChannelManager from '../components/ChannelManager';
+import TemplateManager from '../components/TemplateManager';
+import { ADMIN_SECTIONS, AdminSection, navigate } from '../lib/router';
+import { cn } from '../lib/utils';
+import { AccessCode } from '../types';
+
+const ADMIN_SECTION_LABELS: Record<AdminSection, string> = {
+  codes: 'Access Codes',
+  history: 'User History',
+  templates: 'Prompt Templates',
+  channels: 'Notifications',
+};
+
+interface AdminPageProps {
+  adminSection: AdminSection;
+  onSignOut: () => void;
+  onError: (message: string) => void;
+}
+
+export default function AdminPage({ adminSection, onSignOut, onError }: AdminPageProps) {
+  const [accessCodes, setAccessCodes] = useState<AccessCode[]>([]);
+
+  // Access codes are only ever listed by the server, and only to admins
+  useEffect(() => {
+    api.listCodes()
+      .then(setAccessCodes)
+      .catch((err) => onError(err.message));
+  }, []);
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, scale: 0.98 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 1.02 }}
+      className="min-h-screen bg-alchemist-bg text-gray-100 font-sans p-4 md:p-8"
+    >
+      <div className="max-w-5xl mx-auto space-y-8">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-serif font-bold text-white">Admin <span className="text-gold italic">Panel</span></h1>
+            <p className="text-[11px] font-serif italic text-gray-500 uppercase tracking-widest">Access Management Suite</p>
+          </div>
+          <button 
+            onClick={onSignOut}
+            className="px-6 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-xl text-xs font-bold transition-all"
+          >
+            LOGOUT
+          </button>
+        </header>
+
+        <nav className="flex flex-wrap gap-6 border-b border-alchemist-border">
+          {ADMIN_SECTIONS.map(section => (
+            <button
+              key={section}
+              onClick={() => navigate(`/admin/${section}`)}
+              className={cn(
+                "pb-3 -mb-px border-b-2 text-[11px] font-serif italic uppercase tracking-widest transition-colors",
+                adminSection === section ? "border-gold text-gold" : "border-transparent text-gray-500 hover:text-white"
+              )}
+            >
+              {ADMIN_SECTION_LABELS[section]}
+            </button>
+          ))}
+        </nav>
+
+        {adminSection === 'codes' && <AccessCodeManager codes={accessCodes} onChange={setAccessCodes} />}
+
+        {adminSection === 'history' && <AdminHistory codes={accessCodes} />}
+
+        {adminSection === 'templates' && <TemplateManager />}
+
+        {adminSection === 'channels' && <ChannelManager />}
+      </div>
+    </motion.div>
+  );
+}
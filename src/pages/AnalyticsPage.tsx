@@ -0,0 +1,22 @@
+import { motion } from 'motion/react';
+import AnalyticsView from '../components/AnalyticsView';
+import { AnalysisResult } from '../types';
+
+interface AnalyticsPageProps {
+  // Null until the journal has loaded.
+  entries: AnalysisResult[] | null;
+}
+
+export default function AnalyticsPage({ entries }: AnalyticsPageProps) {
+  return (
+    <motion.div 
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="space-y-8"
+    >
+      <h2 className="text-3xl font-serif font-bold italic text-white">Performance Analytics</h2>
+      <AnalyticsView history={entries ?? []} />
+    </motion.div>
+  );
+}
@@ -0,0 +1,332 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, BarChart3, Camera, Plus, RefreshCw, ShieldCheck, Target, Upload, X, Zap } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import CameraCapture from '../components/CameraCapture';
+import ResultView from '../components/ResultView';
+import StreamingAnalysis, { REPAIR_MESSAGE } from '../components/StreamingAnalysis';
+import { ChartAnalysis } from '../hooks/useChartAnalysis';
+import { OpenResult } from '../hooks/useOpenResult';
+import { BUILT_IN_TEMPLATE } from '../lib/promptTemplate';
+import { MAX_CHARTS, TIMEFRAMES } from '../lib/timeframes';
+import { cn } from '../lib/utils';
+import { AlertEvent, AnalysisResult } from '../types';
+
+const loadingMessages = [
+  "Transmuting market data...",
+  "Decoding ICT liquidity pools...",
+  "Calculating Alchemist SNR levels...",
+  "Scanning macro fundamental landscape...",
+  "Synthesizing trade signal...",
+  "Filtering market noise...",
+];
+
+interface DashboardPageProps {
+  analysis: ChartAnalysis;
+  openResult: OpenResult;
+  lastAlertEvent: AlertEvent | null;
+  error: string | null;
+  onRun: () => void;
+  onUpdate: (entry: AnalysisResult) => Promise<void>;
+  onError: (message: string | null) => void;
+}
+
+// Chart upload for new analyses, and the result view of /history/:id.
+export default function DashboardPage({ analysis, openResult, lastAlertEvent, error, onRun, onUpdate, onError }: DashboardPageProps) {
+  const {
+    charts, templates, templateId, setTemplateId, isAnalyzing, streamText, isRepairing,
+    addChartImages, addChartFiles, setChartTimeframe, removeChart, cancel,
+  } = analysis;
+  const { result } = openResult;
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isAnalyzing) {
+      const interval = setInterval(() => {
+        setLoadingMsgIndex((prev) => (prev + 1) % loadingMessages.length);
+      }, 2000);
+      return () => clearInterval(interval);
+    }
+  }, [isAnalyzing]);
+
+  // Ctrl+V after a platform screenshot adds the clipboard image as a chart.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0 || isAnalyzing) return;
+      e.preventDefault();
+      addChartFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [charts, isAnalyzing]);
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addChartFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    if (!isAnalyzing) addChartFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <>
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="grid grid-cols-1 lg:grid-cols-12 gap-8"
+      >
+        {/* Left: Input */}
+        <div className="lg:col-span-5 space-y-6">
+          <section
+            onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+            onDrop={handleDrop}
+            className={cn(
+              "bg-alchemist-card border rounded-3xl p-6 md:p-8 relative overflow-hidden group transition-colors",
+              isDraggingFile ? "border-gold/60" : "border-alchemist-border"
+            )}
+          >
+            <div className="scanline opacity-10" />
+            <div className="absolute top-0 right-0 p-6 opacity-20 group-hover:opacity-40 transition-opacity">
+              <BarChart3 className="w-12 h-12 text-gold" />
+            </div>
+
+            <h2 className="text-xs font-serif italic uppercase tracking-[0.2em] text-gold mb-8 flex items-center gap-2">
+              <div className="w-1.5 h-1.5 rounded-full bg-gold animate-pulse" />
+              Chart Ingestion
+            </h2>
+
+            <div className="space-y-6">
+              {charts.length === 0 ? (
+                <div 
+                  onClick={() => fileInputRef.current?.click()}
+                  className="border-2 border-dashed border-alchemist-border rounded-3xl aspect-video flex flex-col items-center justify-center cursor-pointer hover:border-gold/40 transition-all group relative overflow-hidden bg-alchemist-bg/50"
+                >
+                  <div className="text-center space-y-4">
+                    <div className="w-16 h-16 bg-alchemist-card rounded-2xl flex items-center justify-center mx-auto border border-alchemist-border group-hover:scale-110 group-hover:border-gold/30 transition-all duration-500">
+                      <Upload className="text-gray-500 w-8 h-8 group-hover:text-gold" />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-gray-300">Drag & Drop, Paste or Browse</p>
+                      <p className="text-[10px] text-gray-600 uppercase tracking-widest">PNG, JPG, WEBP // UP TO {MAX_CHARTS} TIMEFRAMES</p>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className={cn("grid gap-3", charts.length > 1 ? "grid-cols-2" : "grid-cols-1")}>
+                    {charts.map(chart => (
+                      <div key={chart.id} className="relative rounded-2xl overflow-hidden aspect-video shadow-2xl bg-alchemist-bg/50">
+                        <img src={chart.image} alt={`${chart.timeframe} chart`} className="w-full h-full object-cover" />
+                        <button
+                          onClick={() => removeChart(chart.id)}
+                          title="Remove chart"
+                          className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/60 text-gray-300 hover:text-red-400 flex items-center justify-center transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                        <select
+                          value={chart.timeframe}
+                          onChange={(e) => setChartTimeframe(chart.id, e.target.value)}
+                          className="absolute bottom-2 left-2 bg-black/70 border border-gold/20 rounded-lg px-2 py-1 text-[10px] font-bold tracking-widest text-gold outline-none"
+                        >
+                          {charts.length === 1 && <option value="AUTO">AUTO</option>}
+                          {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {charts.length < MAX_CHARTS && (
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="w-full border border-dashed border-alchemist-border hover:border-gold/40 rounded-2xl py-3 text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold transition-all flex items-center justify-center gap-2"
+                    >
+                      <Plus className="w-3 h-3" /> Add Timeframe ({charts.length}/{MAX_CHARTS})
+                    </button>
+                  )}
+                </div>
+              )}
+              <input 
+                type="file" 
+                ref={fileInputRef} 
+                onChange={handleImageUpload} 
+                className="hidden" 
+                accept="image/*"
+                multiple
+              />
+
+              {charts.length < MAX_CHARTS && (
+                <button
+                  onClick={() => setShowCamera(true)}
+                  disabled={isAnalyzing}
+                  className="w-full text-[10px] font-serif italic uppercase tracking-widest text-gray-500 hover:text-gold transition-colors flex items-center justify-center gap-2"
+                >
+                  <Camera className="w-3 h-3" /> Capture With Camera
+                </button>
+              )}
+
+              {templates.length > 1 && (
+                <label className="space-y-1 block">
+                  <span className="text-[9px] font-serif italic text-gray-500 uppercase tracking-widest">Methodology</span>
+                  <select
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    disabled={isAnalyzing}
+                    className="w-full bg-alchemist-card border-b border-white/10 py-2 text-white font-serif focus:border-gold/30 outline-none"
+                  >
+                    <option value="">Default ({templates.find(t => t.isDefault)?.name})</option>
+                    {templates.map(t => <option key={t.id} value={t.id}>{t.name} v{t.version}</option>)}
+                  </select>
+                </label>
+              )}
+
+              <button 
+                onClick={isAnalyzing ? cancel : onRun}
+                disabled={!isAnalyzing && charts.length === 0}
+                className="w-full bg-gold hover:bg-gold/90 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed text-black font-bold py-5 rounded-2xl transition-all flex items-center justify-center gap-3 shadow-xl shadow-gold/10 group active:scale-[0.98]"
+              >
+                {isAnalyzing ? (
+                  <RefreshCw className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Zap className="w-5 h-5 group-hover:scale-125 transition-transform" />
+                )}
+                <span className="tracking-widest uppercase text-sm">
+                  {isAnalyzing ? 'Cancel Transmutation' : 'Execute Analysis'}
+                </span>
+              </button>
+            </div>
+          </section>
+
+          {error && (
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-red-500/10 border border-red-500/20 text-red-400 p-5 rounded-2xl flex items-center gap-4 text-sm"
+            >
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              {error}
+            </motion.div>
+          )}
+        </div>
+
+        {/* Right: Results */}
+        <div className="lg:col-span-7">
+          <AnimatePresence mode="wait">
+            {isAnalyzing && streamText.includes('{') ? (
+              <motion.div
+                key="streaming"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                <StreamingAnalysis
+                  text={streamText}
+                  isRepairing={isRepairing}
+                  methods={(templates.find(t => t.id === templateId) ?? templates.find(t => t.isDefault) ?? BUILT_IN_TEMPLATE).methods}
+                  onCancel={cancel}
+                />
+              </motion.div>
+            ) : isAnalyzing ? (
+              <motion.div 
+                key="loading"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="h-full min-h-[500px] flex flex-col items-center justify-center space-y-10 bg-alchemist-card border border-alchemist-border rounded-3xl p-12 relative overflow-hidden"
+              >
+                <div className="absolute inset-0 bg-gradient-to-b from-gold/5 to-transparent opacity-20" />
+                <div className="relative">
+                  <div className="w-32 h-32 border-[6px] border-gold/5 border-t-gold rounded-full animate-spin" />
+                  <Zap className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-gold w-10 h-10 animate-pulse" />
+                </div>
+                <div className="text-center space-y-3 relative z-10 px-4">
+                  <motion.p 
+                    key={loadingMsgIndex}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="text-xl md:text-2xl font-serif italic text-white"
+                  >
+                    {isRepairing ? REPAIR_MESSAGE : loadingMessages[loadingMsgIndex]}
+                  </motion.p>
+                  <p className="text-[11px] font-serif italic text-gray-600 uppercase tracking-[0.5em]">Analytical Synthesis</p>
+                </div>
+              </motion.div>
+            ) : result ? (
+              <motion.div 
+                key="result"
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="space-y-6"
+              >
+                <ResultView
+                  result={result}
+                  sourceCharts={openResult.sourceCharts}
+                  entryChart={openResult.entryChart}
+                  overlayImage={openResult.overlayImage}
+                  lastAlertEvent={lastAlertEvent}
+                  onUpdate={onUpdate}
+                  onOverlaySaved={openResult.overlaySaved}
+                  onError={onError}
+                />
+              </motion.div>
+            ) : (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="h-full min-h-[600px] flex flex-col items-center justify-center text-center space-y-8 bg-alchemist-card/20 border-2 border-dashed border-alchemist-border rounded-3xl p-12"
+              >
+                <div className="relative">
+                  <div className="w-24 h-24 bg-alchemist-card rounded-3xl flex items-center justify-center border border-alchemist-border rotate-12 group-hover:rotate-0 transition-transform duration-500 shadow-2xl">
+                    <BarChart3 className="text-gray-600 w-10 h-10" />
+                  </div>
+                  <div className="absolute -top-4 -right-4 w-12 h-12 bg-gold/10 rounded-2xl flex items-center justify-center border border-gold/20 animate-bounce">
+                    <Zap className="text-gold w-6 h-6" />
+                  </div>
+                </div>
+                <div className="max-w-sm space-y-3">
+                  <h3 className="text-2xl font-serif italic text-white">Awaiting Market Data</h3>
+                  <p className="text-sm text-gray-500 leading-relaxed">
+                    Upload a chart image to initiate the Alchemist transmutation process. 
+                    Our engine will decode SNR, ICT, and Macro data instantly.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-8 pt-8">
+                  <FeatureStep icon={<ShieldCheck />} label="SNR/ICT" />
+                  <FeatureStep icon={<Zap />} label="ALCHEMIST" />
+                  <FeatureStep icon={<Target />} label="SIGNAL" />
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </motion.div>
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(image) => { addChartImages([image]); setShowCamera(false); }}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+    </>
+  );
+}
+
+function FeatureStep({ icon, label }: { icon: React.ReactElement, label: string }) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center border border-white/5 text-gray-600">
+        {React.cloneElement(icon, { className: "w-5 h-5" } as any)}
+      </div>
+      <span className="text-[9px] font-serif italic text-gray-700 uppercase tracking-widest font-bold">{label}</span>
+    </div>
+  );
+}
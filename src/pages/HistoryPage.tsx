@@ -0,0 +1,298 @@
+import { useRef, useState } from 'react';
+import { ChevronRight, Download, FileUp, History, RefreshCw, Trash2, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import * as historyService from '../services/historyService';
+import BacktestPanel from '../components/BacktestPanel';
+import HistoryFilters from '../components/HistoryFilters';
+import OutcomeEditor, { OUTCOME_STYLES } from '../components/OutcomeEditor';
+import { Journal } from '../hooks/useJournal';
+import { downloadCsv } from '../lib/csv';
+import { downloadJson, historyToCsv, historyToJson, parseHistoryImport } from '../lib/historyExport';
+import { HISTORY_PAGE_SIZE, isEmptyQuery } from '../lib/historyQuery';
+import { getOutcome, OUTCOME_LABELS } from '../lib/outcomes';
+import { navigate } from '../lib/router';
+import { cn } from '../lib/utils';
+import { AnalysisResult, TradeOutcome } from '../types';
+
+interface HistoryPageProps {
+  owner: string;
+  journal: Journal;
+  onUpdate: (entry: AnalysisResult) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export default function HistoryPage({ owner, journal, onUpdate, onDelete }: HistoryPageProps) {
+  const [editingOutcomeId, setEditingOutcomeId] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Result of the last export, import or failed change.
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await journal.loadMore();
+    } catch (err: any) {
+      setHistoryNotice(err.message);
+    }
+    setIsLoadingMore(false);
+  };
+
+  const deleteEntry = async (id: string) => {
+    try {
+      await onDelete(id);
+    } catch (err: any) {
+      setHistoryNotice(err.message);
+    }
+  };
+
+  const clearHistory = async () => {
+    try {
+      await journal.clear();
+    } catch (err: any) {
+      setHistoryNotice(err.message);
+    }
+  };
+
+  // Exports everything matching the current filters, not just the loaded pages.
+  const exportHistory = async (format: 'csv' | 'json') => {
+    try {
+      const entries = await historyService.loadAllHistory({ ...journal.query, owner });
+      const fileName = `vertexchart-history-${new Date().toISOString().slice(0, 10)}`;
+      if (format === 'csv') {
+        downloadCsv(`${fileName}.csv`, historyToCsv(entries));
+      } else {
+        downloadJson(`${fileName}.json`, historyToJson(entries));
+      }
+      setHistoryNotice(`Exported ${entries.length} ${entries.length === 1 ? 'analysis' : 'analyses'}.`);
+    } catch (err: any) {
+      setHistoryNotice(err.message);
+    }
+  };
+
+  const importHistory = async (file: File) => {
+    try {
+      const { entries, errors } = parseHistoryImport(await file.text());
+      await historyService.importEntries(entries.map(entry => ({ ...entry, owner })));
+      await journal.reload();
+      setHistoryNotice([
+        `Imported ${entries.length} ${entries.length === 1 ? 'analysis' : 'analyses'}.`,
+        ...(errors.length > 0 ? [`Skipped ${errors.length}:`, ...errors] : []),
+      ].join('\n'));
+    } catch (err: any) {
+      setHistoryNotice(err.message);
+    }
+  };
+
+  const saveOutcome = (entry: AnalysisResult, outcome: TradeOutcome) => {
+    setEditingOutcomeId(null);
+    onUpdate({ ...entry, outcome });
+  };
+
+  const applyBacktest = (entries: AnalysisResult[]) => {
+    entries.forEach(onUpdate);
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="space-y-8"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-serif font-bold italic text-white">Historical Transmutations</h2>
+        <div className="flex flex-wrap items-center justify-end gap-6">
+          {journal.history.length > 0 && (
+            <>
+              <button
+                onClick={() => exportHistory('csv')}
+                className="text-xs font-serif italic text-gray-500 hover:text-gold transition-colors flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </button>
+              <button
+                onClick={() => exportHistory('json')}
+                className="text-xs font-serif italic text-gray-500 hover:text-gold transition-colors flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-xs font-serif italic text-gray-500 hover:text-gold transition-colors flex items-center gap-2"
+          >
+            <FileUp className="w-4 h-4" />
+            IMPORT
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importHistory(file);
+              e.target.value = '';
+            }}
+          />
+          {journal.history.length > 0 && (
+            <button 
+              onClick={clearHistory}
+              className="text-xs font-serif italic text-red-400 hover:text-red-300 transition-colors flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              CLEAR ALL
+            </button>
+          )}
+        </div>
+      </div>
+
+      {historyNotice && (
+        <div className="flex items-start justify-between gap-4 bg-alchemist-card border border-alchemist-border rounded-2xl px-6 py-4">
+          <p className="text-xs font-serif italic text-gray-400 whitespace-pre-line">{historyNotice}</p>
+          <button onClick={() => setHistoryNotice(null)} title="Dismiss" className="text-gray-600 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {journal.all && journal.all.length > 0 && <BacktestPanel history={journal.all} onApply={applyBacktest} />}
+
+      <HistoryFilters query={journal.query} onChange={journal.setQuery} />
+
+      {journal.history.length === 0 ? (
+        <div className="h-96 flex flex-col items-center justify-center text-center space-y-4 bg-alchemist-card border border-alchemist-border rounded-3xl">
+          <History className="w-12 h-12 text-gray-700" />
+          <p className="text-gray-500 font-serif italic">
+            {isEmptyQuery(journal.query) ? 'No past analyses recorded.' : 'No analyses match these filters.'}
+          </p>
+        </div>
+      ) : (
+        <>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {journal.history.map((item, idx) => (
+            <motion.div 
+              key={item.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: (idx % HISTORY_PAGE_SIZE) * 0.05 }}
+              className="bg-alchemist-card border border-alchemist-border rounded-2xl p-6 hover:border-gold/30 transition-all group cursor-pointer"
+              onClick={() => navigate(`/history/${encodeURIComponent(item.id)}`)}
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className={cn(
+                    "w-10 h-10 rounded-lg flex items-center justify-center border",
+                    item.signal.action === 'BUY' ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500" : 
+                    item.signal.action === 'SELL' ? "bg-red-500/10 border-red-500/20 text-red-500" : 
+                    "bg-gray-500/10 border-gray-500/20 text-gray-500"
+                  )}>
+                    {item.signal.action === 'BUY' ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+                  </div>
+                  <div>
+                    <h4 className="font-serif italic font-bold text-white tracking-tight">{item.signal.pair}</h4>
+                    <p className="text-[11px] font-serif italic text-gray-700">{new Date(item.timestamp).toLocaleString()}</p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <span className={cn(
+                    "text-xs font-bold",
+                    item.signal.action === 'BUY' ? "text-emerald-500" : "text-red-500"
+                  )}>
+                    {item.signal.action}
+                  </span>
+                </div>
+              </div>
+              {item.charts && item.charts.length > 0 && (
+                <div className={cn("grid gap-2 mb-4", item.charts.length > 1 ? "grid-cols-4" : "grid-cols-1")}>
+                  {item.charts.map(chart => (
+                    <div key={chart.timeframe} className="relative rounded-lg overflow-hidden aspect-video bg-alchemist-bg/50">
+                      <img src={chart.thumbnail} alt={`${chart.timeframe} chart`} className="w-full h-full object-cover opacity-80" />
+                      {chart.timeframe !== 'AUTO' && (
+                        <span className="absolute bottom-1 left-1 px-1.5 rounded bg-black/70 text-[8px] font-bold tracking-widest text-gold">{chart.timeframe}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-400 line-clamp-2 italic mb-4">"{item.signal.reasoning}"</p>
+              <div className="flex items-center justify-between pt-4 border-t border-white/5">
+                <div className="flex gap-4">
+                  <div className="text-[11px] font-serif italic">
+                    <span className="text-gray-600 mr-1">TP:</span>
+                    <span className="text-emerald-500">{item.signal.tp}</span>
+                  </div>
+                  <div className="text-[11px] font-serif italic">
+                    <span className="text-gray-600 mr-1">SL:</span>
+                    <span className="text-red-500">{item.signal.sl}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingOutcomeId(editingOutcomeId === item.id ? null : item.id);
+                    }}
+                    title="Edit outcome"
+                    className={cn(
+                      "px-3 py-1 rounded-full text-[9px] font-bold tracking-[0.2em] uppercase border transition-all hover:brightness-125",
+                      OUTCOME_STYLES[getOutcome(item).status]
+                    )}
+                  >
+                    {OUTCOME_LABELS[getOutcome(item).status]}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteEntry(item.id);
+                    }}
+                    title="Delete entry"
+                    className="p-1 text-gray-700 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <ChevronRight className="w-4 h-4 text-gray-600 group-hover:text-gold transition-colors" />
+                </div>
+              </div>
+              {item.outcome && editingOutcomeId !== item.id && (item.outcome.exitPrice !== undefined || item.outcome.notes) && (
+                <div className="pt-3 text-[11px] font-serif italic text-gray-500 space-y-1">
+                  {item.outcome.exitPrice !== undefined && (
+                    <p>
+                      <span className="text-gray-600 mr-1">Exit:</span>
+                      <span className="text-white">{item.outcome.exitPrice}</span>
+                      {item.outcome.exitTime && <span className="ml-2 text-gray-700">{new Date(item.outcome.exitTime).toLocaleString()}</span>}
+                    </p>
+                  )}
+                  {item.outcome.notes && <p className="line-clamp-2">{item.outcome.notes}</p>}
+                </div>
+              )}
+              {editingOutcomeId === item.id && (
+                <OutcomeEditor
+                  outcome={getOutcome(item)}
+                  onSave={(outcome) => saveOutcome(item, outcome)}
+                  onCancel={() => setEditingOutcomeId(null)}
+                />
+              )}
+            </motion.div>
+          ))}
+        </div>
+        {journal.hasMore && (
+          <div className="flex justify-center">
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="text-[11px] font-serif italic uppercase tracking-widest text-gold/70 hover:text-gold disabled:opacity-40 flex items-center gap-2"
+            >
+              {isLoadingMore && <RefreshCw className="w-3 h-3 animate-spin" />} Load More
+            </button>
+          </div>
+        )}
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import * as api from '../services/api';
+import * as historyService from '../services/historyService';
+import { setSessionToken } from '../services/session';
+import { SessionInfo } from '../types';
+
+interface LoginPageProps {
+  error: string | null;
+  onSession: (session: SessionInfo) => void;
+  onError: (message: string) => void;
+}
+
+export default function LoginPage({ error, onSession, onError }: LoginPageProps) {
+  const [loginCode, setLoginCode] = useState('');
+  const [adminCode, setAdminCode] = useState('');
+  const [showAdminInput, setShowAdminInput] = useState(false);
+
+  const handleUserLogin = async () => {
+    try {
+      const { token, ...session } = await api.login(loginCode);
+      setSessionToken(token);
+      // Needs a secure context for hashing; the login stands either way.
+      await historyService.claimLocalEntries(loginCode, session.owner).catch(err => console.error(err));
+      onSession(session);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const handleAdminLogin = async () => {
+    try {
+      const { token, ...session } = await api.adminLogin(adminCode);
+      setSessionToken(token);
+      onSession(session);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="min-h-screen bg-alchemist-bg flex items-center justify-center p-4 font-sans relative overflow-hidden"
+    >
+      {/* Immersive Background Elements */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-[-20%] left-[-10%] w-[70%] h-[70%] bg-gold/5 blur-[160px] rounded-full" />
+        <div className="absolute bottom-[-20%] right-[-10%] w-[70%] h-[70%] bg-gold/5 blur-[160px] rounded-full" />
+        <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/natural-paper.png')] opacity-[0.03]" />
+      </div>
+
+      <div className="max-w-sm w-full space-y-8 relative z-10">
+        <motion.div 
+          initial={{ y: -10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.2 }}
+          className="text-center space-y-2"
+        >
+          <h1 className="text-5xl font-display font-bold text-white tracking-tighter">
+            Vertex<span className="text-gold italic">Chart</span>
+          </h1>
+          <p className="text-[10px] font-serif italic text-gray-500 uppercase tracking-[0.4em]">Refined Intelligence</p>
+        </motion.div>
+
+        <motion.div 
+          initial={{ y: 10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.4 }}
+          className="bg-alchemist-card/20 backdrop-blur-xl border border-white/5 rounded-[2rem] p-8 shadow-xl relative overflow-hidden"
+        >
+          <div className="space-y-8 relative z-10">
+            <div className="space-y-6">
+              <div className="relative">
+                <input 
+                  type="text" 
+                  value={loginCode}
+                  onChange={(e) => setLoginCode(e.target.value.toUpperCase())}
+                  placeholder="ACCESS CODE"
+                  className="w-full bg-white/[0.02] border-b border-white/10 px-4 py-4 text-white font-serif focus:border-gold/30 outline-none transition-all text-center tracking-[0.3em] text-lg"
+                />
+              </div>
+
+              <button 
+                onClick={handleUserLogin}
+                className="w-full bg-gold hover:bg-gold-muted text-black font-serif italic font-bold py-4 rounded-xl transition-all duration-500 shadow-lg hover:shadow-gold/5 uppercase tracking-[0.2em] text-xs"
+              >
+                Enter
+              </button>
+            </div>
+
+            <div className="pt-4 flex flex-col items-center gap-2">
+              {showAdminInput ? (
+                <motion.div initial={{ opacity: 0, y: 5 }} animate={{ opacity: 1, y: 0 }} className="w-full space-y-2">
+                  <input 
+                    type="password" 
+                    value={adminCode}
+                    onChange={(e) => setAdminCode(e.target.value)}
+                    placeholder="MASTER KEY"
+                    className="w-full bg-transparent border-b border-white/10 px-4 py-2 text-white font-serif focus:border-gold/30 outline-none transition-all text-center text-[10px] tracking-[0.3em]"
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdminLogin()}
+                  />
+                  <button 
+                    onClick={handleAdminLogin}
+                    className="w-full text-gold/40 hover:text-gold font-serif italic text-[9px] uppercase tracking-widest"
+                  >
+                    Verify Key
+                  </button>
+                </motion.div>
+              ) : (
+                <button 
+                  onClick={() => setShowAdminInput(true)}
+                  className="text-gray-600 hover:text-gold/40 font-serif italic uppercase tracking-[0.3em] text-[9px]"
+                >
+                  Admin
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+
+        {error && (
+          <motion.div 
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-red-500/5 border border-red-500/10 text-red-400/80 p-4 rounded-2xl text-center text-[11px] font-serif italic tracking-wider"
+          >
+            {error}
+          </motion.div>
+        )}
+
+        <div className="text-center">
+          <p className="text-[10px] font-serif italic text-gray-700 uppercase tracking-[0.6em]">Established MMXXVI</p>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { BarChart3, Info, ShieldCheck, Target, Zap } from 'lucide-react';
+import { motion } from 'motion/react';
+
+export default function MethodologyPage() {
+  return (
+    <motion.div 
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      className="space-y-12"
+    >
+      <div className="max-w-3xl space-y-4">
+        <h2 className="text-4xl font-serif font-bold italic text-white">The Alchemist Methodology</h2>
+        <p className="text-gray-400 leading-relaxed font-serif italic">
+          VertexChart combines institutional concepts with advanced algorithmic analysis to provide 
+          high-probability market directives. Our engine synthesizes four core pillars of trading.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <MethodCard 
+          title="SNR (Support & Resistance)" 
+          icon={<Target className="text-blue-400" />}
+          description="Identifying key psychological and historical price levels. We prioritize 'Fresh' zones that haven't been mitigated, as they hold the highest probability of reaction."
+        />
+        <MethodCard 
+          title="ICT (Institutional Concepts)" 
+          icon={<Zap className="text-gold" />}
+          description="Decoding the footprints of 'Smart Money'. We look for Order Blocks, Fair Value Gaps (FVG), and Liquidity Sweeps to identify where big players are entering the market."
+        />
+        <MethodCard 
+          title="STD (Standard Deviation)" 
+          icon={<BarChart3 className="text-purple-400" />}
+          description="Measuring market volatility through statistical variance. Standard Deviation bands help us identify overextended price moves that are ripe for mean reversion."
+        />
+        <MethodCard 
+          title="Alchemist X MSNR" 
+          icon={<ShieldCheck className="text-emerald-400" />}
+          description="Our proprietary layer focusing on 'Manipulation SNR'. We analyze the Accumulation-Manipulation-Distribution (AMD) cycle to enter trades after retail traders have been stopped out."
+        />
+      </div>
+
+      <section className="bg-gold/5 border border-gold/20 rounded-3xl p-10 space-y-6">
+        <div className="flex items-center gap-3 text-gold">
+          <Info className="w-6 h-6" />
+          <h3 className="text-xl font-serif font-bold italic">Macro Grounding</h3>
+        </div>
+        <p className="text-gray-300 leading-relaxed">
+          Technical analysis alone is incomplete. VertexChart uses Google Search grounding to incorporate 
+          real-time economic data (NFP, CPI, FOMC) and central bank sentiment into every analysis. 
+          This ensures your technical setup aligns with the fundamental narrative of the market.
+        </p>
+        <div className="flex flex-wrap gap-4 pt-4">
+          {['Interest Rates', 'Inflation Data', 'Geopolitical Risk', 'Yield Curves'].map(tag => (
+            <span key={tag} className="px-4 py-2 bg-gold/5 rounded-full text-[11px] font-serif italic text-gold border border-gold/10 uppercase tracking-widest">
+              {tag}
+            </span>
+          ))}
+        </div>
+      </section>
+    </motion.div>
+  );
+}
+
+function MethodCard({ title, icon, description }: { title: string, icon: React.ReactElement, description: string }) {
+  return (
+    <div className="bg-alchemist-card border border-white/5 rounded-[2.5rem] p-8 md:p-12 space-y-6 md:space-y-8 hover:border-gold/20 transition-all group relative overflow-hidden">
+      <div className="absolute bottom-0 left-0 w-48 h-48 bg-gold/5 blur-3xl rounded-full -ml-24 -mb-24 group-hover:bg-gold/10 transition-all" />
+      <div className="w-14 h-14 md:w-16 md:h-16 bg-white/5 rounded-2xl flex items-center justify-center border border-white/5 group-hover:scale-110 transition-transform relative z-10">
+        {React.cloneElement(icon, { className: "w-7 h-7 md:w-8 md:h-8 text-gold" } as any)}
+      </div>
+      <div className="space-y-3 md:space-y-4 relative z-10">
+        <h3 className="text-xl md:text-2xl font-serif font-bold italic text-white">{title}</h3>
+        <p className="text-sm md:text-base text-gray-400 leading-relaxed font-serif italic">{description}</p>
+      </div>
+    </div>
+  );
+}
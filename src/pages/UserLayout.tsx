@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, History, LayoutDashboard, LineChart, LogOut, Zap } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import * as historyService from '../services/historyService';
+import { followAlerts } from '../services/alertService';
+import AlertToasts from '../components/AlertToasts';
+import { useChartAnalysis } from '../hooks/useChartAnalysis';
+import { useJournal } from '../hooks/useJournal';
+import { useOpenResult } from '../hooks/useOpenResult';
+import { isReplayable } from '../lib/backtest';
+import { alertOutcome, describeAlertEvent } from '../lib/priceAlerts';
+import { Route, navigate } from '../lib/router';
+import { cn } from '../lib/utils';
+import { AlertEvent, AnalysisResult } from '../types';
+import AnalyticsPage from './AnalyticsPage';
+import DashboardPage from './DashboardPage';
+import HistoryPage from './HistoryPage';
+import MethodologyPage from './MethodologyPage';
+
+// Older in-app alert notices make way for new ones.
+const MAX_ALERT_TOASTS = 4;
+
+type Tab = 'dashboard' | 'history' | 'analytics' | 'methodology';
+
+interface UserLayoutProps {
+  route: Route;
+  owner: string;
+  onSignOut: () => void;
+}
+
+// The signed-in user's pages and the state they share: the journal, the
+// open result, a running analysis and price alerts.
+export default function UserLayout({ route, owner, onSignOut }: UserLayoutProps) {
+  // A history entry opens in the dashboard's result view.
+  const activeTab: Tab = route.page === 'history' || route.page === 'analytics' || route.page === 'methodology'
+    ? route.page
+    : 'dashboard';
+  const entryId = route.page === 'historyEntry' ? route.id : null;
+
+  const [error, setError] = useState<string | null>(null);
+  const [alertToasts, setAlertToasts] = useState<AlertEvent[]>([]);
+  const [lastAlertEvent, setLastAlertEvent] = useState<AlertEvent | null>(null);
+  const journal = useJournal(owner, { loadAll: activeTab === 'history' || activeTab === 'analytics' });
+  const openResult = useOpenResult();
+  const analysis = useChartAnalysis({
+    owner,
+    onError: setError,
+    onAnalysis: async (data, entryChart) => {
+      openResult.showNew(data, entryChart);
+      journal.add(data);
+      await historyService.saveEntry(data);
+      navigate(`/history/${encodeURIComponent(data.id)}`);
+    },
+  });
+
+  // Opens the entry in /history/:id, from the loaded page if it's there.
+  useEffect(() => {
+    if (!entryId || openResult.result?.id === entryId) return;
+    let cancelled = false;
+    (async () => {
+      const entry = journal.history.find(item => item.id === entryId) ?? await historyService.getEntry(entryId);
+      if (cancelled) return;
+      if (entry) {
+        openResult.show(entry);
+      } else {
+        setError('That analysis does not exist or was deleted.');
+        navigate('/dashboard', { replace: true });
+      }
+    })().catch(err => setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  // The bare dashboard is for new analyses; results live at /history/:id.
+  useEffect(() => {
+    if (route.page === 'dashboard' && !analysis.isAnalyzing) openResult.close();
+  }, [route.page]);
+
+  // Price alerts fire on the server; this tab announces them and books them
+  // in the journal, including any that fired while no tab was open.
+  useEffect(() => {
+    const controller = new AbortController();
+    followAlerts(handleAlertEvent, controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const updateEntry = async (updated: AnalysisResult) => {
+    openResult.replace(updated);
+    try {
+      await journal.update(updated);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const deleteEntry = async (id: string) => {
+    await journal.remove(id);
+    openResult.close(id);
+    if (entryId === id) navigate('/history');
+  };
+
+  const handleAlertEvent = async (event: AlertEvent) => {
+    setLastAlertEvent(event);
+    setAlertToasts(prev => [...prev, event].slice(-MAX_ALERT_TOASTS));
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification('VertexChart price alert', { body: describeAlertEvent(event), tag: event.id });
+    }
+    // Outcomes closed or cancelled by hand are left alone, as in backtests.
+    const entry = await historyService.getEntry(event.analysisId);
+    if (entry && isReplayable(entry)) await updateEntry({ ...entry, outcome: alertOutcome(event) });
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="min-h-screen font-sans selection:bg-gold/30 bg-alchemist-bg text-gray-100 pb-20 md:pb-0 relative overflow-hidden"
+    >
+      <AlertToasts
+        events={alertToasts}
+        onOpen={(event) => navigate(`/history/${event.analysisId}`)}
+        onDismiss={(id) => setAlertToasts(prev => prev.filter(event => event.id !== id))}
+      />
+
+      {/* Background Glows */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-[-10%] right-[-10%] w-[50%] h-[50%] bg-gold/5 blur-[140px] rounded-full" />
+        <div className="absolute bottom-[-10%] left-[-10%] w-[50%] h-[50%] bg-gold/5 blur-[140px] rounded-full" />
+      </div>
+
+      {/* Navigation - Sidebar for Desktop, Bottom Bar for Mobile */}
+      <nav className="fixed bottom-0 left-0 w-full h-20 bg-alchemist-card/80 backdrop-blur-2xl border-t border-white/5 flex flex-row items-center justify-around px-4 z-50 md:fixed md:left-0 md:top-0 md:h-full md:w-24 md:border-t-0 md:border-r md:flex-col md:py-12 md:px-0">
+        <div className="hidden md:flex w-16 h-16 bg-gold/5 rounded-2xl items-center justify-center border border-gold/10 mb-16">
+          <Zap className="text-gold w-8 h-8" />
+        </div>
+
+        <div className="flex flex-row md:flex-col gap-4 md:gap-8 flex-1 items-center justify-around w-full md:w-auto">
+          <NavButton 
+            active={activeTab === 'dashboard'} 
+            onClick={() => navigate('/dashboard')} 
+            icon={<LayoutDashboard />} 
+            label="Dash" 
+          />
+          <NavButton 
+            active={activeTab === 'history'} 
+            onClick={() => navigate('/history')} 
+            icon={<History />} 
+            label="History" 
+          />
+          <NavButton 
+            active={activeTab === 'analytics'} 
+            onClick={() => navigate('/analytics')} 
+            icon={<LineChart />} 
+            label="Stats" 
+          />
+          <NavButton 
+            active={activeTab === 'methodology'} 
+            onClick={() => navigate('/methodology')} 
+            icon={<BookOpen />} 
+            label="Method" 
+          />
+        </div>
+
+        <div className="hidden md:block mt-auto">
+          <div className="w-10 h-10 rounded-full bg-alchemist-border flex items-center justify-center text-[10px] font-bold text-gray-400">
+            VC
+          </div>
+        </div>
+      </nav>
+
+      <div className="md:pl-20">
+        {/* Header */}
+        <header className="h-24 border-b border-white/5 bg-alchemist-bg/50 backdrop-blur-xl sticky top-0 z-40 px-4 md:px-12 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="md:hidden w-10 h-10 bg-gold/5 rounded-xl flex items-center justify-center border border-gold/10">
+              <Zap className="text-gold w-5 h-5" />
+            </div>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-display font-bold tracking-tight text-white">
+                Vertex<span className="text-gold italic">Chart</span>
+              </h1>
+              <div className="flex items-center gap-2">
+                <div className="h-[1px] w-6 bg-gold/20" />
+                <p className="text-[9px] md:text-[11px] uppercase tracking-[0.3em] text-gold/60 font-serif italic">
+                  {activeTab === 'dashboard' ? 'Analytical Intelligence' : 
+                   activeTab === 'history' ? 'Historical Archive' : 
+                   activeTab === 'analytics' ? 'Performance Ledger' : 
+                   'The Alchemist Methodology'}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="hidden md:flex flex-col items-end">
+              <span className="text-[10px] font-serif italic text-emerald-500 uppercase tracking-widest">Repository: Online</span>
+              <span className="text-[10px] font-serif italic text-gray-600 uppercase tracking-widest">Precision: 99.9%</span>
+            </div>
+            <button 
+              onClick={onSignOut}
+              className="p-2 text-gray-600 hover:text-red-400 transition-colors"
+              title="Logout"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
+          </div>
+        </header>
+
+        <main className="p-4 md:p-8 max-w-6xl mx-auto">
+          <AnimatePresence mode="wait">
+            {activeTab === 'dashboard' && (
+              <DashboardPage
+                key="dashboard"
+                analysis={analysis}
+                openResult={openResult}
+                lastAlertEvent={lastAlertEvent}
+                error={error}
+                onRun={analysis.run}
+                onUpdate={updateEntry}
+                onError={setError}
+              />
+            )}
+
+            {activeTab === 'history' && (
+              <HistoryPage key="history" owner={owner} journal={journal} onUpdate={updateEntry} onDelete={deleteEntry} />
+            )}
+
+            {activeTab === 'analytics' && <AnalyticsPage key="analytics" entries={journal.all} />}
+
+            {activeTab === 'methodology' && <MethodologyPage key="methodology" />}
+          </AnimatePresence>
+        </main>
+      </div>
+
+
+      {/* Footer */}
+      <footer className="md:pl-20 border-t border-alchemist-border py-8 md:py-12 bg-alchemist-card/30">
+        <div className="max-w-6xl mx-auto px-4 md:px-8 flex flex-col md:flex-row items-center justify-between gap-8">
+            <div className="space-y-2 text-center md:text-left">
+              <h2 className="text-lg font-serif font-bold italic text-white">VertexChart</h2>
+              <p className="text-[8px] md:text-[10px] font-serif italic text-gray-700 uppercase tracking-[0.3em]">
+                © 2026 PRIVATE ANALYTICAL SUITE // ALL RIGHTS RESERVED
+              </p>
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-4 md:gap-8">
+              <FooterLink label="Archives" />
+              <FooterLink label="Methodology" />
+              <FooterLink label="Terms of Service" />
+            </div>
+
+            <div className="flex items-center gap-4 text-[8px] md:text-[10px] font-serif italic text-gray-700">
+              <div className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-emerald-900 opacity-50" />
+                <span>REPOSITORY ONLINE</span>
+              </div>
+              <span>v2.4.0-REFINED</span>
+            </div>
+        </div>
+      </footer>
+    </motion.div>
+  );
+}
+
+function NavButton({ active, onClick, icon, label }: { active: boolean, onClick: () => void, icon: React.ReactElement, label: string }) {
+  return (
+    <button 
+      onClick={onClick}
+      className={cn(
+        "flex flex-col items-center gap-2 group transition-all relative",
+        active ? "text-gold" : "text-gray-600 hover:text-gray-400"
+      )}
+    >
+      {active && (
+        <motion.div 
+          layoutId="nav-glow"
+          className="absolute -inset-6 bg-gold/5 blur-2xl rounded-full"
+        />
+      )}
+      <div className={cn(
+        "w-12 h-12 rounded-2xl flex items-center justify-center transition-all border",
+        active ? "bg-gold/5 border-gold/20 shadow-2xl shadow-gold/5" : "bg-transparent border-transparent"
+      )}>
+        {React.cloneElement(icon, { className: "w-6 h-6" } as any)}
+      </div>
+      <span className="text-[10px] font-serif italic uppercase tracking-[0.2em] font-medium">{label}</span>
+    </button>
+  );
+}
+
+function FooterLink({ label }: { label: string }) {
+  return (
+    <a href="#" className="text-[11px] font-serif italic text-gray-500 hover:text-gold transition-colors uppercase tracking-widest">
+      {label}
+    </a>
+  );
+}
@@ -0,0 +1,53 @@
+import { AlertEvent } from '../types';
+import * as api from './api';
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Follows the session's price alert events until `signal` aborts: anything
+// that fired while no tab was open, then the live stream, reconnecting with
+// backoff when it drops. Each event reaches `onEvent` once, in order, and is
+// marked seen after `onEvent` settles.
+export const followAlerts = (onEvent: (event: AlertEvent) => Promise<void>, signal: AbortSignal) => {
+  const handled = new Set<string>();
+  let queue = Promise.resolve();
+
+  const handle = (event: AlertEvent) => {
+    if (handled.has(event.id)) return;
+    handled.add(event.id);
+    queue = queue
+      .then(() => onEvent(event))
+      .then(() => api.markAlertEventsSeen([event.id]))
+      .catch(err => console.error(err));
+  };
+
+  (async () => {
+    let delay = 1_000;
+    while (!signal.aborted) {
+      // Ends this connection on failure, e.g. when only the catch-up failed.
+      const attempt = new AbortController();
+      const abort = () => attempt.abort();
+      signal.addEventListener('abort', abort);
+      try {
+        // The catch-up waits until the stream is subscribed, so nothing
+        // recorded in between is missed.
+        await api.watchAlerts(handle, attempt.signal, () => {
+          api.listAlertEvents(true)
+            .then(events => events.forEach(handle))
+            .catch(err => {
+              console.error(err);
+              attempt.abort();
+            });
+        });
+        delay = 1_000;
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error(err);
+      } finally {
+        attempt.abort();
+        signal.removeEventListener('abort', abort);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
+    }
+  })();
+};
@@ -0,0 +1,270 @@
+import { AccessCode, AccessCodeUpdate, AlertEvent, AnalysisResult, ChartInput, CodeEvent, Delivery, IssuedCode, NotificationChannel, PriceAlert, PriceFeedStatus, PromptTemplate, SessionInfo, SharedAnalysis, ShareLink } from '../types';
+import { getDeviceId, getSessionToken } from './session';
+
+interface LoginResponse extends SessionInfo {
+  token: string;
+}
+
+let onUnauthorized: (message: string) => void = () => {};
+
+// Called whenever the server rejects the session, e.g. when the access code
+// expires or is deleted mid-session.
+export const setUnauthorizedHandler = (handler: (message: string) => void) => {
+  onUnauthorized = handler;
+};
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = getSessionToken();
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = body?.error || `Request failed with status ${response.status}.`;
+    if (response.status === 401 && token) onUnauthorized(message);
+    throw new Error(message);
+  }
+  return body as T;
+}
+
+export const login = (code: string) =>
+  request<LoginResponse>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ code, device: getDeviceId() }),
+  });
+
+export const adminLogin = (masterCode: string) =>
+  request<LoginResponse>('/api/auth/admin', {
+    method: 'POST',
+    body: JSON.stringify({ masterCode }),
+  });
+
+export const fetchSession = () => request<SessionInfo>('/api/auth/session');
+
+export const logout = () => request<void>('/api/auth/logout', { method: 'POST' });
+
+// Streams an analysis from /api/analyze/stream. `onText` receives the full
+// model text so far after every chunk; the promise resolves with the validated
+// result. If the first answer is rejected, `onRepair` is called and the text
+// starts over with the model's corrected answer. Aborting `signal` cancels the
+// request on the server as well.
+export async function streamAnalysis(
+  charts: ChartInput[],
+  { templateId, onText, onRepair, signal }: {
+    templateId?: string;
+    onText: (text: string) => void;
+    onRepair?: () => void;
+    signal?: AbortSignal;
+  }
+): Promise<AnalysisResult> {
+  const token = getSessionToken();
+  const response = await fetch('/api/analyze/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ charts, templateId }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    const message = body?.error || `Request failed with status ${response.status}.`;
+    if (response.status === 401 && token) onUnauthorized(message);
+    throw new Error(message);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      if (event.type === 'text') {
+        text += event.text;
+        onText(text);
+      } else if (event.type === 'repair') {
+        text = '';
+        onText(text);
+        onRepair?.();
+      } else if (event.type === 'result') {
+        return event.result as AnalysisResult;
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+  }
+  throw new Error('The analysis stream ended early. Please try again.');
+}
+
+export const listCodes = () => request<AccessCode[]>('/api/admin/codes');
+
+export interface NewCodeOptions {
+  // How many codes to issue with these settings; defaults to 1.
+  count?: number;
+  // E.g. VX-XXXX-XXXX; defaults to the server's ACCESS_CODE_FORMAT.
+  format?: string;
+  // Either days of access or an absolute expiry timestamp.
+  days?: number;
+  expiry?: number;
+  label?: string;
+  maxAnalyses?: number | null;
+  maxDevices?: number | null;
+}
+
+export const createCode = (options: NewCodeOptions) =>
+  request<IssuedCode[]>('/api/admin/codes', {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+
+export const updateCode = (id: string, update: AccessCodeUpdate) =>
+  request<AccessCode>(`/api/admin/codes/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+
+export const listCodeEvents = (codeId?: string) =>
+  request<CodeEvent[]>(`/api/admin/events${codeId ? `?codeId=${encodeURIComponent(codeId)}` : ''}`);
+
+export const deleteCode = (id: string) =>
+  request<void>(`/api/admin/codes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+type TemplateFields = Pick<PromptTemplate, 'name' | 'body' | 'methods' | 'variables'>;
+
+export const listTemplates = () => request<PromptTemplate[]>('/api/templates');
+
+export const listTemplateVersions = (id: string) =>
+  request<PromptTemplate[]>(`/api/templates/${encodeURIComponent(id)}/versions`);
+
+export const createTemplate = (fields: TemplateFields) =>
+  request<PromptTemplate>('/api/templates', {
+    method: 'POST',
+    body: JSON.stringify(fields),
+  });
+
+export const saveTemplateVersion = (id: string, fields: TemplateFields) =>
+  request<PromptTemplate>(`/api/templates/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(fields),
+  });
+
+export const setDefaultTemplate = (id: string) =>
+  request<void>(`/api/templates/${encodeURIComponent(id)}/default`, { method: 'POST' });
+
+// Archives the template; its versions are kept.
+export const archiveTemplate = (id: string) =>
+  request<void>(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const listShares = () => request<ShareLink[]>('/api/shares');
+
+// `expiresInDays` null makes a link that never expires.
+export const createShare = (analysis: AnalysisResult, expiresInDays: number | null) =>
+  request<ShareLink>('/api/shares', {
+    method: 'POST',
+    body: JSON.stringify({ analysis, expiresInDays }),
+  });
+
+export const revokeShare = (id: string) =>
+  request<void>(`/api/shares/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// Public; works without a session.
+export const fetchShare = (id: string) =>
+  request<SharedAnalysis>(`/api/shares/${encodeURIComponent(id)}`);
+
+// Secret config fields left blank keep their stored value.
+export type ChannelFields = Pick<NotificationChannel, 'name' | 'type' | 'enabled' | 'config' | 'filters'>;
+
+export const listChannels = () => request<NotificationChannel[]>('/api/channels');
+
+export const createChannel = (fields: ChannelFields) =>
+  request<NotificationChannel>('/api/channels', {
+    method: 'POST',
+    body: JSON.stringify(fields),
+  });
+
+export const updateChannel = (id: string, fields: Partial<ChannelFields>) =>
+  request<NotificationChannel>(`/api/channels/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(fields),
+  });
+
+export const deleteChannel = (id: string) =>
+  request<void>(`/api/channels/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const testChannel = (id: string) =>
+  request<Delivery>(`/api/channels/${encodeURIComponent(id)}/test`, { method: 'POST' });
+
+export const listDeliveries = (channelId?: string) =>
+  request<Delivery[]>(`/api/channels/deliveries${channelId ? `?channelId=${encodeURIComponent(channelId)}` : ''}`);
+
+export const listAlerts = () => request<PriceAlert[]>('/api/alerts');
+
+export const armAlert = (analysis: AnalysisResult) =>
+  request<PriceAlert>('/api/alerts', {
+    method: 'POST',
+    body: JSON.stringify({ analysisId: analysis.id, signal: analysis.signal }),
+  });
+
+export const disarmAlert = (id: string) =>
+  request<void>(`/api/alerts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const fetchPriceFeed = () => request<PriceFeedStatus>('/api/alerts/feed');
+
+// Oldest first; `unseen` limits it to events no browser has handled yet.
+export const listAlertEvents = (unseen = false) =>
+  request<AlertEvent[]>(`/api/alerts/events${unseen ? '?unseen=1' : ''}`);
+
+export const markAlertEventsSeen = (ids: string[]) =>
+  request<void>('/api/alerts/events/seen', {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
+  });
+
+// Reads /api/alerts/stream, calling `onEvent` for each alert event, until
+// the server ends it or `signal` aborts. `onOpen` runs once the server is
+// delivering events. See services/alertService for reconnecting.
+export async function watchAlerts(
+  onEvent: (event: AlertEvent) => void,
+  signal: AbortSignal,
+  onOpen?: () => void
+): Promise<void> {
+  const token = getSessionToken();
+  const response = await fetch('/api/alerts/stream', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    const message = body?.error || `Request failed with status ${response.status}.`;
+    if (response.status === 401 && token) onUnauthorized(message);
+    throw new Error(message);
+  }
+  onOpen?.();
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const message = JSON.parse(line);
+      if (message.type === 'event') onEvent(message.event as AlertEvent);
+    }
+  }
+}
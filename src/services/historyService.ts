@@ -0,0 +1,214 @@
+import { dateBounds, HISTORY_PAGE_SIZE, HistoryQuery, matchesQuery, searchTerms } from '../lib/historyQuery';
+import { normalizeSymbol } from '../lib/instruments';
+import { AnalysisResult } from '../types';
+import { deleteChartImages } from './imageStore';
+import { supabase, isSupabaseConfigured } from './supabase';
+
+const LOCAL_KEY = 'vertex_history';
+// Rows deleted, and image folders removed, per request when clearing history.
+const CLEAR_BATCH_SIZE = 100;
+
+export interface HistoryPage {
+  entries: AnalysisResult[];
+  hasMore: boolean;
+}
+
+// Entries saved before results carried an id are keyed by their row id
+// (Supabase) or their timestamp (localStorage). In Supabase the owner column
+// is authoritative.
+const normalize = (entry: AnalysisResult, row?: { id: string, owner: string | null }): AnalysisResult => ({
+  ...entry,
+  id: entry.id ?? row?.id ?? entry.timestamp,
+  owner: row ? row.owner ?? undefined : entry.owner,
+});
+
+const readLocal = (): AnalysisResult[] => {
+  const saved = localStorage.getItem(LOCAL_KEY);
+  if (!saved) return [];
+  try {
+    return (JSON.parse(saved) as AnalysisResult[]).map(entry => normalize(entry));
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+};
+
+const writeLocal = (entries: AnalysisResult[]) => {
+  try {
+    localStorage.setItem(LOCAL_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error(e);
+    throw new Error('Local history is full. Delete old entries or connect Supabase.');
+  }
+};
+
+// `%` and `_` are wildcards in ilike patterns.
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, match => `\\${match}`);
+
+// One page of history, newest first, from Supabase (with localStorage
+// fallback). `offset` is the number of matching entries already loaded.
+export const loadHistory = async (query: HistoryQuery = {}, offset = 0): Promise<HistoryPage> => {
+  if (!isSupabaseConfigured) {
+    const matching = readLocal().filter(entry => matchesQuery(entry, query));
+    return {
+      entries: matching.slice(offset, offset + HISTORY_PAGE_SIZE),
+      hasMore: matching.length > offset + HISTORY_PAGE_SIZE,
+    };
+  }
+
+  // The filter columns are generated from `data`; see the history_search migration.
+  let request = supabase
+    .from('history')
+    .select('id, owner, data')
+    .order('timestamp', { ascending: false })
+    // One row more than a page, to tell whether there is another.
+    .range(offset, offset + HISTORY_PAGE_SIZE);
+  for (const term of searchTerms(query.search)) request = request.ilike('search_text', `%${escapeLike(term)}%`);
+  if (query.pair) request = request.eq('pair', normalizeSymbol(query.pair));
+  if (query.action) request = request.eq('action', query.action);
+  if (query.minConfidence !== undefined) request = request.gte('confidence', query.minConfidence);
+  if (query.maxConfidence !== undefined) request = request.lte('confidence', query.maxConfidence);
+  if (query.outcome) request = request.eq('outcome', query.outcome);
+  if (query.owner) request = request.eq('owner', query.owner);
+  const { start, end } = dateBounds(query);
+  if (start !== undefined) request = request.gte('timestamp', new Date(start).toISOString());
+  if (end !== undefined) request = request.lt('timestamp', new Date(end).toISOString());
+
+  const { data, error } = await request;
+  if (error) throw new Error('Failed to load history from database.');
+  return {
+    entries: data.slice(0, HISTORY_PAGE_SIZE).map(h => normalize(h.data as AnalysisResult, h)),
+    hasMore: data.length > HISTORY_PAGE_SIZE,
+  };
+};
+
+// One entry by id, e.g. for a /history/:id link; null if it doesn't exist or
+// belongs to someone else.
+export const getEntry = async (id: string): Promise<AnalysisResult | null> => {
+  if (!isSupabaseConfigured) return readLocal().find(e => e.id === id) ?? null;
+  // Row ids are uuids; anything else would be a query error rather than a miss.
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) return null;
+
+  const { data, error } = await supabase.from('history').select('id, owner, data').eq('id', id).maybeSingle();
+  if (error) throw new Error('Failed to load analysis from database.');
+  return data ? normalize(data.data as AnalysisResult, data) : null;
+};
+
+// Every matching entry, for exports; pages through loadHistory.
+export const loadAllHistory = async (query: HistoryQuery = {}) => {
+  const entries: AnalysisResult[] = [];
+  for (let hasMore = true; hasMore;) {
+    const page = await loadHistory(query, entries.length);
+    entries.push(...page.entries);
+    hasMore = page.hasMore;
+  }
+  return entries;
+};
+
+export const saveEntry = async (entry: AnalysisResult) => {
+  if (!isSupabaseConfigured) {
+    writeLocal([entry, ...readLocal()]);
+    return;
+  }
+
+  const { error } = await supabase.from('history').insert([{
+    id: entry.id,
+    // Row-level security only accepts the owner in the session token.
+    owner: entry.owner,
+    data: entry,
+    timestamp: entry.timestamp
+  }]);
+  if (error) throw new Error('Failed to save analysis to database.');
+};
+
+// Adds imported entries, which may be older than what is already there.
+export const importEntries = async (entries: AnalysisResult[]) => {
+  if (entries.length === 0) return;
+  if (!isSupabaseConfigured) {
+    writeLocal([...entries, ...readLocal()].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+    return;
+  }
+
+  const { error } = await supabase.from('history').insert(entries.map(entry => ({
+    id: entry.id,
+    owner: entry.owner,
+    data: entry,
+    timestamp: entry.timestamp
+  })));
+  if (error) throw new Error('Failed to import history into database.');
+};
+
+export const updateEntry = async (entry: AnalysisResult) => {
+  if (!isSupabaseConfigured) {
+    writeLocal(readLocal().map(e => (e.id === entry.id ? entry : e)));
+    return;
+  }
+
+  const { error } = await supabase.from('history').update({ data: entry }).eq('id', entry.id);
+  if (error) throw new Error('Failed to update history entry in database.');
+};
+
+// Images go first: in Supabase, access to them is checked against the entry.
+export const deleteEntry = async (id: string) => {
+  await deleteChartImages([id]);
+  if (!isSupabaseConfigured) {
+    writeLocal(readLocal().filter(e => e.id !== id));
+    return;
+  }
+
+  const { error } = await supabase.from('history').delete().eq('id', id);
+  if (error) throw new Error('Failed to delete history entry from database.');
+};
+
+// The plain SHA-256 that codes were keyed by before ids were peppered, as
+// hashCode in server/services/accessCode computes it.
+const legacyCodeId = async (code: string) => {
+  const normalized = new TextEncoder().encode(code.toUpperCase().replace(/[^A-Z0-9]/g, ''));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', normalized));
+  return [...digest].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Local entries saved before codes were hashed are owned by the code itself,
+// and those saved before ids were peppered by its plain SHA-256. Moves them
+// to the code's id once the user has logged in with it again. Supabase rows
+// are rekeyed by the hashed_access_codes and peppered_code_ids migrations.
+export const claimLocalEntries = async (code: string, to: string) => {
+  if (isSupabaseConfigured) return;
+  const from = new Set([code.trim().toUpperCase(), await legacyCodeId(code)]);
+  from.delete(to);
+  const entries = readLocal();
+  if (!entries.some(e => e.owner && from.has(e.owner))) return;
+  writeLocal(entries.map(e => (e.owner && from.has(e.owner) ? { ...e, owner: to } : e)));
+};
+
+// Deletes every entry saved by `owner`; other owners' history is untouched.
+export const clearHistory = async (owner: string) => {
+  if (!isSupabaseConfigured) {
+    const entries = readLocal();
+    await deleteChartImages(entries.filter(e => e.owner === owner).map(e => e.id));
+    writeLocal(entries.filter(e => e.owner !== owner));
+    return;
+  }
+
+  // Collects the ids first so exactly those entries' images are removed; an
+  // entry saved meanwhile, e.g. on another device, keeps its row and images.
+  const ids: string[] = [];
+  for (let hasMore = true; hasMore;) {
+    const { data, error } = await supabase
+      .from('history')
+      .select('id')
+      .eq('owner', owner)
+      .order('id')
+      .range(ids.length, ids.length + CLEAR_BATCH_SIZE - 1);
+    if (error) throw new Error('Failed to clear history from database.');
+    ids.push(...data.map(row => row.id as string));
+    hasMore = data.length === CLEAR_BATCH_SIZE;
+  }
+
+  for (let i = 0; i < ids.length; i += CLEAR_BATCH_SIZE) {
+    const batch = ids.slice(i, i + CLEAR_BATCH_SIZE);
+    await deleteChartImages(batch);
+    const { error } = await supabase.from('history').delete().in('id', batch);
+    if (error) throw new Error('Failed to clear history from database.');
+  }
+};
@@ -0,0 +1,106 @@
+import { readAsDataUrl } from '../lib/image';
+import { ChartInput } from '../types';
+import { supabase, isSupabaseConfigured } from './supabase';
+
+// Full-size chart images live outside the history rows: in the `charts`
+// Supabase Storage bucket, or in IndexedDB when Supabase isn't configured.
+// Paths are `<entry id>/<index>-<timeframe>.jpg` in both, and
+// `<entry id>/annotated-<time>.jpg` for the saved overlay.
+const BUCKET = 'charts';
+const DB_NAME = 'vertex_charts';
+const STORE = 'images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error('Could not open local image storage.'));
+  });
+  return dbPromise;
+};
+
+const runLocal = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error('Local image storage failed.'));
+  });
+};
+
+const toBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const pathFor = (entryId: string, index: number, timeframe: string) =>
+  `${entryId}/${index}-${timeframe.replace(/[^A-Z0-9]/gi, '') || 'AUTO'}.jpg`;
+
+const putImage = async (path: string, image: string) => {
+  if (!isSupabaseConfigured) {
+    await runLocal('readwrite', store => store.put(image, path));
+    return;
+  }
+
+  const { error } = await supabase.storage.from(BUCKET).upload(path, await toBlob(image), {
+    contentType: 'image/jpeg',
+  });
+  if (error) throw new Error('Failed to upload chart image.');
+};
+
+// Stores each chart and returns their paths in the same order.
+export const saveChartImages = async (entryId: string, charts: ChartInput[]): Promise<string[]> => {
+  const paths = charts.map((chart, i) => pathFor(entryId, i, chart.timeframe));
+  await Promise.all(charts.map((chart, i) => putImage(paths[i], chart.image)));
+  return paths;
+};
+
+// Each save gets a new path, so a cached copy of the old overlay is never
+// served in its place; the caller deletes the old one once the entry points
+// at the new one.
+export const saveAnnotatedImage = async (entryId: string, image: string): Promise<string> => {
+  const path = `${entryId}/annotated-${Date.now()}.jpg`;
+  await putImage(path, image);
+  return path;
+};
+
+// Returned as a data URL so it can be drawn on a canvas and exported
+// without cross-origin restrictions.
+export const loadChartImage = async (path: string): Promise<string> => {
+  if (!isSupabaseConfigured) {
+    const image = await runLocal<string | undefined>('readonly', store => store.get(path));
+    if (!image) throw new Error('This chart image is no longer stored.');
+    return image;
+  }
+
+  const { data, error } = await supabase.storage.from(BUCKET).download(path);
+  if (error) throw new Error('Failed to load chart image.');
+  return readAsDataUrl(data);
+};
+
+export const deleteChartImage = async (path: string) => {
+  if (!isSupabaseConfigured) {
+    await runLocal('readwrite', store => store.delete(path));
+    return;
+  }
+
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) throw new Error('Failed to delete chart image.');
+};
+
+export const deleteChartImages = async (entryIds: string[]) => {
+  if (entryIds.length === 0) return;
+
+  if (!isSupabaseConfigured) {
+    await Promise.all(entryIds.map(id =>
+      runLocal('readwrite', store => store.delete(IDBKeyRange.bound(`${id}/`, `${id}/\uffff`)))
+    ));
+    return;
+  }
+
+  const listed = await Promise.all(entryIds.map(id => supabase.storage.from(BUCKET).list(id)));
+  const paths = listed.flatMap(({ data }, i) => (data ?? []).map(file => `${entryIds[i]}/${file.name}`));
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+  if (error) throw new Error('Failed to delete chart images.');
+};
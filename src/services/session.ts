@@ -0,0 +1,22 @@
+const SESSION_KEY = 'vertex_session';
+
+// The signed session token issued by the server. The role it carries is only
+// trusted after the server has verified it (see fetchSession in ./api).
+export const getSessionToken = () => sessionStorage.getItem(SESSION_KEY);
+
+export const setSessionToken = (token: string) => sessionStorage.setItem(SESSION_KEY, token);
+
+export const clearSessionToken = () => sessionStorage.removeItem(SESSION_KEY);
+
+const DEVICE_KEY = 'vertex_device';
+
+// Identifies this browser to the server so access codes can limit how many
+// devices use them at once. Kept across sessions, unlike the token.
+export const getDeviceId = () => {
+  let device = localStorage.getItem(DEVICE_KEY);
+  if (!device) {
+    device = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, device);
+  }
+  return device;
+};
@@ -1,13 +1,16 @@
 /// <reference types="vite/client" />
 import { createClient } from '@supabase/supabase-js';
+import { getSessionToken } from './session';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-// Create the client with environment variables
+// Create the client with environment variables. Requests carry the session
+// token so row-level security can tell who is asking.
 export const supabase = createClient(
   supabaseUrl || 'https://placeholder.supabase.co',
-  supabaseAnonKey || 'placeholder-key'
+  supabaseAnonKey || 'placeholder-key',
+  { accessToken: async () => getSessionToken() }
 );
 
 export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
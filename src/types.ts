@@ -1,21 +1,350 @@
 export interface TradingSignal {
   pair: string;
+  // Chart timeframe as reported by the model, e.g. "H1"; absent on older results.
+  timeframe?: string;
   action: 'BUY' | 'SELL' | 'NEUTRAL';
   entry: string;
   tp: string;
   sl: string;
   confidence: number;
   reasoning: string;
+  // Parsed from entry/tp/sl; absent on results saved before it existed.
+  levels?: SignalLevels;
+}
+
+export interface SignalLevels {
+  entry: number | null;
+  tp: number[];
+  sl: number | null;
+  pipSize: number;
+  riskPips: number | null;
+  // One entry per TP level, in the same order as `tp`.
+  rewardPips: number[];
+  riskReward: number[];
+  warnings: string[];
+}
+
+export interface PositionSizeInput {
+  balance: number;
+  accountCurrency: string;
+  riskPercent: number;
+  // Account currency per one unit of the quote currency, when neither side
+  // of the pair is the account currency.
+  conversionRate?: number;
+}
+
+export interface PositionSize extends PositionSizeInput {
+  lots: number;
+  riskAmount: number;
+  pipValuePerLot: number;
+  // Money made at each TP level, in the same order as `levels.tp`.
+  targets: number[];
+}
+
+export type OutcomeStatus = 'pending' | 'triggered' | 'tp_hit' | 'sl_hit' | 'cancelled' | 'closed';
+
+// Journal record of what actually happened to a signal.
+export interface TradeOutcome {
+  status: OutcomeStatus;
+  exitPrice?: number;
+  // ISO timestamp of the exit.
+  exitTime?: string;
+  notes?: string;
+  // Who recorded it; entries without a source were edited by hand.
+  source?: 'manual' | 'backtest' | 'alert';
+  updatedAt: string;
+}
+
+export type Bias = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+// One chart screenshot sent for analysis, labelled with its timeframe.
+export interface ChartInput {
+  // "AUTO" lets the model read the timeframe off the chart.
+  timeframe: string;
+  image: string;
+}
+
+export interface TimeframeAnalysis {
+  timeframe: string;
+  bias: Bias;
+  summary: string;
+}
+
+export interface ChartThumbnail {
+  timeframe: string;
+  thumbnail: string;
+  // Full-size image in Supabase Storage or IndexedDB; see services/imageStore.
+  imagePath?: string;
+}
+
+export type AnnotationLevelKind = 'entry' | 'tp' | 'sl' | 'support' | 'resistance';
+export type AnnotationZoneKind = 'order_block' | 'fvg';
+
+// Positions are fractions of the chart image (0 = top/left, 1 = bottom/right)
+// so they survive resizing.
+export interface AnnotationLevel {
+  kind: AnnotationLevelKind;
+  price: number | null;
+  y: number;
+  // Set once the user has dragged the line away from the model's position.
+  adjusted?: boolean;
+}
+
+export interface AnnotationZone {
+  kind: AnnotationZoneKind;
+  label?: string;
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+// A price read off the chart's y-axis at a given height.
+export interface AxisPoint {
+  y: number;
+  price: number;
+}
+
+// Two axis readings that map heights on the screenshot to prices.
+export interface PriceCalibration {
+  points: [AxisPoint, AxisPoint];
+  // 'model' when taken from the axis labels the model read.
+  source: 'manual' | 'model';
+}
+
+export interface ChartAnnotations {
+  // Timeframe of the chart the positions refer to; the entry chart.
+  chart?: string;
+  levels: AnnotationLevel[];
+  zones: AnnotationZone[];
+  // Two y-axis labels as read by the model, if it could.
+  axis?: AxisPoint[];
+  calibration?: PriceCalibration;
 }
 
 export interface AnalysisResult {
+  id: string;
   signal: TradingSignal;
-  technical: {
-    snr: string;
-    ict: string;
-    std: string;
-    alchemist: string;
-  };
+  // Keyed by the template's method keys; the built-in template uses snr,
+  // ict, std and alchemist.
+  technical: Record<string, string>;
   fundamental: string;
+  // Per-timeframe breakdown; only present for multi-chart analyses.
+  timeframes?: TimeframeAnalysis[];
+  charts?: ChartThumbnail[];
+  // Where the model placed its levels on the chart; absent if it gave none.
+  annotations?: ChartAnnotations;
+  // The chart with annotations drawn on, saved from the dashboard. Entries
+  // keep the path of a JPEG in image storage (see imageStore); older ones,
+  // shared snapshots and exports carry the image inline as a data URL.
+  annotatedImage?: string;
+  annotatedImagePath?: string;
+  // Which provider and model produced it; absent on older results.
+  model?: { provider: string; name: string };
+  // Which prompt template version produced it; absent on older results,
+  // which all came from the built-in template.
+  template?: TemplateRef;
+  // Session owner that saved it (see SessionInfo.owner); absent on entries
+  // saved before history was per user.
+  owner?: string;
   timestamp: string;
+  position?: PositionSize;
+  // Absent until the entry is first edited in the journal; treated as pending.
+  outcome?: TradeOutcome;
+}
+
+// One analysis method in a prompt template. Its key becomes a field under
+// `technical` and its title the heading of that section.
+export interface PromptMethod {
+  key: string;
+  title: string;
+  instruction: string;
+}
+
+export interface PromptTemplate {
+  // Stable across versions; every save adds a new version.
+  id: string;
+  version: number;
+  name: string;
+  // Free text with {{variable}} placeholders. {{methods}} expands to the
+  // numbered method list; the rest come from `variables`.
+  body: string;
+  methods: PromptMethod[];
+  variables: Record<string, string>;
+  isDefault: boolean;
+  // Deleted in the admin panel. Archived templates can't be picked, but their
+  // versions are kept so history can still show the prompt behind an analysis.
+  archived?: boolean;
+  createdAt: number;
+}
+
+export interface TemplateRef {
+  id: string;
+  version: number;
+  name: string;
+  methods: { key: string; title: string }[];
+}
+
+export type SessionRole = 'user' | 'admin';
+
+export interface SessionInfo {
+  role: SessionRole;
+  // Owner of the history this session saves and sees: the access code's id,
+  // or 'admin'.
+  owner: string;
+  expiresAt: number;
+}
+
+// Codes are stored hashed, so after issuing only the id and a masked hint
+// are known.
+export interface AccessCode {
+  // SHA-256 of the normalized code.
+  id: string;
+  // The code with all but its last four characters masked.
+  hint: string;
+  expiry: number;
+  // Days of access issued so far, including extensions.
+  duration: number;
+  createdAt: number;
+  // Customer or note the code was issued to.
+  label: string;
+  // Analyses the code may run in total; null for unlimited.
+  maxAnalyses: number | null;
+  // Devices that may hold a session at once; null for unlimited.
+  maxDevices: number | null;
+  analysesUsed: number;
+  // Suspended codes can't log in and end any open session.
+  suspended: boolean;
+  // Devices holding an unexpired session; only filled in for admins.
+  activeDevices?: number;
+}
+
+// A newly issued code; the only time the code itself is returned.
+export interface IssuedCode extends AccessCode {
+  code: string;
+}
+
+// Admin changes to an existing code. `extendDays` pushes the expiry out from
+// the later of now and the current expiry.
+export interface AccessCodeUpdate {
+  label?: string;
+  maxAnalyses?: number | null;
+  maxDevices?: number | null;
+  suspended?: boolean;
+  extendDays?: number;
+  expiry?: number;
+  // Frees every device slot, e.g. after the customer changed computers.
+  releaseDevices?: boolean;
+}
+
+export type CodeEventType = 'login' | 'login_denied' | 'logout' | 'analysis';
+
+// A public, read-only link to a snapshot of one analysis, as its owner sees it.
+export interface ShareLink {
+  // The unguessable token in /share/:id.
+  id: string;
+  analysisId: string;
+  pair: string;
+  action: TradingSignal['action'];
+  createdAt: number;
+  // Null for links that never expire.
+  expiresAt: number | null;
+  views: number;
+}
+
+// What anyone with the link gets.
+export interface SharedAnalysis {
+  analysis: AnalysisResult;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+// One line of a code's usage log.
+export interface CodeEvent {
+  codeId: string;
+  type: CodeEventType;
+  at: number;
+  // Browser that made the request; see services/session.getDeviceId.
+  device: string | null;
+  // Why a login was denied, or the pair an analysis was for.
+  detail: string | null;
+}
+
+export type ChannelType = 'telegram' | 'discord' | 'webhook';
+
+// Which signals a channel receives. Empty lists and a null confidence don't
+// filter anything.
+export interface ChannelFilters {
+  actions: TradingSignal['action'][];
+  minConfidence: number | null;
+  // Matched after normalizeSymbol, so "eur/usd" matches EURUSD.
+  pairs: string[];
+}
+
+// An outbound destination for new signals. `config` holds the fields listed
+// for its type in lib/channels; secret fields come back masked.
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  enabled: boolean;
+  config: Record<string, string>;
+  filters: ChannelFilters;
+  createdAt: number;
+}
+
+// One line of the delivery log: the outcome of sending one signal to one
+// channel, after any retries.
+export interface Delivery {
+  id: string;
+  channelId: string;
+  // Null for test messages.
+  analysisId: string | null;
+  pair: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  // Why the last attempt failed.
+  error: string | null;
+  at: number;
+}
+
+// The part of a trade's life a price alert follows; see lib/priceAlerts.
+export type AlertStatus = Extract<OutcomeStatus, 'pending' | 'triggered' | 'tp_hit' | 'sl_hit' | 'cancelled'>;
+
+// Watches one analysis's entry, TP1 and SL on the server's price feed.
+export interface PriceAlert {
+  id: string;
+  analysisId: string;
+  pair: string;
+  action: Exclude<TradingSignal['action'], 'NEUTRAL'>;
+  entry: number;
+  tp: number;
+  sl: number;
+  status: AlertStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AlertLevel = 'entry' | 'tp' | 'sl';
+
+// A level being crossed, and the status it moved the alert to.
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  analysisId: string;
+  pair: string;
+  level: AlertLevel;
+  status: AlertStatus;
+  // The level's price, and the tick that crossed it.
+  levelPrice: number;
+  price: number;
+  at: number;
+  // Set once a browser has shown it and updated the journal.
+  seen: boolean;
+}
+
+// What the server knows about its price feed.
+export interface PriceFeedStatus {
+  // E.g. "CSV replay of data/ticks.csv"; null when no feed is configured.
+  source: string | null;
+  lastTickAt: number | null;
 }
@@ -0,0 +1,37 @@
+-- Tables used by VertexChart. Safe to run against an existing project.
+create table if not exists access_codes (
+  code text primary key,
+  duration double precision not null,
+  created_at bigint not null,
+  expiry bigint not null
+);
+
+create table if not exists history (
+  id uuid primary key default gen_random_uuid(),
+  data jsonb not null,
+  timestamp timestamptz not null default now()
+);
+
+-- Access codes are only read and written by the server with the service role
+-- key, which bypasses RLS. With no policies, the anon key can see nothing.
+alter table access_codes enable row level security;
+
+-- History is read from the browser with the session token issued by
+-- /api/auth/*. The server signs it with SESSION_SECRET, which must be the
+-- project's JWT secret; PostgREST rejects it once `exp` has passed.
+alter table history enable row level security;
+
+drop policy if exists "sessions can read history" on history;
+create policy "sessions can read history" on history
+  for select to authenticated
+  using ((auth.jwt() ->> 'app_role') in ('user', 'admin'));
+
+drop policy if exists "sessions can insert history" on history;
+create policy "sessions can insert history" on history
+  for insert to authenticated
+  with check ((auth.jwt() ->> 'app_role') in ('user', 'admin'));
+
+drop policy if exists "sessions can delete history" on history;
+create policy "sessions can delete history" on history
+  for delete to authenticated
+  using ((auth.jwt() ->> 'app_role') in ('user', 'admin'));
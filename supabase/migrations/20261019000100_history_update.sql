@@ -0,0 +1,6 @@
+-- History entries are updated in place once a position size is saved.
+drop policy if exists "sessions can update history" on history;
+create policy "sessions can update history" on history
+  for update to authenticated
+  using ((auth.jwt() ->> 'app_role') in ('user', 'admin'))
+  with check ((auth.jwt() ->> 'app_role') in ('user', 'admin'));
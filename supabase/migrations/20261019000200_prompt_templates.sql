@@ -0,0 +1,15 @@
+-- Admin-managed prompt templates. Each save is a new (id, version) row.
+create table if not exists prompt_templates (
+  id text not null,
+  version integer not null,
+  name text not null,
+  body text not null,
+  methods jsonb not null,
+  variables jsonb not null default '{}'::jsonb,
+  is_default boolean not null default false,
+  created_at bigint not null,
+  primary key (id, version)
+);
+
+-- Only the server touches templates, with the service role key.
+alter table prompt_templates enable row level security;
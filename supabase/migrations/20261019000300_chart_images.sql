@@ -0,0 +1,26 @@
+-- Full-size chart images referenced from history entries (charts[].imagePath).
+insert into storage.buckets (id, name, public)
+values ('charts', 'charts', false)
+on conflict (id) do nothing;
+
+-- Same rule as the history table: any valid session may read and write.
+drop policy if exists "sessions can read charts" on storage.objects;
+create policy "sessions can read charts" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'charts' and (auth.jwt() ->> 'app_role') in ('user', 'admin'));
+
+drop policy if exists "sessions can upload charts" on storage.objects;
+create policy "sessions can upload charts" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'charts' and (auth.jwt() ->> 'app_role') in ('user', 'admin'));
+
+-- Upserts overwrite an existing object, which needs update as well.
+drop policy if exists "sessions can replace charts" on storage.objects;
+create policy "sessions can replace charts" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'charts' and (auth.jwt() ->> 'app_role') in ('user', 'admin'));
+
+drop policy if exists "sessions can delete charts" on storage.objects;
+create policy "sessions can delete charts" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'charts' and (auth.jwt() ->> 'app_role') in ('user', 'admin'));
@@ -0,0 +1,46 @@
+-- The text searchableText() in src/lib/historyQuery.ts builds: the
+-- reasoning, each technical section and the fundamental text, joined with
+-- spaces. lower() follows the database collation and can differ from
+-- toLowerCase() on some non-ASCII letters; searches use ilike, which ignores
+-- case on both sides, so lower() is mainly there for the trigram index.
+create or replace function history_search_text(data jsonb) returns text
+  language sql
+  immutable
+  as $$
+    select lower(concat_ws(' ',
+      coalesce(data->'signal'->>'reasoning', ''),
+      case when jsonb_typeof(data->'technical') = 'object'
+        then (select coalesce(string_agg(value, ' '), '') from jsonb_each_text(data->'technical'))
+        else ''
+      end,
+      coalesce(data->>'fundamental', '')
+    ))
+  $$;
+
+-- Databases that ran an earlier version of this migration have a
+-- search_text column that JSON-encoded the technical text; it is rebuilt.
+alter table history drop column if exists search_text;
+
+-- Filter and search columns for the paginated History tab, generated from
+-- the stored result so existing rows are covered without a backfill.
+alter table history
+  add column if not exists pair text generated always as (
+    regexp_replace(regexp_replace(upper(data->'signal'->>'pair'), '[\s(.].*$', ''), '[^A-Z0-9]', '', 'g')
+  ) stored,
+  add column if not exists action text generated always as (data->'signal'->>'action') stored,
+  -- Confidence is a number in results, but imported or hand-edited rows may
+  -- hold anything; those get no confidence instead of failing the migration.
+  add column if not exists confidence double precision generated always as (
+    case when data->'signal'->>'confidence' ~ '^-?[0-9]+(\.[0-9]+)?$'
+      then (data->'signal'->>'confidence')::double precision
+    end
+  ) stored,
+  add column if not exists outcome text generated always as (coalesce(data->'outcome'->>'status', 'pending')) stored,
+  add column if not exists search_text text generated always as (history_search_text(data)) stored;
+
+create index if not exists history_timestamp_idx on history (timestamp desc);
+create index if not exists history_pair_idx on history (pair, timestamp desc);
+
+-- Substring search with ilike uses trigram indexes.
+create extension if not exists pg_trgm;
+create index if not exists history_search_text_idx on history using gin (search_text gin_trgm_ops);
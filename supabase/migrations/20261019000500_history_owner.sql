@@ -0,0 +1,62 @@
+-- Per-user history. Each row is owned by the `sub` of the session token that
+-- saved it: the access code for users, 'admin' for admins. Users see and
+-- change only their own rows; admins see everything.
+alter table history add column if not exists owner text default (auth.jwt() ->> 'sub');
+create index if not exists history_owner_idx on history (owner, timestamp desc);
+
+-- Rows saved before this migration have no owner, so only admins see them.
+
+drop policy if exists "sessions can read history" on history;
+create policy "sessions can read history" on history
+  for select to authenticated
+  using (
+    (auth.jwt() ->> 'app_role') = 'admin'
+    or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+  );
+
+drop policy if exists "sessions can insert history" on history;
+create policy "sessions can insert history" on history
+  for insert to authenticated
+  with check ((auth.jwt() ->> 'app_role') in ('user', 'admin') and owner = auth.jwt() ->> 'sub');
+
+drop policy if exists "sessions can update history" on history;
+create policy "sessions can update history" on history
+  for update to authenticated
+  using (
+    (auth.jwt() ->> 'app_role') = 'admin'
+    or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+  )
+  with check (
+    (auth.jwt() ->> 'app_role') = 'admin'
+    or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+  );
+
+drop policy if exists "sessions can delete history" on history;
+create policy "sessions can delete history" on history
+  for delete to authenticated
+  using (
+    (auth.jwt() ->> 'app_role') = 'admin'
+    or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+  );
+
+-- Chart images are stored under `<entry id>/`, so they follow the entry:
+-- whoever can see the history row can read and delete its images. Uploads
+-- happen before the entry is saved and are allowed for any session; images
+-- are never overwritten, so there is no update policy.
+drop policy if exists "sessions can read charts" on storage.objects;
+create policy "sessions can read charts" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'charts'
+    and exists (select 1 from history h where h.id::text = (storage.foldername(name))[1])
+  );
+
+drop policy if exists "sessions can replace charts" on storage.objects;
+
+drop policy if exists "sessions can delete charts" on storage.objects;
+create policy "sessions can delete charts" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'charts'
+    and exists (select 1 from history h where h.id::text = (storage.foldername(name))[1])
+  );
@@ -0,0 +1,28 @@
+-- Access code labels, limits, suspension, device slots and usage log.
+alter table access_codes
+  add column if not exists label text not null default '',
+  add column if not exists max_analyses integer,
+  add column if not exists max_devices integer,
+  add column if not exists analyses_used integer not null default 0,
+  add column if not exists suspended boolean not null default false;
+
+create table if not exists code_events (
+  id bigserial primary key,
+  code text not null,
+  type text not null,
+  at bigint not null,
+  device text,
+  detail text
+);
+create index if not exists code_events_code_at_idx on code_events (code, at desc);
+
+create table if not exists code_devices (
+  code text not null,
+  device text not null,
+  expires_at bigint not null,
+  primary key (code, device)
+);
+
+-- Like access_codes, only the server touches these, with the service role key.
+alter table code_events enable row level security;
+alter table code_devices enable row level security;
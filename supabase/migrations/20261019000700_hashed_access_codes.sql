@@ -0,0 +1,43 @@
+-- Access codes are stored as the sha256 of the normalized code (uppercase,
+-- letters and digits only) plus a masked hint; the code itself is dropped.
+-- Everything that referred to a code by value now refers to its hash.
+create or replace function pg_temp.code_hash(code text) returns text
+  language sql immutable
+  as $$ select encode(sha256(convert_to(regexp_replace(upper(code), '[^A-Z0-9]', '', 'g'), 'UTF8')), 'hex') $$;
+
+alter table access_codes
+  add column if not exists id text,
+  add column if not exists hint text;
+
+update access_codes
+  set id = pg_temp.code_hash(code),
+      hint = repeat('•', greatest(length(code) - 4, 0)) || right(code, 4)
+  where id is null;
+
+-- Existing history was owned by the code itself.
+update history h
+  set owner = a.id
+  from access_codes a
+  where h.owner = a.code;
+
+alter table code_events rename column code to code_id;
+update code_events set code_id = pg_temp.code_hash(code_id);
+drop index if exists code_events_code_at_idx;
+create index if not exists code_events_code_id_at_idx on code_events (code_id, at desc);
+
+-- Open device slots are simply released; those users log in again.
+drop table if exists code_devices;
+create table code_devices (
+  code_id text not null,
+  device text not null,
+  expires_at bigint not null,
+  primary key (code_id, device)
+);
+alter table code_devices enable row level security;
+
+alter table access_codes drop constraint if exists access_codes_pkey;
+alter table access_codes
+  alter column id set not null,
+  alter column hint set not null,
+  add primary key (id),
+  drop column code;
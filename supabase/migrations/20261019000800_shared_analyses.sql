@@ -0,0 +1,24 @@
+-- Public read-only share links. The server reads and writes these with the
+-- service role key and serves them at /api/shares/:id; clients never query
+-- the table directly.
+create table if not exists shared_analyses (
+  id text primary key,
+  owner text not null,
+  analysis_id text not null,
+  pair text not null,
+  action text not null,
+  analysis jsonb not null,
+  created_at bigint not null,
+  expires_at bigint,
+  views integer not null default 0
+);
+create index if not exists shared_analyses_owner_idx on shared_analyses (owner, created_at desc);
+
+alter table shared_analyses enable row level security;
+
+-- Counts a view in one statement so simultaneous views aren't lost.
+create or replace function record_share_view(share_id text) returns void
+  language sql
+  as $$ update shared_analyses set views = views + 1 where id = share_id $$;
+
+revoke execute on function record_share_view(text) from public, anon, authenticated;
@@ -0,0 +1,27 @@
+-- Outbound notification channels and their delivery log. Configs hold bot
+-- tokens and signing secrets, so only the server reads these, with the
+-- service role key.
+create table if not exists notification_channels (
+  id text primary key,
+  name text not null,
+  type text not null check (type in ('telegram', 'discord', 'webhook')),
+  enabled boolean not null default true,
+  config jsonb not null,
+  filters jsonb not null,
+  created_at bigint not null
+);
+
+create table if not exists notification_deliveries (
+  id text primary key,
+  channel_id text not null,
+  analysis_id text,
+  pair text not null,
+  status text not null check (status in ('sent', 'failed')),
+  attempts integer not null,
+  error text,
+  at bigint not null
+);
+create index if not exists notification_deliveries_channel_at_idx on notification_deliveries (channel_id, at desc);
+
+alter table notification_channels enable row level security;
+alter table notification_deliveries enable row level security;
@@ -0,0 +1,36 @@
+-- Price alerts on a signal's entry, TP and SL, and the crossings the server's
+-- alert engine records for them. Only the server reads these, with the
+-- service role key; browsers apply events to their own history.
+create table if not exists price_alerts (
+  id text primary key,
+  owner text not null,
+  analysis_id text not null,
+  pair text not null,
+  action text not null check (action in ('BUY', 'SELL')),
+  entry double precision not null,
+  tp double precision not null,
+  sl double precision not null,
+  status text not null check (status in ('pending', 'triggered', 'tp_hit', 'sl_hit', 'cancelled')),
+  created_at bigint not null,
+  updated_at bigint not null
+);
+create index if not exists price_alerts_owner_idx on price_alerts (owner, created_at desc);
+create index if not exists price_alerts_status_idx on price_alerts (status);
+
+create table if not exists alert_events (
+  id text primary key,
+  owner text not null,
+  alert_id text not null,
+  analysis_id text not null,
+  pair text not null,
+  level text not null check (level in ('entry', 'tp', 'sl')),
+  status text not null,
+  level_price double precision not null,
+  price double precision not null,
+  at bigint not null,
+  seen boolean not null default false
+);
+create index if not exists alert_events_owner_at_idx on alert_events (owner, at);
+
+alter table price_alerts enable row level security;
+alter table alert_events enable row level security;
@@ -0,0 +1,56 @@
+-- Deleting a template archives it instead: it can no longer be picked, but
+-- its versions stay so history entries keep the exact prompt behind them.
+alter table prompt_templates add column if not exists archived boolean not null default false;
+
+-- Template writes go through these functions. Each takes the same
+-- transaction-scoped advisory lock, so two saves can't pick the same version
+-- number and two "make default" clicks can't leave zero or two defaults.
+
+-- Stores the template's next version, keeping its default flag. Returns no
+-- row if the template is archived.
+create or replace function add_prompt_template_version(
+  template_id text,
+  template_name text,
+  template_body text,
+  template_methods jsonb,
+  template_variables jsonb,
+  template_created_at bigint
+) returns setof prompt_templates
+  language plpgsql
+  as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('prompt_templates'));
+  return query
+    with inserted as (
+      insert into prompt_templates (id, version, name, body, methods, variables, is_default, created_at)
+      select template_id, coalesce(max(version), 0) + 1, template_name, template_body, template_methods,
+        template_variables, coalesce(bool_or(is_default), false), template_created_at
+      from prompt_templates
+      where id = template_id
+      having not coalesce(bool_or(archived), false)
+      returning *
+    )
+    select * from inserted;
+end $$;
+
+create or replace function set_default_prompt_template(template_id text) returns void
+  language plpgsql
+  as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('prompt_templates'));
+  update prompt_templates
+    set is_default = (id = template_id and not archived)
+    where is_default or id = template_id;
+end $$;
+
+create or replace function archive_prompt_template(template_id text) returns void
+  language plpgsql
+  as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('prompt_templates'));
+  update prompt_templates set archived = true, is_default = false where id = template_id;
+end $$;
+
+revoke execute on function add_prompt_template_version(text, text, text, jsonb, jsonb, bigint) from public, anon, authenticated;
+revoke execute on function set_default_prompt_template(text) from public, anon, authenticated;
+revoke execute on function archive_prompt_template(text) from public, anon, authenticated;
@@ -0,0 +1,82 @@
+-- Session tokens stay valid until `exp`, but a code can be deleted,
+-- suspended or shortened before then. The server re-checks the code on every
+-- request; these policies make the browser's direct table and Storage access
+-- do the same, so history stops loading as soon as the code stops working.
+
+-- access_codes has no policies, so the check runs as its owner. Admin
+-- sessions have no code and are only limited by the token.
+create or replace function session_code_active() returns boolean
+  language sql stable security definer
+  set search_path = public
+  as $$
+    select (auth.jwt() ->> 'app_role') = 'admin'
+      or exists (
+        select 1 from access_codes
+        where id = auth.jwt() ->> 'sub'
+          and not suspended
+          and expiry > (extract(epoch from now()) * 1000)::bigint
+      )
+  $$;
+
+revoke execute on function session_code_active() from public, anon;
+grant execute on function session_code_active() to authenticated;
+
+drop policy if exists "sessions can read history" on history;
+create policy "sessions can read history" on history
+  for select to authenticated
+  using (
+    session_code_active()
+    and (
+      (auth.jwt() ->> 'app_role') = 'admin'
+      or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+    )
+  );
+
+drop policy if exists "sessions can insert history" on history;
+create policy "sessions can insert history" on history
+  for insert to authenticated
+  with check (
+    session_code_active()
+    and (auth.jwt() ->> 'app_role') in ('user', 'admin')
+    and owner = auth.jwt() ->> 'sub'
+  );
+
+drop policy if exists "sessions can update history" on history;
+create policy "sessions can update history" on history
+  for update to authenticated
+  using (
+    session_code_active()
+    and (
+      (auth.jwt() ->> 'app_role') = 'admin'
+      or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+    )
+  )
+  with check (
+    session_code_active()
+    and (
+      (auth.jwt() ->> 'app_role') = 'admin'
+      or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+    )
+  );
+
+drop policy if exists "sessions can delete history" on history;
+create policy "sessions can delete history" on history
+  for delete to authenticated
+  using (
+    session_code_active()
+    and (
+      (auth.jwt() ->> 'app_role') = 'admin'
+      or ((auth.jwt() ->> 'app_role') = 'user' and owner = auth.jwt() ->> 'sub')
+    )
+  );
+
+-- Reading and deleting chart images already go through the history policies
+-- above; uploads are the one Storage action that doesn't.
+drop policy if exists "sessions can upload charts" on storage.objects;
+create policy "sessions can upload charts" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'charts'
+    and session_code_active()
+    and (auth.jwt() ->> 'app_role') in ('user', 'admin')
+  );
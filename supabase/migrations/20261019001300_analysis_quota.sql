@@ -0,0 +1,20 @@
+-- An analysis is taken from its code's quota before the model is called, in
+-- one statement, so simultaneous requests can't both use the last one. The
+-- server gives it back if the analysis fails or is cancelled.
+create or replace function reserve_analysis(code_id text) returns boolean
+  language sql
+  as $$
+    with reserved as (
+      update access_codes set analyses_used = analyses_used + 1
+      where id = code_id and (max_analyses is null or analyses_used < max_analyses)
+      returning 1
+    )
+    select exists (select 1 from reserved)
+  $$;
+
+create or replace function release_analysis(code_id text) returns void
+  language sql
+  as $$ update access_codes set analyses_used = greatest(analyses_used - 1, 0) where id = code_id $$;
+
+revoke execute on function reserve_analysis(text) from public, anon, authenticated;
+revoke execute on function release_analysis(text) from public, anon, authenticated;
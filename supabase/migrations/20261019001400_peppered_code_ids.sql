@@ -0,0 +1,38 @@
+-- Access code ids become HMAC-SHA256(ACCESS_CODE_PEPPER, sha256 of the code)
+-- instead of the plain sha256, so a copy of the tables can't be searched for
+-- the codes. The pepper never leaves the server: it calls
+-- pepper_access_code_ids with it on startup, which rekeys the codes stored
+-- before this and everything that refers to them. Open sessions carry the old
+-- id and end; their users log in again.
+create extension if not exists pgcrypto with schema extensions;
+
+-- Rows added from now on are peppered by the server.
+alter table access_codes add column if not exists peppered boolean not null default false;
+alter table access_codes alter column peppered set default true;
+
+create or replace function pepper_access_code_ids(pepper text) returns integer
+  language plpgsql
+  as $$
+declare
+  rekeyed integer;
+begin
+  -- Two servers starting together mustn't pepper the same ids twice.
+  perform pg_advisory_xact_lock(hashtext('access_codes'));
+  create temp table code_rekeys on commit drop as
+    select id as old_id, encode(extensions.hmac(id, pepper, 'sha256'), 'hex') as new_id
+    from access_codes
+    where not peppered;
+
+  update access_codes a set id = r.new_id, peppered = true from code_rekeys r where a.id = r.old_id;
+  update code_events e set code_id = r.new_id from code_rekeys r where e.code_id = r.old_id;
+  delete from code_devices d using code_rekeys r where d.code_id = r.old_id;
+  update history h set owner = r.new_id from code_rekeys r where h.owner = r.old_id;
+  update shared_analyses s set owner = r.new_id from code_rekeys r where s.owner = r.old_id;
+  update price_alerts p set owner = r.new_id from code_rekeys r where p.owner = r.old_id;
+  update alert_events e set owner = r.new_id from code_rekeys r where e.owner = r.old_id;
+
+  select count(*) into rekeyed from code_rekeys;
+  return rekeyed;
+end $$;
+
+revoke execute on function pepper_access_code_ids(text) from public, anon, authenticated;
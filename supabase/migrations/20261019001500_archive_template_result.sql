@@ -0,0 +1,14 @@
+-- archive_prompt_template reports whether the id existed, so archiving an
+-- unknown template can be answered with a 404 instead of a silent success.
+drop function if exists archive_prompt_template(text);
+
+create function archive_prompt_template(template_id text) returns boolean
+  language plpgsql
+  as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('prompt_templates'));
+  update prompt_templates set archived = true, is_default = false where id = template_id;
+  return found;
+end $$;
+
+revoke execute on function archive_prompt_template(text) from public, anon, authenticated;